@@ -25,26 +25,64 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Search, Filter, Loader2 } from "lucide-react";
-import { FormState, Shift, Material, Operation, Gauge, InspectionData } from "@/types";
+import { Search, Filter, Loader2, ListChecks } from "lucide-react";
+import { fetchApiList } from "@/lib/api";
+import { controlChartConstants } from "@/lib/spc/constants";
+import { ATTRIBUTE_CHART_TYPES, CHART_TYPES } from "@/lib/spc/charts";
+import { gaugeChartFamily } from "@/lib/gauges";
+import { CONFIDENCE_LEVELS } from "@/lib/spc/confidence";
+import { LIMIT_PHASES } from "@/lib/spc/controlLimits";
+import { STAGE_BY, STAGE_PERIODS } from "@/lib/spc/stages";
+import { INCOMPLETE_SUBGROUPS, SUBGROUP_BY } from "@/lib/spc/subgroups";
+import {
+  FormState, Shift, Material, Operation, Gauge, InspectionData, SelectionLabels, ChartType, ChartFamily,
+  AttributeChartType, AttributeGrouping, BinningRule, SpecChangeHandling, LimitPhase, StageBy, StagePeriod,
+  SubgroupBy, IncompleteSubgroups
+} from "@/types";
 
-// Sample sizes with corresponding control chart constants
+// Sample sizes offered in the form, with the constants that drive their control limits
 const sampleSizes = [
-  { value: "1", label: "1", A2: 2.66, D3: 0, D4: 3.267 },
-  { value: "2", label: "2", A2: 1.88, D3: 0, D4: 3.267 },
-  { value: "3", label: "3", A2: 1.772, D3: 0, D4: 2.574 },
-  { value: "4", label: "4", A2: 0.796, D3: 0, D4: 2.282 },
-  { value: "5", label: "5", A2: 0.691, D3: 0, D4: 2.114 },
-] as const;
+  { value: "1", label: "1 - Individuals (I-MR)" },
+  ...Object.values(controlChartConstants).map(({ n, A2, D3, D4 }) => ({
+    value: String(n),
+    label: `${n} (A2: ${A2.toFixed(3)}, D3: ${D3.toFixed(3)}, D4: ${D4.toFixed(3)})`,
+  })),
+];
+
+// Moving range spans offered for I-MR charts
+const movingRangeSpans = [2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const binningRules: { value: BinningRule; label: string }[] = [
+  { value: "square-root", label: "Square Root" },
+  { value: "sturges", label: "Sturges" },
+  { value: "scott", label: "Scott" },
+  { value: "freedman-diaconis", label: "Freedman-Diaconis" },
+  { value: "custom", label: "Custom Width" },
+];
+
+// Handling of readings taken under revised specification limits within the window
+const specChangeHandlings: { value: SpecChangeHandling; label: string }[] = [
+  { value: "segments", label: "Latest Revision" },
+  { value: "normalize", label: "% of Tolerance" },
+];
 
-type SampleSize = typeof sampleSizes[number]["value"];
-type FormField = "material" | "operation" | "gauge" | "sampleSize";
+const attributeGroupings: { value: AttributeGrouping; label: string }[] = [
+  { value: "subgroup", label: "Fixed Subgroup Size" },
+  { value: "date", label: "Inspection Date" },
+];
+
+type FormField =
+  | "material" | "operation" | "attributeSampleSize" | "binWidth" | "minimumCpk" | "stageBreakpoints" | "subgroupWindow"
+  | "ewmaLambda" | "ewmaWidth" | "cusumK" | "cusumH";
 
 interface AnalysisFormProps {
   formState: FormState;
   setFormState: React.Dispatch<React.SetStateAction<FormState>>;
-  onAnalyze: (formData: FormState) => void;
+  onAnalyze: (formData: FormState, labels: SelectionLabels) => void;
+  // Capability summary of every gauge of the selected material/operation
+  onAnalyzeAll: (formData: FormState, labels: SelectionLabels, gauges: Gauge[]) => void;
   loading: boolean;
   error: string | null;
 }
@@ -53,6 +91,7 @@ export default function AnalysisForm({
   formState,
   setFormState,
   onAnalyze,
+  onAnalyzeAll,
   loading,
   error,
 }: AnalysisFormProps) {
@@ -69,8 +108,6 @@ export default function AnalysisForm({
   const [isLoadingInspectionData, setIsLoadingInspectionData] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
 
-  const BASE_URL = "http://10.10.1.7:8304";
-
   // Event handlers
   const handleShiftToggle = (shiftId: string) => {
     const updatedShifts = formState.selectedShifts.includes(shiftId)
@@ -97,9 +134,52 @@ export default function AnalysisForm({
     });
   };
 
+  // Go/no-go gauges default to attribute charts, the Data Type select can still override this
+  const handleGaugeChange = (value: string) => {
+    setFormState({
+      ...formState,
+      gauge: value,
+      chartFamily: gaugeChartFamily(gauges.find((g) => g.GuageCode === value)),
+    });
+  };
+
+  // One reading per sample means an I-MR chart, subgroups need X-Bar R or X-Bar S
+  const handleSampleSizeChange = (value: string) => {
+    setFormState({
+      ...formState,
+      sampleSize: value,
+      chartType: value === "1" ? "i-mr" : formState.chartType === "i-mr" ? "xbar-r" : formState.chartType,
+    });
+  };
+
+  const handleChartTypeChange = (value: ChartType) => {
+    setFormState({
+      ...formState,
+      chartType: value,
+      sampleSize: value === "i-mr" ? "1" : formState.sampleSize === "1" ? "5" : formState.sampleSize,
+    });
+  };
+
+  const selectionLabels = (): SelectionLabels => ({
+    material: materials.find((m) => m.MaterialCode === formState.material)?.MaterialName || formState.material,
+    operation: operations.find((o) => o.OperationCode === formState.operation)?.OperationName || formState.operation,
+    gauge: gauges.find((g) => g.GuageCode === formState.gauge)?.GuageName || formState.gauge,
+    shifts: shifts
+      .filter((shift) => formState.selectedShifts.includes(shift.ShiftId))
+      .map((shift) => shift.ShiftName),
+  });
+
   const handleSubmit = () => {
     try {
-      onAnalyze(formState);
+      onAnalyze(formState, selectionLabels());
+    } catch (err) {
+      setFetchError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const handleSubmitAll = () => {
+    try {
+      onAnalyzeAll(formState, { ...selectionLabels(), gauge: `All gauges (${gauges.length})` }, gauges);
     } catch (err) {
       setFetchError(err instanceof Error ? err.message : "Unknown error");
     }
@@ -111,14 +191,7 @@ export default function AnalysisForm({
     const fetchShifts = async () => {
       setIsLoadingShifts(true);
       try {
-        const response = await fetch(`${BASE_URL}/api/commonappservices/getshiftdatalist`);
-        if (!response.ok) throw new Error("Failed to fetch shifts");
-        const data: { success: boolean; data: Shift[]; message?: string } = await response.json();
-        if (data.success) {
-          setShifts(data.data);
-        } else {
-          throw new Error(data.message || "Failed to fetch shifts");
-        }
+        setShifts(await fetchApiList<Shift>("/api/shifts"));
       } catch (err) {
         setFetchError(err instanceof Error ? err.message : "Unknown error");
       } finally {
@@ -135,19 +208,11 @@ export default function AnalysisForm({
 
       setIsLoadingMaterials(true);
       try {
-        const params = new URLSearchParams({
-          FromDate: format(formState.startDate, "dd/MM/yyyy"),
-          ToDate: format(formState.endDate, "dd/MM/yyyy"),
-          ShiftId: formState.selectedShifts.join(","),
-        });
-
-        const response = await fetch(
-          `${BASE_URL}/api/productionappservices/getspcmateriallist?${params}`
-        );
-
-        if (!response.ok) throw new Error("Failed to fetch materials");
-        const data: Material[] = await response.json();
-        setMaterials(data);
+        setMaterials(await fetchApiList<Material>("/api/materials", {
+          startDate: formState.startDate,
+          endDate: formState.endDate,
+          shiftIds: formState.selectedShifts,
+        }));
       } catch (err) {
         setFetchError(err instanceof Error ? err.message : "Unknown error");
       } finally {
@@ -163,18 +228,12 @@ export default function AnalysisForm({
       }
       setIsLoadingOperations(true);
       try {
-        const params = new URLSearchParams({
-          FromDate: format(formState.startDate, "dd/MM/yyyy"),
-          ToDate: format(formState.endDate, "dd/MM/yyyy"),
-          MaterialCode: formState.material,
-          ShiftId: formState.selectedShifts.join(","),
-        });
-        const response = await fetch(
-          `${BASE_URL}/api/productionappservices/getspcoperationlist?${params}`
-        );
-        if (!response.ok) throw new Error("Failed to fetch operations");
-        const data: Operation[] = await response.json();
-        setOperations(data);
+        setOperations(await fetchApiList<Operation>("/api/operations", {
+          startDate: formState.startDate,
+          endDate: formState.endDate,
+          materialCode: formState.material,
+          shiftIds: formState.selectedShifts,
+        }));
       } catch (err) {
         setFetchError(err instanceof Error ? err.message : "Unknown error");
       } finally {
@@ -190,18 +249,12 @@ export default function AnalysisForm({
       }
       setIsLoadingGauges(true);
       try {
-        const params = new URLSearchParams({
-          FromDate: format(formState.startDate, "dd/MM/yyyy"),
-          ToDate: format(formState.endDate, "dd/MM/yyyy"),
-          MaterialCode: formState.material,
-          OperationCode: formState.operation,
-        });
-        const response = await fetch(
-          `${BASE_URL}/api/productionappservices/getspcguagelist?${params}`
-        );
-        if (!response.ok) throw new Error("Failed to fetch gauges");
-        const data: Gauge[] = await response.json();
-        setGauges(data);
+        setGauges(await fetchApiList<Gauge>("/api/gauge", {
+          startDate: formState.startDate,
+          endDate: formState.endDate,
+          materialCode: formState.material,
+          operationCode: formState.operation,
+        }));
       } catch (err) {
         setFetchError(err instanceof Error ? err.message : "Unknown error");
       } finally {
@@ -224,20 +277,14 @@ export default function AnalysisForm({
       }
       setIsLoadingInspectionData(true);
       try {
-        const params = new URLSearchParams({
-          FromDate: format(formState.startDate, "dd/MM/yyyy"),
-          ToDate: format(formState.endDate, "dd/MM/yyyy"),
-          MaterialCode: formState.material,
-          OperationCode: formState.operation,
-          GuageCode: formState.gauge,
-          ShiftId: formState.selectedShifts.join(","),
-        });
-        const response = await fetch(
-          `${BASE_URL}/api/productionappservices/getspcpirinspectiondatalist?${params}`
-        );
-        if (!response.ok) throw new Error("Failed to fetch inspection data");
-        const data: InspectionData[] = await response.json();
-        setInspectionData(data);
+        setInspectionData(await fetchApiList<InspectionData>("/api/inspection-data", {
+          startDate: formState.startDate,
+          endDate: formState.endDate,
+          materialCode: formState.material,
+          operationCode: formState.operation,
+          gaugeCode: formState.gauge,
+          shiftIds: formState.selectedShifts,
+        }));
       } catch (err) {
         setFetchError(err instanceof Error ? err.message : "Unknown error");
       } finally {
@@ -282,15 +329,33 @@ export default function AnalysisForm({
     </div>
   );
 
+  const isAttribute = formState.chartFamily === "attribute";
+
   const formIsValid =
     formState.selectedShifts.length > 0 &&
     formState.material &&
     formState.operation &&
     formState.gauge &&
-    formState.sampleSize &&
-    inspectionData.length >= parseInt(formState.sampleSize) &&
+    (isAttribute
+      ? formState.attributeGrouping === "date" || parseInt(formState.attributeSampleSize) >= 1
+      : formState.sampleSize &&
+        inspectionData.length >= parseInt(formState.sampleSize) &&
+        (formState.binningRule !== "custom" || parseFloat(formState.binWidth) > 0) &&
+        parseFloat(formState.minimumCpk) >= 0) &&
+    inspectionData.length > 0 &&
     !isLoadingInspectionData;
 
+  // The batch runs the variables settings on every gauge, so it needs no gauge of its own
+  const batchIsValid =
+    formState.selectedShifts.length > 0 &&
+    formState.material &&
+    formState.operation &&
+    gauges.length > 0 &&
+    !isLoadingGauges &&
+    formState.sampleSize &&
+    (formState.binningRule !== "custom" || parseFloat(formState.binWidth) > 0) &&
+    parseFloat(formState.minimumCpk) >= 0;
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -359,7 +424,7 @@ export default function AnalysisForm({
             </div>
 
             {/* Dropdowns */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
               {/* Material */}
               <div className="space-y-1">
                 <Label className="text-xs">Material</Label>
@@ -428,7 +493,7 @@ export default function AnalysisForm({
                 <Select
                   disabled={isLoadingGauges || gauges.length === 0}
                   value={formState.gauge}
-                  onValueChange={(value: string) => handleFieldChange("gauge", value)}
+                  onValueChange={handleGaugeChange}
                 >
                   <SelectTrigger className="w-full h-9 text-sm">
                     <SelectValue placeholder="Select Gauge" />
@@ -453,29 +518,478 @@ export default function AnalysisForm({
                 </Select>
               </div>
 
-              {/* Sample Size */}
+              {/* Data Type */}
               <div className="space-y-1">
-                <Label className="text-xs">Sample Size</Label>
+                <Label className="text-xs">Data Type</Label>
                 <Select
-                  value={formState.sampleSize}
-                  onValueChange={(value: SampleSize) => handleFieldChange("sampleSize", value)}
+                  value={formState.chartFamily}
+                  onValueChange={(value: ChartFamily) => setFormState({ ...formState, chartFamily: value })}
                 >
                   <SelectTrigger className="w-full h-9 text-sm">
-                    <SelectValue placeholder="Sample Size" />
+                    <SelectValue placeholder="Data Type" />
                   </SelectTrigger>
                   <SelectContent>
-                    {sampleSizes.map((size) => (
-                      <SelectItem
-                        key={size.value}
-                        value={size.value}
-                        className="text-sm"
-                      >
-                        {size.label} (A2: {size.A2}, D3: {size.D3}, D4: {size.D4})
-                      </SelectItem>
-                    ))}
+                    <SelectItem value="variables" className="text-sm">Variables (Measured)</SelectItem>
+                    <SelectItem value="attribute" className="text-sm">Attribute (Go/No-Go)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+
+              {isAttribute ? (
+                <>
+                  {/* Attribute Chart Type */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Chart Type</Label>
+                    <Select
+                      value={formState.attributeChartType}
+                      onValueChange={(value: AttributeChartType) =>
+                        setFormState({ ...formState, attributeChartType: value })
+                      }
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Chart Type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ATTRIBUTE_CHART_TYPES) as AttributeChartType[]).map((type) => (
+                          <SelectItem key={type} value={type} className="text-sm">
+                            {ATTRIBUTE_CHART_TYPES[type].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">
+                      {ATTRIBUTE_CHART_TYPES[formState.attributeChartType].description}
+                    </p>
+                  </div>
+
+                  {/* Attribute Grouping */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Group By</Label>
+                    <Select
+                      value={formState.attributeGrouping}
+                      onValueChange={(value: AttributeGrouping) =>
+                        setFormState({ ...formState, attributeGrouping: value })
+                      }
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Group By" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {attributeGroupings.map((grouping) => (
+                          <SelectItem key={grouping.value} value={grouping.value} className="text-sm">
+                            {grouping.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Attribute Subgroup Size */}
+                  {formState.attributeGrouping === "subgroup" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Subgroup Size</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        className="h-9 text-sm"
+                        value={formState.attributeSampleSize}
+                        onChange={(e) => handleFieldChange("attributeSampleSize", e.target.value)}
+                      />
+                    </div>
+                  )}
+                </>
+              ) : (
+                <>
+                  {/* Sample Size */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Sample Size</Label>
+                    <Select
+                      value={formState.sampleSize}
+                      onValueChange={handleSampleSizeChange}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Sample Size" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sampleSizes.map((size) => (
+                          <SelectItem
+                            key={size.value}
+                            value={size.value}
+                            className="text-sm"
+                          >
+                            {size.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Chart Type */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Chart Type</Label>
+                    <Select
+                      value={formState.chartType}
+                      onValueChange={handleChartTypeChange}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Chart Type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CHART_TYPES) as ChartType[]).map((type) => (
+                          <SelectItem
+                            key={type}
+                            value={type}
+                            className="text-sm"
+                          >
+                            {CHART_TYPES[type].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {formState.chartType === "xbar-r" && parseInt(formState.sampleSize) > 10 && (
+                      <p className="text-xs text-amber-600">X-Bar &amp; S is recommended above n = 10</p>
+                    )}
+                  </div>
+
+                  {/* Moving Range Span */}
+                  {formState.chartType === "i-mr" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Moving Range Span</Label>
+                      <Select
+                        value={formState.movingRangeSpan}
+                        onValueChange={(value) => setFormState({ ...formState, movingRangeSpan: value })}
+                      >
+                        <SelectTrigger className="w-full h-9 text-sm">
+                          <SelectValue placeholder="Span" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {movingRangeSpans.map((span) => (
+                            <SelectItem key={span} value={String(span)} className="text-sm">
+                              {span} readings (d2: {controlChartConstants[span].d2.toFixed(3)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {/* Rational Subgroups; the order also matters for individuals */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">{formState.chartType === "i-mr" ? "Reading Order" : "Subgroups"}</Label>
+                    <Select
+                      value={formState.subgroupBy}
+                      onValueChange={(value: SubgroupBy) => setFormState({ ...formState, subgroupBy: value })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Subgroups" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SUBGROUP_BY) as SubgroupBy[]).map((subgroupBy) => (
+                          <SelectItem key={subgroupBy} value={subgroupBy} className="text-sm">
+                            {SUBGROUP_BY[subgroupBy].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Subgroup Window */}
+                  {formState.subgroupBy === "time" && formState.chartType !== "i-mr" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Subgroup Window (min)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="1"
+                        className="h-9 text-sm"
+                        value={formState.subgroupWindow}
+                        onChange={(e) => handleFieldChange("subgroupWindow", e.target.value)}
+                      />
+                    </div>
+                  )}
+
+                  {/* Incomplete Subgroups */}
+                  {formState.chartType !== "i-mr" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Incomplete Subgroups</Label>
+                      <Select
+                        value={formState.incompleteSubgroups}
+                        onValueChange={(value: IncompleteSubgroups) =>
+                          setFormState({ ...formState, incompleteSubgroups: value })
+                        }
+                      >
+                        <SelectTrigger className="w-full h-9 text-sm">
+                          <SelectValue placeholder="Incomplete subgroups" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(INCOMPLETE_SUBGROUPS) as IncompleteSubgroups[]).map((handling) => (
+                            <SelectItem key={handling} value={handling} className="text-sm">
+                              {INCOMPLETE_SUBGROUPS[handling]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {/* EWMA Chart */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">EWMA Chart</Label>
+                    <div className="flex items-center space-x-1 h-9">
+                      <Checkbox
+                        id="ewma-enabled"
+                        checked={formState.ewmaEnabled}
+                        onCheckedChange={(checked) => setFormState({ ...formState, ewmaEnabled: checked === true })}
+                        className="h-3 w-3"
+                      />
+                      <Label htmlFor="ewma-enabled" className="text-xs">
+                        Show beside the {formState.chartType === "i-mr" ? "Individuals" : "X-Bar"} chart
+                      </Label>
+                    </div>
+                  </div>
+
+                  {/* EWMA Weight and Limit Width */}
+                  {formState.ewmaEnabled && (
+                    <>
+                      <div className="space-y-1">
+                        <Label className="text-xs">EWMA Weight (λ)</Label>
+                        <Input
+                          type="number"
+                          min={0.01}
+                          max={1}
+                          step="0.05"
+                          className="h-9 text-sm"
+                          value={formState.ewmaLambda}
+                          onChange={(e) => handleFieldChange("ewmaLambda", e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">EWMA Limit Width (L)</Label>
+                        <Input
+                          type="number"
+                          min={0.1}
+                          step="0.1"
+                          className="h-9 text-sm"
+                          value={formState.ewmaWidth}
+                          onChange={(e) => handleFieldChange("ewmaWidth", e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {/* CUSUM Chart */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">CUSUM Chart</Label>
+                    <div className="flex items-center space-x-1 h-9">
+                      <Checkbox
+                        id="cusum-enabled"
+                        checked={formState.cusumEnabled}
+                        onCheckedChange={(checked) => setFormState({ ...formState, cusumEnabled: checked === true })}
+                        className="h-3 w-3"
+                      />
+                      <Label htmlFor="cusum-enabled" className="text-xs">
+                        Show beside the {formState.chartType === "i-mr" ? "Individuals" : "X-Bar"} chart
+                      </Label>
+                    </div>
+                  </div>
+
+                  {/* CUSUM Reference Value and Decision Interval */}
+                  {formState.cusumEnabled && (
+                    <>
+                      <div className="space-y-1">
+                        <Label className="text-xs">CUSUM Reference Value (k, σ)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.1"
+                          className="h-9 text-sm"
+                          value={formState.cusumK}
+                          onChange={(e) => handleFieldChange("cusumK", e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">CUSUM Decision Interval (h, σ)</Label>
+                        <Input
+                          type="number"
+                          min={0.5}
+                          step="0.5"
+                          className="h-9 text-sm"
+                          value={formState.cusumH}
+                          onChange={(e) => handleFieldChange("cusumH", e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {/* Histogram Bins */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Histogram Bins</Label>
+                    <Select
+                      value={formState.binningRule}
+                      onValueChange={(value: BinningRule) => setFormState({ ...formState, binningRule: value })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Binning" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {binningRules.map((rule) => (
+                          <SelectItem key={rule.value} value={rule.value} className="text-sm">
+                            {rule.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Custom Bin Width */}
+                  {formState.binningRule === "custom" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Bin Width</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="any"
+                        className="h-9 text-sm"
+                        value={formState.binWidth}
+                        onChange={(e) => handleFieldChange("binWidth", e.target.value)}
+                      />
+                    </div>
+                  )}
+
+                  {/* Confidence Level */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Confidence Level</Label>
+                    <Select
+                      value={formState.confidenceLevel}
+                      onValueChange={(value) => setFormState({ ...formState, confidenceLevel: value })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Confidence" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONFIDENCE_LEVELS.map((level) => (
+                          <SelectItem key={level} value={String(level)} className="text-sm">
+                            {level * 100}%
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Customer Minimum Cpk */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Minimum Cpk</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      className="h-9 text-sm"
+                      value={formState.minimumCpk}
+                      onChange={(e) => handleFieldChange("minimumCpk", e.target.value)}
+                    />
+                  </div>
+
+                  {/* Spec Changes */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">If Spec Changed</Label>
+                    <Select
+                      value={formState.specChangeHandling}
+                      onValueChange={(value: SpecChangeHandling) =>
+                        setFormState({ ...formState, specChangeHandling: value })
+                      }
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Spec changes" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {specChangeHandlings.map((handling) => (
+                          <SelectItem key={handling.value} value={handling.value} className="text-sm">
+                            {handling.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Phase I / Phase II Limits */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Control Limits</Label>
+                    <Select
+                      value={formState.limitPhase}
+                      onValueChange={(value: LimitPhase) => setFormState({ ...formState, limitPhase: value })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Control limits" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(LIMIT_PHASES) as LimitPhase[]).map((phase) => (
+                          <SelectItem key={phase} value={phase} className="text-sm">
+                            {LIMIT_PHASES[phase].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Staged Charts */}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Stages</Label>
+                    <Select
+                      value={formState.stageBy}
+                      onValueChange={(value: StageBy) => setFormState({ ...formState, stageBy: value })}
+                    >
+                      <SelectTrigger className="w-full h-9 text-sm">
+                        <SelectValue placeholder="Stages" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(STAGE_BY) as StageBy[]).map((stageBy) => (
+                          <SelectItem key={stageBy} value={stageBy} className="text-sm">
+                            {STAGE_BY[stageBy].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {formState.stageBy !== "none" && formState.limitPhase === "phase-2" && (
+                      <p className="text-xs text-amber-600">Staged charts calculate their own limits</p>
+                    )}
+                  </div>
+
+                  {/* Stage Period */}
+                  {formState.stageBy === "period" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Stage Period</Label>
+                      <Select
+                        value={formState.stagePeriod}
+                        onValueChange={(value: StagePeriod) => setFormState({ ...formState, stagePeriod: value })}
+                      >
+                        <SelectTrigger className="w-full h-9 text-sm">
+                          <SelectValue placeholder="Period" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(STAGE_PERIODS) as StagePeriod[]).map((period) => (
+                            <SelectItem key={period} value={period} className="text-sm">
+                              {STAGE_PERIODS[period]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {/* Stage Breakpoints */}
+                  {formState.stageBy === "breakpoints" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">New Stage at Samples</Label>
+                      <Input
+                        className="h-9 text-sm"
+                        placeholder="e.g. 41, 81"
+                        value={formState.stageBreakpoints}
+                        onChange={(e) => handleFieldChange("stageBreakpoints", e.target.value)}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
             </div>
 
             {/* Action button */}
@@ -497,6 +1011,15 @@ export default function AnalysisForm({
                   </>
                 )}
               </Button>
+              <Button
+                variant="outline"
+                className="w-full sm:w-auto h-9 mt-2 sm:mt-0 sm:ml-2"
+                onClick={handleSubmitAll}
+                disabled={loading || !batchIsValid}
+              >
+                <ListChecks className="mr-2 h-4 w-4" />
+                Analyze All Gauges
+              </Button>
             </div>
           </div>
         </CardContent>
@@ -2,6 +2,8 @@
 
 "use client";
 
+import { useState } from "react";
+import { format } from "date-fns";
 import { motion } from "framer-motion";
 import {
   Card,
@@ -11,8 +13,17 @@ import {
   CardDescription,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { cn } from "@/lib/utils";
-import { Download, Loader2, LineChart as LineChartIcon } from "lucide-react";
+import { Check, Download, Loader2, Lock, RotateCcw, LineChart as LineChartIcon } from "lucide-react";
 import {
   LineChart,
   Line,
@@ -21,24 +32,48 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
-  ReferenceLine,
   ResponsiveContainer,
-  BarChart,
-  Bar,
 } from "recharts";
-import { AnalysisData } from "@/types";
+import { AnalysisData, CapabilityIndex, PointExclusion } from "@/types";
+import {
+  CONTROL_CHART_STROKES, Histogram, NormalProbabilityPlot, limitLines, lowerSeriesLine, violationDot
+} from "@/components/spc/ChartComponent";
+import { CHART_TYPES, controlChartPanels, signalCharts } from "@/lib/spc/charts";
+import { SPCPatternDetection } from "@/components/spc/SPCPattern";
+import { CusumSignals, IndexInterval, PpmSummary, SpecChangeNotice, StageCapability } from "@/components/spc/MetricCards";
+import { TARGET_SOURCE_LABELS } from "@/lib/spc/characteristics";
+import { limitSourceLabel } from "@/lib/spc/controlLimits";
+import { subgroupingLabel } from "@/lib/spc/subgroups";
+import { flaggedIndices } from "@/lib/spc/rules";
+import { runCheckLabels } from "@/lib/spc/ruleSets";
+import { formatPValue } from "@/lib/spc/distributions";
+import { round } from "@/lib/spc/statistics";
 
 interface AnalysisResultsProps {
   analysisData: AnalysisData;
   onDownload: () => void;
   downloading: boolean;
+  // Freezing is offered for Phase I results only
+  onFreezeLimits?: () => void;
+  freezing?: boolean;
+  limitsFrozen?: boolean;
+  // Points can be clicked and excluded when set; called with the full new list of exclusions
+  onExclusionsChange?: (exclusions: PointExclusion[]) => void;
 }
 
 export default function AnalysisResults({
   analysisData,
   onDownload,
   downloading,
+  onFreezeLimits,
+  freezing = false,
+  limitsFrozen = false,
+  onExclusionsChange,
 }: AnalysisResultsProps) {
+  // Sample picked on a chart, awaiting a reason for its exclusion
+  const [selectedSample, setSelectedSample] = useState<number | null>(null);
+  const [exclusionReason, setExclusionReason] = useState("");
+
   // Animation variants
   const fadeIn = {
     initial: { opacity: 0, y: 20 },
@@ -46,6 +81,25 @@ export default function AnalysisResults({
     transition: { duration: 0.3 },
   };
 
+  const runLabels = runCheckLabels(analysisData.ruleSet, analysisData.controlCharts.chartType);
+  const excludedSamples = new Set(analysisData.exclusions.map((e) => e.sample));
+  const sampleValue = (sample: number) => round(analysisData.controlCharts.xBarData[sample - 1].y, 4);
+
+  const handleSelectSample = (sample: number) => {
+    if (excludedSamples.has(sample)) return;
+    setSelectedSample(sample);
+    setExclusionReason("");
+  };
+
+  const handleExclude = () => {
+    if (!onExclusionsChange || selectedSample === null || !exclusionReason.trim()) return;
+    onExclusionsChange([
+      ...analysisData.exclusions,
+      { sample: selectedSample, reason: exclusionReason.trim(), excludedAt: new Date().toISOString() },
+    ]);
+    setSelectedSample(null);
+  };
+
   // Components
   const renderMetricCard = (metrics: AnalysisData["metrics"]) => (
     <motion.div {...fadeIn}>
@@ -56,75 +110,133 @@ export default function AnalysisResults({
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
-            {[
+            {([
               { label: "X-Bar", value: metrics.xBar },
               { label: "Std Dev Overall", value: metrics.stdDevOverall },
               { label: "Std Dev Within", value: metrics.stdDevWithin },
-              { label: "Avg Range", value: metrics.avgRange },
-              { label: "Cp", value: metrics.cp },
-              { label: "Cpu", value: metrics.cpu },
-              { label: "Cpl", value: metrics.cpl },
-              { label: "Cpk", value: metrics.cpk },
-              { label: "Pp", value: metrics.pp },
-              { label: "Ppu", value: metrics.ppu },
-              { label: "Ppl", value: metrics.ppl },
-              { label: "Ppk", value: metrics.ppk },
+              metrics.avgStdDev !== undefined
+                ? { label: "Avg Std Dev", value: metrics.avgStdDev }
+                : {
+                    label: analysisData.controlCharts.chartType === "i-mr" ? "Avg Moving Range" : "Avg Range",
+                    value: metrics.avgRange,
+                  },
+              { label: "Cp", value: metrics.cp, index: "cp" },
+              { label: "Cpu", value: metrics.cpu, index: "cpu" },
+              { label: "Cpl", value: metrics.cpl, index: "cpl" },
+              { label: "Cpk", value: metrics.cpk, index: "cpk" },
+              { label: "Pp", value: metrics.pp, index: "pp" },
+              { label: "Ppu", value: metrics.ppu, index: "ppu" },
+              { label: "Ppl", value: metrics.ppl, index: "ppl" },
+              { label: "Ppk", value: metrics.ppk, index: "ppk" },
+              { label: "Cpm", value: metrics.cpm },
+              { label: "Cpkm", value: metrics.cpkm },
               { label: "LSL", value: metrics.lsl },
               { label: "USL", value: metrics.usl },
-              { label: "Target", value: metrics.target },
-            ].map((item, i) => (
-              <motion.div
-                key={item.label}
-                className="p-3 bg-slate-50 rounded-lg"
-                initial={{ opacity: 0, scale: 0.9 }}
-                animate={{ opacity: 1, scale: 1 }}
-                transition={{ duration: 0.2, delay: i * 0.05 }}
-              >
-                <div className="text-xs font-medium text-slate-500">{item.label}</div>
-                <div className="text-lg font-bold">{item.value}</div>
-              </motion.div>
-            ))}
+              {
+                label: "Target",
+                value: metrics.target,
+                note: metrics.targetSource && TARGET_SOURCE_LABELS[metrics.targetSource],
+              },
+            ] as { label: string; value?: number; index?: CapabilityIndex; note?: string }[])
+              // One-sided specifications have no Cp, Pp or Cpm and only one limit
+              .filter((item) => item.value !== undefined)
+              .map((item, i) => (
+                <motion.div
+                  key={item.label}
+                  className="p-3 bg-slate-50 rounded-lg"
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.2, delay: i * 0.05 }}
+                >
+                  <div className="text-xs font-medium text-slate-500">{item.label}</div>
+                  <div className="text-lg font-bold">{item.value}</div>
+                  {item.index && <IndexInterval metrics={metrics} index={item.index} />}
+                  {item.note && <div className="text-xs text-slate-500">{item.note}</div>}
+                </motion.div>
+              ))}
+          </div>
+          <PpmSummary metrics={metrics} className="mt-4" />
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+
+  const renderCapabilityModel = (capability: AnalysisData["capability"]) => (
+    <motion.div {...fadeIn}>
+      <Card className="shadow-md">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-blue-600">Capability Model</CardTitle>
+          <CardDescription>
+            {capability.selected.label} (Anderson-Darling p = {formatPValue(capability.selected)}), percentile method
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-2 gap-3 content-start">
+              {[
+                { label: "0.135th Percentile", value: capability.pLower },
+                { label: "Median", value: capability.median },
+                { label: "99.865th Percentile", value: capability.pUpper },
+                { label: "Pp", value: capability.pp },
+                { label: "Ppu", value: capability.ppu },
+                { label: "Ppl", value: capability.ppl },
+                { label: "Ppk", value: capability.ppk },
+              ]
+                .filter((item) => item.value !== undefined)
+                .map((item) => (
+                  <div key={item.label} className="p-3 bg-slate-50 rounded-lg">
+                    <div className="text-xs font-medium text-slate-500">{item.label}</div>
+                    <div className="text-lg font-bold">{item.value}</div>
+                  </div>
+                ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Distribution</TableHead>
+                  <TableHead className="text-right">AD</TableHead>
+                  <TableHead className="text-right">p-value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {capability.fits.map((fit) => (
+                  <TableRow
+                    key={fit.distribution}
+                    className={cn(fit.distribution === capability.selected.distribution && "font-semibold bg-blue-50")}
+                  >
+                    <TableCell>{fit.label}</TableCell>
+                    <TableCell className="text-right">{fit.adStatistic.toFixed(3)}</TableCell>
+                    <TableCell className="text-right">{formatPValue(fit)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
           </div>
         </CardContent>
       </Card>
     </motion.div>
   );
 
-  const renderControlCharts = (chartData: AnalysisData["controlCharts"]) => (
+  const renderControlCharts = (
+    chartData: AnalysisData["controlCharts"],
+    violations: AnalysisData["ruleViolations"]
+  ) => (
     <motion.div {...fadeIn}>
       <Card className="shadow-md">
         <CardHeader className="pb-2">
           <CardTitle className="text-lg text-blue-600">Control Charts</CardTitle>
-          <CardDescription>X-Bar and Range Charts</CardDescription>
+          <CardDescription>
+            {CHART_TYPES[chartData.chartType].label} Charts - {limitSourceLabel(chartData.limitSource)}
+            {chartData.segments?.some((segment) => segment.subgroupSize !== undefined) &&
+              " (limits vary with subgroup size)"}
+            <span className="block">
+              {chartData.chartType === "i-mr" ? "Reading order" : "Subgroups"}: {subgroupingLabel(analysisData.subgrouping)}
+            </span>
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
-            {[
-              {
-                title: "X-Bar Chart",
-                data: chartData.xBarData,
-                limits: {
-                  ucl: chartData.limits.xBarUcl,
-                  mean: chartData.limits.xBarMean,
-                  lcl: chartData.limits.Agostinho,
-                },
-                dataKey: "Value",
-                stroke: "#8884d8",
-                yLabel: "Value",
-              },
-              {
-                title: "Range Chart",
-                data: chartData.rangeData,
-                limits: {
-                  ucl: chartData.limits.rangeUcl,
-                  mean: chartData.limits.rangeMean,
-                  lcl: chartData.limits.rangeLcl,
-                },
-                dataKey: "Range",
-                stroke: "#82ca9d",
-                yLabel: "Range",
-              },
-            ].map((chart, i) => (
+            {controlChartPanels(chartData).map((chart, i) => (
               <div key={i} className="h-56">
                 <h3 className="text-sm font-medium mb-1">{chart.title}</h3>
                 <ResponsiveContainer width="100%" height="100%">
@@ -135,6 +247,9 @@ export default function AnalysisResults({
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis
                       dataKey="x"
+                      type="number"
+                      domain={chart.xDomain}
+                      allowDecimals={false}
                       label={{ value: "Sample", position: "insideBottomRight", offset: -5 }}
                     />
                     <YAxis
@@ -142,83 +257,95 @@ export default function AnalysisResults({
                     />
                     <Tooltip />
                     <Legend />
-                    <ReferenceLine
-                      y={chart.limits.ucl}
-                      stroke="red"
-                      strokeDasharray="3 3"
-                      label="UCL"
-                    />
-                    <ReferenceLine
-                      y={chart.limits.mean}
-                      stroke="blue"
-                      label={i === 0 ? "X-Bar" : "R-Bar"}
-                    />
-                    <ReferenceLine
-                      y={chart.limits.lcl}
-                      stroke="red"
-                      strokeDasharray="3 3"
-                      label="LCL"
-                    />
+                    {limitLines(chart)}
                     <Line
                       type="monotone"
                       dataKey="y"
-                      name={chart.dataKey}
-                      stroke={chart.stroke}
-                      dot={{ r: 2 }}
+                      name={chart.yLabel}
+                      stroke={CONTROL_CHART_STROKES[chart.kind]}
+                      dot={violationDot(chart.flagged ?? flaggedIndices(violations, chart.kind), CONTROL_CHART_STROKES[chart.kind], {
+                        excluded: chart.excluded,
+                        onSelect: onExclusionsChange
+                          ? (index) => handleSelectSample(chart.data[index].x)
+                          : undefined,
+                      })}
                     />
+                    {lowerSeriesLine(chart)}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
             ))}
           </div>
+          {onExclusionsChange && renderExclusions()}
         </CardContent>
       </Card>
     </motion.div>
   );
 
-  const renderHistogram = ({
-    data,
-    stats,
-    lsl,
-    usl,
-  }: {
-    data: AnalysisData["distribution"]["data"];
-    stats: AnalysisData["distribution"]["stats"];
-    lsl: number;
-    usl: number;
-  }) => (
-    <motion.div {...fadeIn}>
-      <Card className="shadow-md">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-lg text-blue-600">Histogram</CardTitle>
-          <CardDescription>Distribution of measurements</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-56">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart
-                data={data}
-                margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis
-                  dataKey="x"
-                  label={{ value: "Value", position: "insideBottomRight", offset: -5 }}
-                />
-                <YAxis
-                  label={{ value: "Frequency", angle: -90, position: "insideLeft" }}
-                />
-                <Tooltip />
-                <ReferenceLine x={lsl} stroke="red" label="LSL" />
-                <ReferenceLine x={usl} stroke="red" label="USL" />
-                <ReferenceLine x={stats.target} stroke="green" label="Target" />
-                <Bar dataKey="y" fill="#8884d8" />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
-    </motion.div>
+  const renderExclusions = () => (
+    <div className="mt-6 pt-4 border-t space-y-3">
+      <p className="text-xs text-gray-500">
+        Click a point to exclude it for an assignable cause. Excluded points stay on the charts in grey and are
+        left out of the limits, indices and run rules. Points of dated or serialised readings stay excluded in later
+        analyses of the same characteristic.
+      </p>
+      {selectedSample !== null && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <span className="text-sm font-medium whitespace-nowrap">
+            Exclude sample {selectedSample} ({sampleValue(selectedSample)})
+          </span>
+          <Input
+            className="h-9 text-sm"
+            placeholder="Reason, e.g. tool crash"
+            value={exclusionReason}
+            onChange={(e) => setExclusionReason(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleExclude()}
+            autoFocus
+          />
+          <Button className="h-9" onClick={handleExclude} disabled={!exclusionReason.trim()}>
+            Exclude
+          </Button>
+          <Button variant="ghost" className="h-9" onClick={() => setSelectedSample(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+      {analysisData.exclusions.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sample</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Excluded</TableHead>
+              <TableHead className="w-16" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analysisData.exclusions.map((exclusion) => (
+              <TableRow key={exclusion.sample}>
+                <TableCell>{exclusion.sample}</TableCell>
+                <TableCell>{sampleValue(exclusion.sample)}</TableCell>
+                <TableCell>{exclusion.reason}</TableCell>
+                <TableCell>{format(new Date(exclusion.excludedAt), "PPp")}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Restore point"
+                    onClick={() =>
+                      onExclusionsChange?.(analysisData.exclusions.filter((e) => e.sample !== exclusion.sample))
+                    }
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
   );
 
   const renderAnalysisCards = (analysis: {
@@ -238,9 +365,9 @@ export default function AnalysisResults({
                 { key: "processSpread", label: "Process Spread" },
                 { key: "specialCausePresent", label: "Special Cause Present" },
                 { key: "pointsOutsideLimits", label: "Points Outside Limits" },
-                { key: "rangePointsOutsideLimits", label: "Range Points Outside Limits" },
-                { key: "eightConsecutivePoints", label: "Eight Consecutive Points" },
-                { key: "sixConsecutiveTrend", label: "Six Consecutive Trend" },
+                { key: "rangePointsOutsideLimits", label: runLabels.rangePointsOutsideLimits },
+                { key: "consecutivePointsRun", label: runLabels.consecutivePointsRun },
+                { key: "consecutiveTrend", label: runLabels.consecutiveTrend },
               ].map(({ key, label }) => (
                 <div key={key} className="flex justify-between items-center">
                   <span className="text-sm text-gray-600">{label}</span>
@@ -276,6 +403,7 @@ export default function AnalysisResults({
                 { key: "processPerformance", label: "Process Performance" },
                 { key: "processStability", label: "Process Stability" },
                 { key: "processShift", label: "Process Shift" },
+                { key: "longTermCentered", label: "Long-term Centering" },
               ].map(({ key, label }) => (
                 <div key={key} className="flex justify-between items-center">
                   <span className="text-sm text-gray-600">{label}</span>
@@ -314,34 +442,71 @@ export default function AnalysisResults({
           <h2 className="text-xl font-semibold">Analysis Results</h2>
         </div>
 
-        <Button
-          variant="outline"
-          onClick={onDownload}
-          disabled={downloading}
-          className="h-9"
-        >
-          {downloading ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Downloading...
-            </>
-          ) : (
-            <>
-              <Download className="mr-2 h-4 w-4" />
-              Download Report
-            </>
-          )}
-        </Button>
+        <div className="flex items-center gap-2">
+          {/* Readings shown as % of tolerance have no limits in measurement units, staged charts no single set;
+              limits that vary with subgroup size are frozen at the nominal size */}
+          {onFreezeLimits &&
+            analysisData.controlCharts.limitSource.phase === "phase-1" &&
+            analysisData.specChange?.handling !== "normalize" &&
+            !analysisData.stages && (
+              <Button
+                variant="outline"
+                onClick={onFreezeLimits}
+                disabled={freezing || limitsFrozen}
+                className="h-9"
+              >
+                {freezing ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : limitsFrozen ? (
+                  <Check className="mr-2 h-4 w-4" />
+                ) : (
+                  <Lock className="mr-2 h-4 w-4" />
+                )}
+                {limitsFrozen ? "Limits Frozen" : "Freeze Limits"}
+              </Button>
+            )}
+          <Button
+            variant="outline"
+            onClick={onDownload}
+            disabled={downloading}
+            className="h-9"
+          >
+            {downloading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Downloading...
+              </>
+            ) : (
+              <>
+                <Download className="mr-2 h-4 w-4" />
+                Download Report
+              </>
+            )}
+          </Button>
+        </div>
       </div>
 
+      {analysisData.specChange && <SpecChangeNotice specChange={analysisData.specChange} />}
       {renderMetricCard(analysisData.metrics)}
-      {renderControlCharts(analysisData.controlCharts)}
-      {renderHistogram({
-        data: analysisData.distribution.data,
-        stats: analysisData.distribution.stats,
-        lsl: analysisData.metrics.lsl,
-        usl: analysisData.metrics.usl,
-      })}
+      {renderCapabilityModel(analysisData.capability)}
+      {renderControlCharts(analysisData.controlCharts, analysisData.ruleViolations)}
+      {analysisData.stages && <StageCapability stages={analysisData.stages} />}
+      {!!analysisData.controlCharts.cusum?.signals.length && <CusumSignals cusum={analysisData.controlCharts.cusum} />}
+      <SPCPatternDetection
+        violations={analysisData.ruleViolations}
+        ruleSet={analysisData.ruleSet}
+        chartType={analysisData.controlCharts.chartType}
+        signals={signalCharts(analysisData.controlCharts)}
+      />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Histogram
+          distribution={analysisData.distribution}
+          lsl={analysisData.metrics.lsl}
+          usl={analysisData.metrics.usl}
+          className="mt-0 shadow-md"
+        />
+        <NormalProbabilityPlot normality={analysisData.normality} className="mt-0 shadow-md" />
+      </div>
       {renderAnalysisCards(analysisData)}
     </motion.div>
   );
@@ -0,0 +1,194 @@
+// AttributeResults.tsx
+
+"use client";
+
+import { motion } from "framer-motion";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { LineChart as LineChartIcon } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { AttributeAnalysisData } from "@/types";
+import { CONTROL_CHART_STROKES, violationDot } from "@/components/spc/ChartComponent";
+import { ATTRIBUTE_CHART_TYPES } from "@/lib/spc/charts";
+import { SPCPatternDetection } from "@/components/spc/SPCPattern";
+import { flaggedIndices } from "@/lib/spc/rules";
+
+interface AttributeResultsProps {
+  attributeData: AttributeAnalysisData;
+}
+
+// Axis label and center line symbol per chart type
+const ATTRIBUTE_AXES = {
+  p: { yLabel: "Fraction Defective", centerLabel: "p-Bar" },
+  np: { yLabel: "Defectives", centerLabel: "np-Bar" },
+  c: { yLabel: "Defects", centerLabel: "c-Bar" },
+  u: { yLabel: "Defects per Unit", centerLabel: "u-Bar" },
+};
+
+export default function AttributeResults({ attributeData }: AttributeResultsProps) {
+  // Animation variants
+  const fadeIn = {
+    initial: { opacity: 0, y: 20 },
+    animate: { opacity: 1, y: 0 },
+    transition: { duration: 0.3 },
+  };
+
+  const { chartType, metrics, points } = attributeData;
+  const axes = ATTRIBUTE_AXES[chartType];
+  const countsDefects = chartType === "c" || chartType === "u";
+
+  const renderMetricCard = () => (
+    <motion.div {...fadeIn}>
+      <Card className="shadow-md">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-blue-600">Process Metrics</CardTitle>
+          <CardDescription>Go/no-go inspection summary</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: "Subgroups", value: metrics.subgroups },
+              { label: "Inspected", value: metrics.inspected },
+              countsDefects
+                ? { label: "Defects", value: metrics.defects }
+                : { label: "Defectives", value: metrics.defectives },
+              { label: "Avg Subgroup Size", value: metrics.averageSampleSize },
+              { label: axes.centerLabel, value: metrics.center },
+              ...(metrics.percentDefective !== undefined
+                ? [{ label: "% Defective", value: metrics.percentDefective }]
+                : []),
+              { label: countsDefects ? "DPMO" : "PPM", value: metrics.ppm },
+              {
+                label: "Process Stability",
+                value: attributeData.processStability,
+              },
+            ].map((item, i) => (
+              <motion.div
+                key={item.label}
+                className="p-3 bg-slate-50 rounded-lg"
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.2, delay: i * 0.05 }}
+              >
+                <div className="text-xs font-medium text-slate-500">{item.label}</div>
+                <div
+                  className={cn(
+                    "text-lg font-bold",
+                    item.value === "Unstable" && "text-red-500",
+                    item.value === "Stable" && "text-green-500"
+                  )}
+                >
+                  {item.value}
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+
+  // Limits are drawn as stepped lines so that they follow varying subgroup sizes
+  const renderControlChart = () => (
+    <motion.div {...fadeIn}>
+      <Card className="shadow-md">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-blue-600">Control Chart</CardTitle>
+          <CardDescription>
+            {ATTRIBUTE_CHART_TYPES[chartType].label}
+            {attributeData.constantLimits ? "" : " (limits vary with subgroup size)"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={[1, points.length]}
+                  allowDecimals={false}
+                  label={{
+                    value: attributeData.grouping === "date" ? "Day" : "Subgroup",
+                    position: "insideBottomRight",
+                    offset: -5,
+                  }}
+                />
+                <YAxis label={{ value: axes.yLabel, angle: -90, position: "insideLeft" }} />
+                <Tooltip labelFormatter={(x) => points[Number(x) - 1]?.label ?? x} />
+                <Legend />
+                <ReferenceLine y={metrics.center} stroke="blue" label={axes.centerLabel} />
+                <Line
+                  type="stepAfter"
+                  dataKey="ucl"
+                  name="UCL"
+                  stroke="red"
+                  strokeDasharray="3 3"
+                  dot={false}
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="lcl"
+                  name="LCL"
+                  stroke="red"
+                  strokeDasharray="3 3"
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="y"
+                  name={axes.yLabel}
+                  stroke={CONTROL_CHART_STROKES.attribute}
+                  dot={violationDot(
+                    flaggedIndices(attributeData.ruleViolations, "attribute"),
+                    CONTROL_CHART_STROKES.attribute
+                  )}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      transition={{ duration: 0.4 }}
+      className="space-y-6"
+    >
+      <div className="flex items-center gap-2">
+        <LineChartIcon className="h-5 w-5 text-blue-600" />
+        <h2 className="text-xl font-semibold">Attribute Analysis Results</h2>
+      </div>
+
+      {renderMetricCard()}
+      {renderControlChart()}
+      <SPCPatternDetection
+        violations={attributeData.ruleViolations}
+        ruleSet={attributeData.ruleSet}
+        chartType={chartType}
+      />
+    </motion.div>
+  );
+}
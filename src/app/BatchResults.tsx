@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { CapabilityRating, GaugeCapability, SelectionLabels } from "@/types";
+import { CAPABILITY_RATINGS, CapabilitySortKey, sortGaugeCapabilities } from "@/lib/spc/capabilitySummary";
+
+interface BatchResultsProps {
+  gauges: GaugeCapability[];
+  labels: SelectionLabels;
+  minimumCpk: number;
+  selectedGauge?: string; // Gauge open in the single-gauge view below
+  onSelectGauge: (gauge: GaugeCapability) => void;
+}
+
+const COLUMNS: Array<{ key: CapabilitySortKey; label: string; numeric?: boolean }> = [
+  { key: "gaugeName", label: "Gauge" },
+  { key: "readings", label: "n", numeric: true },
+  { key: "xBar", label: "Mean", numeric: true },
+  { key: "cp", label: "Cp", numeric: true },
+  { key: "cpk", label: "Cpk", numeric: true },
+  { key: "pp", label: "Pp", numeric: true },
+  { key: "ppk", label: "Ppk", numeric: true },
+  { key: "ppm", label: "PPM", numeric: true },
+  { key: "stability", label: "Stability" },
+];
+
+const RATING_CLASSES: Record<CapabilityRating, string> = {
+  green: "bg-green-100 text-green-800",
+  amber: "bg-amber-100 text-amber-800",
+  red: "bg-red-100 text-red-800",
+};
+
+export default function BatchResults({ gauges, labels, minimumCpk, selectedGauge, onSelectGauge }: BatchResultsProps) {
+  // Worst Cpk first, the characteristics a PPAP review starts with
+  const [sort, setSort] = useState<{ key: CapabilitySortKey; direction: "asc" | "desc" }>({
+    key: "cpk",
+    direction: "asc",
+  });
+
+  const handleSort = (key: CapabilitySortKey) => {
+    setSort({ key, direction: sort.key === key && sort.direction === "asc" ? "desc" : "asc" });
+  };
+
+  const fixed = (value?: number) => (value === undefined ? "-" : value.toFixed(2));
+  const ratingCount = (rating: CapabilityRating) => gauges.filter((gauge) => gauge.rating === rating).length;
+  const failedCount = gauges.filter((gauge) => gauge.error).length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+    >
+      <Card className="shadow-md">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-blue-600">Capability Summary</CardTitle>
+          <CardDescription>
+            {labels.material} / {labels.operation}: {gauges.length} gauges.{" "}
+            {(Object.keys(CAPABILITY_RATINGS) as CapabilityRating[])
+              .map((rating) => `${ratingCount(rating)} ${CAPABILITY_RATINGS[rating].label.toLowerCase()}`)
+              .join(", ")}
+            {failedCount > 0 && `, ${failedCount} not analysed`}. Click a gauge to open it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {COLUMNS.map(({ key, label, numeric }) => (
+                  <TableHead key={key} className={cn(numeric && "text-right")}>
+                    <button
+                      type="button"
+                      className={cn("inline-flex items-center gap-1", numeric && "flex-row-reverse")}
+                      onClick={() => handleSort(key)}
+                    >
+                      {label}
+                      {sort.key !== key ? (
+                        <ArrowUpDown className="h-3 w-3 text-gray-400" />
+                      ) : sort.direction === "asc" ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : (
+                        <ArrowDown className="h-3 w-3" />
+                      )}
+                    </button>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortGaugeCapabilities(gauges, sort.key, sort.direction).map((gauge) => (
+                <TableRow
+                  key={gauge.gaugeCode}
+                  className={cn(
+                    !gauge.error && "cursor-pointer",
+                    gauge.gaugeCode === selectedGauge && "bg-blue-50"
+                  )}
+                  onClick={gauge.error ? undefined : () => onSelectGauge(gauge)}
+                >
+                  <TableCell>
+                    <div className="font-medium">{gauge.gaugeName}</div>
+                    <div className="text-xs text-gray-500">{gauge.gaugeCode}</div>
+                  </TableCell>
+                  {gauge.error ? (
+                    <TableCell colSpan={COLUMNS.length - 1} className="text-gray-500">
+                      {gauge.error}
+                    </TableCell>
+                  ) : (
+                    <>
+                      <TableCell className="text-right">{gauge.readings}</TableCell>
+                      <TableCell className="text-right">{gauge.xBar}</TableCell>
+                      <TableCell className="text-right">{fixed(gauge.cp)}</TableCell>
+                      <TableCell className="text-right">
+                        <span
+                          className={cn("px-2 py-0.5 rounded font-bold", gauge.rating && RATING_CLASSES[gauge.rating])}
+                          title={gauge.rating && CAPABILITY_RATINGS[gauge.rating].label}
+                        >
+                          {fixed(gauge.cpk)}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{fixed(gauge.pp)}</TableCell>
+                      <TableCell className={cn("text-right", gauge.ppk !== undefined && gauge.ppk < 1 && "text-red-500")}>
+                        {fixed(gauge.ppk)}
+                      </TableCell>
+                      <TableCell className="text-right">{gauge.ppm}</TableCell>
+                      <TableCell className={gauge.stability === "Stable" ? "text-green-600" : "text-red-600"}>
+                        {gauge.stability}
+                      </TableCell>
+                    </>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+            {(Object.keys(CAPABILITY_RATINGS) as CapabilityRating[]).map((rating) => (
+              <span key={rating} className="inline-flex items-center gap-1">
+                <span className={cn("inline-block h-3 w-3 rounded", RATING_CLASSES[rating])} />
+                {CAPABILITY_RATINGS[rating].label}: {CAPABILITY_RATINGS[rating].description}
+                {rating !== "red" && ` (${minimumCpk})`}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CharacteristicConfig } from "@/types";
+import { validateCharacteristicConfig } from "@/lib/spc/characteristics";
+import { readStore, writeStore } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "characteristics";
+const EMPTY_CONFIG: CharacteristicConfig = { characteristics: [] };
+
+// Drawing nominals per material/operation/gauge
+export async function GET() {
+  try {
+    return NextResponse.json<CharacteristicConfig>(await readStore(STORE_NAME, EMPTY_CONFIG));
+  } catch (error) {
+    console.error("Error reading characteristics:", error);
+    return NextResponse.json({ error: "Failed to read characteristics" }, { status: 500 });
+  }
+}
+
+// Replace the characteristic master
+export async function PUT(request: NextRequest) {
+  let body: CharacteristicConfig;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const config: CharacteristicConfig = { characteristics: body?.characteristics };
+  const errors = validateCharacteristicConfig(config);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+
+  try {
+    await writeStore(STORE_NAME, config);
+    return NextResponse.json<CharacteristicConfig>(config);
+  } catch (error) {
+    console.error("Error saving characteristics:", error);
+    return NextResponse.json({ error: "Failed to save characteristics" }, { status: 500 });
+  }
+}
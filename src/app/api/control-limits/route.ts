@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FrozenLimitConfig } from "@/types";
+import { validateFrozenLimitConfig } from "@/lib/spc/controlLimits";
+import { readStore, writeStore } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "control-limits";
+const EMPTY_CONFIG: FrozenLimitConfig = { limitSets: [] };
+
+// Phase I control limits frozen per material/operation/gauge
+export async function GET() {
+  try {
+    return NextResponse.json<FrozenLimitConfig>(await readStore(STORE_NAME, EMPTY_CONFIG));
+  } catch (error) {
+    console.error("Error reading frozen limits:", error);
+    return NextResponse.json({ error: "Failed to read frozen limits" }, { status: 500 });
+  }
+}
+
+// Replace the frozen limit sets
+export async function PUT(request: NextRequest) {
+  let body: FrozenLimitConfig;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const config: FrozenLimitConfig = { limitSets: body?.limitSets };
+  const errors = validateFrozenLimitConfig(config);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+
+  try {
+    await writeStore(STORE_NAME, config);
+    return NextResponse.json<FrozenLimitConfig>(config);
+  } catch (error) {
+    console.error("Error saving frozen limits:", error);
+    return NextResponse.json({ error: "Failed to save frozen limits" }, { status: 500 });
+  }
+}
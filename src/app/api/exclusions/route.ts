@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ExclusionConfig, ExclusionSet } from "@/types";
+import { resolveExclusionSet, validateExclusionConfig } from "@/lib/spc/exclusions";
+import { readStore, writeStore } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "exclusions";
+const EMPTY_CONFIG: ExclusionConfig = { exclusionSets: [] };
+
+// Saves run one after another, so that one characteristic's update does not drop another's
+let saving: Promise<unknown> = Promise.resolve();
+
+// Excluded points saved per material/operation/gauge
+export async function GET() {
+  try {
+    return NextResponse.json<ExclusionConfig>(await readStore(STORE_NAME, EMPTY_CONFIG));
+  } catch (error) {
+    console.error("Error reading exclusions:", error);
+    return NextResponse.json({ error: "Failed to read exclusions" }, { status: 500 });
+  }
+}
+
+// Replace the exclusions of one characteristic, keeping the others as stored; an empty list removes its set
+export async function PATCH(request: NextRequest) {
+  let body: ExclusionSet;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const set: ExclusionSet = {
+    materialCode: body?.materialCode,
+    operationCode: body?.operationCode,
+    gaugeCode: body?.gaugeCode,
+    exclusions: body?.exclusions,
+  };
+  const errors = validateExclusionConfig({ exclusionSets: [set] });
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+
+  const save = saving.then(async () => {
+    const stored = await readStore(STORE_NAME, EMPTY_CONFIG);
+    const existing = resolveExclusionSet(stored, set.materialCode, set.operationCode, set.gaugeCode);
+    const config: ExclusionConfig = {
+      exclusionSets: [
+        ...stored.exclusionSets.filter((s) => s !== existing),
+        ...(set.exclusions.length > 0 ? [set] : []),
+      ],
+    };
+    await writeStore(STORE_NAME, config);
+    return config;
+  });
+  saving = save.catch(() => undefined);
+
+  try {
+    return NextResponse.json<ExclusionConfig>(await save);
+  } catch (error) {
+    console.error("Error saving exclusions:", error);
+    return NextResponse.json({ error: "Failed to save exclusions" }, { status: 500 });
+  }
+}
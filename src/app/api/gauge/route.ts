@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GuageData } from "@/types/spc";
+import {
+  ERP_ENDPOINTS, erpErrorResponse, fetchErpList, readErpQuery, requireErpQuery
+} from "@/lib/erp";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  try {
+    const query = await readErpQuery(request);
+    requireErpQuery(query, ["fromDate", "toDate", "materialCode", "operationCode"]);
+    const gauges = await fetchErpList<GuageData>(ERP_ENDPOINTS.gauges, query);
+    return NextResponse.json<GuageData[]>(gauges);
+  } catch (error) {
+    return erpErrorResponse(error);
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ReportRequest } from "@/types";
+import { buildSpcReport } from "@/lib/report/spcReport";
+
+export const dynamic = "force-dynamic";
+
+function isReportRequest(body: unknown): body is ReportRequest {
+  const request = body as ReportRequest | null;
+  return Boolean(
+    request?.analysisData?.metrics &&
+    request.analysisData.capability?.selected &&
+    request.analysisData.controlCharts &&
+    request.analysisData.distribution &&
+    request.analysisData.ssAnalysis &&
+    request.analysisData.processInterpretation &&
+    Array.isArray(request.analysisData.ruleViolations) &&
+    request.analysisData.ruleSet?.rules &&
+    request.parameters
+  );
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  if (!isReportRequest(body)) {
+    return NextResponse.json({ error: "analysisData and parameters are required" }, { status: 400 });
+  }
+
+  try {
+    const pdf = await buildSpcReport(body);
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": 'attachment; filename="spc-analysis-report.pdf"',
+      },
+    });
+  } catch (error) {
+    console.error("PDF generation error:", error);
+    return NextResponse.json({ error: "Failed to generate PDF report" }, { status: 500 });
+  }
+}
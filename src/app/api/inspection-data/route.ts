@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { InspectionData } from "@/types";
+import {
+  ERP_ENDPOINTS, erpErrorResponse, fetchErpList, readErpQuery, requireErpQuery
+} from "@/lib/erp";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  try {
+    const query = await readErpQuery(request);
+    requireErpQuery(query, ["fromDate", "toDate", "materialCode", "operationCode", "gaugeCode"]);
+    const inspectionData = await fetchErpList<InspectionData>(ERP_ENDPOINTS.inspectionData, query);
+    return NextResponse.json<InspectionData[]>(inspectionData);
+  } catch (error) {
+    return erpErrorResponse(error);
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MaterialData } from "@/types/spc";
+import {
+  ERP_ENDPOINTS, erpErrorResponse, fetchErpList, readErpQuery, requireErpQuery
+} from "@/lib/erp";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  try {
+    const query = await readErpQuery(request);
+    requireErpQuery(query, ["fromDate", "toDate"]);
+    const materials = await fetchErpList<MaterialData>(ERP_ENDPOINTS.materials, query);
+    return NextResponse.json<MaterialData[]>(materials);
+  } catch (error) {
+    return erpErrorResponse(error);
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OperationData } from "@/types/spc";
+import {
+  ERP_ENDPOINTS, erpErrorResponse, fetchErpList, readErpQuery, requireErpQuery
+} from "@/lib/erp";
+
+export const dynamic = "force-dynamic";
+
+async function handler(request: NextRequest) {
+  try {
+    const query = await readErpQuery(request);
+    requireErpQuery(query, ["fromDate", "toDate", "materialCode"]);
+    const operations = await fetchErpList<OperationData>(ERP_ENDPOINTS.operations, query);
+    return NextResponse.json<OperationData[]>(operations);
+  } catch (error) {
+    return erpErrorResponse(error);
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { RuleSetConfig } from "@/types";
+import { allRuleSets, validateRuleSetConfig } from "@/lib/spc/ruleSets";
+import { readStore, writeStore } from "@/lib/store";
+
+export const dynamic = "force-dynamic";
+
+const STORE_NAME = "rule-sets";
+const EMPTY_CONFIG: RuleSetConfig = { profiles: [], assignments: [] };
+
+// Built-in profiles followed by the custom ones, with the material/operation assignments
+export async function GET() {
+  try {
+    const config = await readStore<RuleSetConfig>(STORE_NAME, EMPTY_CONFIG);
+    return NextResponse.json<RuleSetConfig>({ ...config, profiles: allRuleSets(config) });
+  } catch (error) {
+    console.error("Error reading rule sets:", error);
+    return NextResponse.json({ error: "Failed to read rule sets" }, { status: 500 });
+  }
+}
+
+// Replace the custom profiles and assignments; built-in profiles in the body are ignored
+export async function PUT(request: NextRequest) {
+  let body: RuleSetConfig;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const config: RuleSetConfig = {
+    profiles: Array.isArray(body?.profiles) ? body.profiles.filter((p) => !p.builtIn) : body?.profiles,
+    assignments: body?.assignments,
+  };
+  const errors = validateRuleSetConfig(config);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors.join("; ") }, { status: 400 });
+  }
+
+  try {
+    await writeStore(STORE_NAME, config);
+    return NextResponse.json<RuleSetConfig>({ ...config, profiles: allRuleSets(config) });
+  } catch (error) {
+    console.error("Error saving rule sets:", error);
+    return NextResponse.json({ error: "Failed to save rule sets" }, { status: 500 });
+  }
+}
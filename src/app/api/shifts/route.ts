@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { ShiftData } from "@/types/spc";
+import { ERP_ENDPOINTS, erpErrorResponse, fetchErpList } from "@/lib/erp";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const shifts = await fetchErpList<ShiftData>(ERP_ENDPOINTS.shifts);
+    return NextResponse.json<ShiftData[]>(shifts);
+  } catch (error) {
+    return erpErrorResponse(error);
+  }
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Characteristic, CharacteristicConfig } from "@/types";
+import { fetchCharacteristicConfig, saveCharacteristicConfig } from "@/lib/api";
+
+// Nominals are edited as text so that partly typed values such as "-" or "10." survive
+type CharacteristicRow = Omit<Characteristic, "nominal"> & { nominal: string };
+
+const toRows = (config: CharacteristicConfig): CharacteristicRow[] =>
+  config.characteristics.map((c) => ({ ...c, nominal: String(c.nominal) }));
+
+export default function CharacteristicsPage() {
+  const [rows, setRows] = useState<CharacteristicRow[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCharacteristicConfig()
+      .then((config) => setRows(toRows(config)))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load characteristics"));
+  }, []);
+
+  if (!rows) {
+    return (
+      <div className="container max-w-screen-xl mx-auto p-4">
+        {error ? (
+          <div className="bg-red-50 text-red-700 p-3 rounded-md text-sm">{error}</div>
+        ) : (
+          <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+        )}
+      </div>
+    );
+  }
+
+  const updateRow = (index: number, changes: Partial<CharacteristicRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const saved = await saveCharacteristicConfig({
+        characteristics: rows.map((row) => ({ ...row, nominal: parseFloat(row.nominal) })),
+      });
+      setRows(toRows(saved));
+      setMessage("Characteristics saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save characteristics");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container max-w-screen-xl mx-auto p-4 space-y-8">
+      <div className="bg-white shadow-sm rounded-lg p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Characteristic Master</h1>
+            <p className="text-gray-600">
+              Drawing nominals used as the target for Cpm, Cpkm and centering
+            </p>
+          </div>
+          <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+
+        {error && <div className="bg-red-50 text-red-700 p-3 rounded-md text-sm">{error}</div>}
+        {message && <div className="bg-green-50 text-green-700 p-3 rounded-md text-sm">{message}</div>}
+
+        <Card className="shadow-md">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg text-blue-600">Nominals</CardTitle>
+            <CardDescription>
+              A nominal here overrides the one sent with the inspection data. Characteristics without a nominal
+              are judged against the middle of the tolerance.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material Code</TableHead>
+                  <TableHead>Operation Code</TableHead>
+                  <TableHead>Gauge Code</TableHead>
+                  <TableHead className="w-40">Nominal</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        className="h-8 text-sm"
+                        value={row.materialCode}
+                        onChange={(e) => updateRow(index, { materialCode: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 text-sm"
+                        value={row.operationCode}
+                        onChange={(e) => updateRow(index, { operationCode: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 text-sm"
+                        value={row.gaugeCode}
+                        onChange={(e) => updateRow(index, { gaugeCode: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="any"
+                        className="h-8 text-sm"
+                        value={row.nominal}
+                        onChange={(e) => updateRow(index, { nominal: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button
+              variant="outline"
+              onClick={() =>
+                setRows([...rows, { materialCode: "", operationCode: "", gaugeCode: "", nominal: "" }])
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Characteristic
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -20,95 +20,20 @@ import {
 } from "lucide-react";
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
-  ReferenceLine, ResponsiveContainer, BarChart, Bar
+  ResponsiveContainer
 } from "recharts";
 import Link from "next/link";
 
-const BASE_URL = "http://10.10.1.7:8304";
-
-// Data interfaces
-interface ProcessMetrics {
-  xBar: number;
-  stdDevOverall: number;
-  stdDevWithin: number;
-  movingRange: number;
-  cp: number;
-  cpkUpper: number;
-  cpkLower: number;
-  cpk: number;
-  pp: number;
-  ppu: number;
-  ppl: number;
-  ppk: number;
-  lsl: number;
-  usl: number;
-}
-
-interface ChartLimits {
-  xBarUcl: number;
-  xBarLcl: number;
-  xBarMean: number;
-  rangeUcl: number;
-  rangeLcl: number;
-  rangeMean: number;
-}
-
-interface ControlChartData {
-  xBarData: Array<{x: number; y: number}>;
-  rangeData: Array<{x: number; y: number}>;
-  limits: ChartLimits;
-}
-
-interface DistributionData {
-  data: Array<{x: number; y: number}>;
-  stats: {
-    mean: number;
-    stdDev: number;
-    target: number;
-  };
-  numberOfBins: number;
-}
-
-interface SSAnalysis {
-  processShift: string;
-  processSpread: string;
-  specialCause: string;
-}
-
-interface ProcessInterpretation {
-  shortTermCapability: string;
-  shortTermCentered: string;
-  longTermPerformance: string;
-  longTermCentered: string;
-}
-
-interface AnalysisData {
-  metrics: ProcessMetrics;
-  controlCharts: ControlChartData;
-  distribution: DistributionData;
-  ssAnalysis: SSAnalysis;
-  processInterpretation: ProcessInterpretation;
-}
-
-interface ShiftData {
-  ShiftId: number;
-  ShiftName: string;
-}
-
-interface MaterialData {
-  MaterialCode: string;
-  MaterialName: string;
-}
-
-interface OperationData {
-  OperationCode: string;
-  OperationName: string;
-}
-
-interface GuageData {
-  GuageCode: string;
-  GuageName: string;
-}
+import { AnalysisData, Metrics, ControlCharts, InspectionData, RuleViolation, CapabilityIndex } from "@/types";
+import { ShiftData, MaterialData, OperationData, GuageData } from "@/types/spc";
+import { calculateAnalysisData } from "@/lib/spc/engine";
+import { flaggedIndices } from "@/lib/spc/rules";
+import { CONTROL_CHART_STROKES, Histogram, limitLines, violationDot } from "@/components/spc/ChartComponent";
+import { CHART_TYPES, controlChartPanels } from "@/lib/spc/charts";
+import { limitSourceLabel } from "@/lib/spc/controlLimits";
+import { SPCPatternDetection } from "@/components/spc/SPCPattern";
+import { IndexInterval, PpmSummary, SpecChangeNotice } from "@/components/spc/MetricCards";
+import { fetchApiList, fetchAssignedRuleSet, fetchNominal, downloadReport } from "@/lib/api";
 
 export default function SPCAnalysisPage() {
   // State management
@@ -130,28 +55,30 @@ export default function SPCAnalysisPage() {
   const [gauges, setGauges] = useState<GuageData[]>([]);
 
   // Data loading
+  const loadError = (err: unknown) => setError(err instanceof Error ? err.message : "Unknown error");
+
   useEffect(() => {
-    fetchData<ShiftData[]>("/api/shifts", (data) => setShifts(data));
+    fetchApiList<ShiftData>("/api/shifts").then(setShifts).catch(loadError);
   }, []);
 
   useEffect(() => {
     if (startDate && endDate && selectedShifts.length > 0) {
-      fetchDataWithParams<MaterialData[]>("/api/materials", {
-        fromDate: format(startDate, "dd/MM/yyyy"),
-        toDate: format(endDate, "dd/MM/yyyy"),
+      fetchApiList<MaterialData>("/api/materials", {
+        startDate,
+        endDate,
         shiftIds: selectedShifts,
-      }, (data) => setMaterials(data));
+      }).then(setMaterials).catch(loadError);
     }
   }, [startDate, endDate, selectedShifts]);
 
   useEffect(() => {
     if (material && selectedShifts.length > 0) {
-      fetchDataWithParams<OperationData[]>("/api/operations", {
-        fromDate: format(startDate, "dd/MM/yyyy"),
-        toDate: format(endDate, "dd/MM/yyyy"),
+      fetchApiList<OperationData>("/api/operations", {
+        startDate,
+        endDate,
         materialCode: material,
         shiftIds: selectedShifts,
-      }, (data) => setOperations(data));
+      }).then(setOperations).catch(loadError);
       setOperation("");
     } else {
       setOperations([]);
@@ -161,8 +88,12 @@ export default function SPCAnalysisPage() {
 
   useEffect(() => {
     if (operation && selectedShifts.length > 0) {
-      const url = `/api/gauge?fromDate=${format(startDate, "dd/MM/yyyy")}&toDate=${format(endDate, "dd/MM/yyyy")}&materialCode=${material}&operationCode=${operation}`;
-      fetchData<GuageData[]>(url, (data) => setGauges(data));
+      fetchApiList<GuageData>("/api/gauge", {
+        startDate,
+        endDate,
+        materialCode: material,
+        operationCode: operation,
+      }).then(setGauges).catch(loadError);
       setGauge("");
     } else {
       setGauges([]);
@@ -170,31 +101,6 @@ export default function SPCAnalysisPage() {
     }
   }, [operation, material, startDate, endDate, selectedShifts]);
 
-  // Helper functions
-  const fetchData = async <T,>(url: string, setterFn: (data: T) => void) => {
-    try {
-      const response = await fetch(url);
-      const data = await response.json();
-      setterFn((data.data || data || []) as T);
-    } catch {
-      setError(`Failed to load data from ${url}`);
-    }
-  };
-
-  const fetchDataWithParams = async <T,>(url: string, params: object, setterFn: (data: T) => void) => {
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(params),
-      });
-      const data = await response.json();
-      setterFn((data || []) as T);
-    } catch {
-      setError(`Failed to load data from ${url}`);
-    }
-  };
-
   const handleShiftToggle = (shiftId: number) => {
     setSelectedShifts(prev => 
       prev.includes(shiftId) 
@@ -203,30 +109,6 @@ export default function SPCAnalysisPage() {
     );
   };
 
-  const calculateDistributionData = (specifications: number[]) => {
-    const numberOfBins = Math.ceil(Math.sqrt(specifications.length));
-    const min = Math.min(...specifications);
-    const max = Math.max(...specifications);
-    const binWidth = (max - min) / numberOfBins;
-    
-    const binCounts = new Array(numberOfBins).fill(0);
-    specifications.forEach(spec => {
-      const binIndex = Math.min(
-        Math.floor((spec - min) / binWidth),
-        numberOfBins - 1
-      );
-      binCounts[binIndex]++;
-    });
-
-    return {
-      data: binCounts.map((count, i) => ({
-        x: min + (i * binWidth) + (binWidth / 2),
-        y: count
-      })),
-      numberOfBins
-    };
-  };
-
   // Action handlers
   const handleAnalyze = async () => {
     if (!selectedShifts.length || !material || !operation || !gauge) {
@@ -239,13 +121,20 @@ export default function SPCAnalysisPage() {
     setAnalysisData(null);
 
     try {
-      const response = await fetch(
-        `${BASE_URL}/api/productionappservices/getspcpirinspectiondatalist?FromDate=${format(startDate, "dd/MM/yyyy")}&ToDate=${format(endDate, "dd/MM/yyyy")}&MaterialCode=${material}&OperationCode=${operation}&GuageCode=${gauge}`
-      );
-      const inspectionData = await response.json();
+      const [inspectionData, ruleSet, nominal] = await Promise.all([
+        fetchApiList<InspectionData>("/api/inspection-data", {
+          startDate,
+          endDate,
+          materialCode: material,
+          operationCode: operation,
+          gaugeCode: gauge,
+        }),
+        fetchAssignedRuleSet(material, operation),
+        fetchNominal(material, operation, gauge),
+      ]);
 
-      const filteredData = inspectionData.filter((data: { ShiftCode: number; }) => 
-        selectedShifts.includes(data.ShiftCode)
+      const filteredData = inspectionData.filter((data) =>
+        selectedShifts.includes(Number(data.ShiftCode))
       );
 
       if (filteredData.length === 0) {
@@ -254,97 +143,12 @@ export default function SPCAnalysisPage() {
         return;
       }
 
-      // Extract and calculate metrics
-      const specifications = filteredData.map((d: { ActualSpecification: string; }) => parseFloat(d.ActualSpecification));
-      const mean = specifications.reduce((a: number, b: number) => a + b, 0) / specifications.length;
-      const stdDev = Math.sqrt(
-        specifications.reduce((a: number, b: number) => a + Math.pow(b - mean, 2), 0) / (specifications.length - 1)
-      );
-
-      // Prepare chart data
-      const xBarData = specifications.map((spec: number, i: number) => ({ x: i + 1, y: spec }));
-      const rangeData = specifications.slice(1).map((spec: number, i: number) => ({
-        x: i + 1,
-        y: Math.abs(spec - specifications[i])
-      }));
-
-      // Calculate control limits
-      const rangeMean = rangeData.reduce((a: number, b: {x: number; y: number}) => a + b.y, 0) / rangeData.length;
-      const xBarUcl = mean + (2.66 * rangeMean);
-      const xBarLcl = mean - (2.66 * rangeMean);
-      const rangeUcl = 3.267 * rangeMean;
-      const rangeLcl = 0;
-
-      // Calculate process capability indices
-      const usl = parseFloat(filteredData[0].ToSpecification);
-      const lsl = parseFloat(filteredData[0].FromSpecification);
-      const cp = (usl - lsl) / (6 * stdDev);
-      const cpu = (usl - mean) / (3 * stdDev);
-      const cpl = (mean - lsl) / (3 * stdDev);
-      const cpk = Math.min(cpu, cpl);
-
-      // Prepare distribution data
-      const distributionData = calculateDistributionData(specifications);
-      // Special cause analysis (simplified)
-      const hasSpecialCause = xBarData.some((point: { x: number; y: number }) => 
-        point.y > xBarUcl || point.y < xBarLcl
-      );
-
-      // Format the analysis data
-      const analysis: AnalysisData = {
-        metrics: {
-          xBar: Number(mean.toFixed(4)),
-          stdDevOverall: Number(stdDev.toFixed(4)),
-          stdDevWithin: Number(stdDev.toFixed(4)),
-          movingRange: Number(rangeMean.toFixed(4)),
-          cp: Number(cp.toFixed(2)),
-          cpkUpper: Number(cpu.toFixed(2)),
-          cpkLower: Number(cpl.toFixed(2)),
-          cpk: Number(cpk.toFixed(2)),
-          pp: Number(cp.toFixed(2)),
-          ppu: Number(cpu.toFixed(2)),
-          ppl: Number(cpl.toFixed(2)),
-          ppk: Number(cpk.toFixed(2)),
-          lsl: Number(lsl.toFixed(4)),
-          usl: Number(usl.toFixed(4))
-        },
-        controlCharts: {
-          xBarData,
-          rangeData,
-          limits: {
-            xBarUcl: Number(xBarUcl.toFixed(4)),
-            xBarLcl: Number(xBarLcl.toFixed(4)),
-            xBarMean: Number(mean.toFixed(4)),
-            rangeUcl: Number(rangeUcl.toFixed(4)),
-            rangeLcl: Number(rangeLcl.toFixed(4)),
-            rangeMean: Number(rangeMean.toFixed(4))
-          }
-        },
-        distribution: {
-          data: distributionData.data,
-          stats: {
-            mean: Number(mean.toFixed(4)),
-            stdDev: Number(stdDev.toFixed(4)),
-            target: Number(((usl + lsl) / 2).toFixed(4))
-          },
-          numberOfBins: distributionData.numberOfBins
-        },
-        ssAnalysis: {
-          processShift: hasSpecialCause ? "Yes" : "No",
-          processSpread: rangeData.some((point: { x: number; y: number }) => point.y > rangeUcl) ? "Yes" : "No",
-          specialCause: hasSpecialCause ? "Special Cause Detected" : "No Special Cause"
-        },
-        processInterpretation: {
-          shortTermCapability: cp >= 1.33 ? "Process is highly capable" : cp >= 1.0 ? "Process is capable" : "Process is not capable",
-          shortTermCentered: Math.abs(cpu - cpl) < 0.2 ? "Process is well centered" : "Process is not well centered",
-          longTermPerformance: cpk >= 1.33 ? "Process performance is excellent" : cpk >= 1.0 ? "Process performance is acceptable" : "Process performance needs improvement",
-          longTermCentered: Math.abs(mean - ((usl + lsl) / 2)) < (0.1 * (usl - lsl)) ? "Process is centered long-term" : "Process is not centered long-term"
-        }
-      };
+      // Dashboard charts individual readings
+      const analysis = calculateAnalysisData(filteredData, { chartType: "i-mr", ruleSet, target: nominal });
 
       setAnalysisData(analysis);
-    } catch {
-      setError("Error analyzing data");
+    } catch (err) {
+      setError(err instanceof Error ? `Error analyzing data: ${err.message}` : "Error analyzing data");
     } finally {
       setLoading(false);
     }
@@ -359,33 +163,19 @@ export default function SPCAnalysisPage() {
     setDownloading(true);
 
     try {
-      const pdfResponse = await fetch("/api/generate-pdf", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          analysisData,
-          parameters: {
-            startDate: format(startDate, "PPP"),
-            endDate: format(endDate, "PPP"),
-            material: materials.find(m => m.MaterialCode === material)?.MaterialName || material,
-            operation: operations.find(o => o.OperationCode === operation)?.OperationName || operation,
-            gauge: gauges.find(g => g.GuageCode === gauge)?.GuageName || gauge,
-          }
-        }),
+      await downloadReport({
+        analysisData,
+        parameters: {
+          startDate: format(startDate, "PPP"),
+          endDate: format(endDate, "PPP"),
+          material: materials.find(m => m.MaterialCode === material)?.MaterialName || material,
+          operation: operations.find(o => o.OperationCode === operation)?.OperationName || operation,
+          gauge: gauges.find(g => g.GuageCode === gauge)?.GuageName || gauge,
+          shifts: shifts.filter(s => selectedShifts.includes(s.ShiftId)).map(s => s.ShiftName),
+        }
       });
-
-      const blob = await pdfResponse.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `spc-analysis-${format(new Date(), "yyyy-MM-dd")}.pdf`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-    } catch {
-      setError("Error generating PDF report");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error generating PDF report");
     } finally {
       setDownloading(false);
     }
@@ -425,7 +215,7 @@ export default function SPCAnalysisPage() {
     </div>
   );
 
-  const renderMetricCard = (metrics: ProcessMetrics) => (
+  const renderMetricCard = (metrics: Metrics) => (
     <motion.div {...fadeIn}>
       <Card className="mt-4">
         <CardHeader className="pb-2">
@@ -434,81 +224,64 @@ export default function SPCAnalysisPage() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            {[
+            {([
               { label: "X-Bar", value: metrics.xBar },
               { label: "Std Dev", value: metrics.stdDevOverall },
-              { label: "Cp", value: metrics.cp },
-              { label: "Cpk", value: metrics.cpk },
-              { label: "Pp", value: metrics.pp },
-              { label: "Ppk", value: metrics.ppk },
+              { label: "Cp", value: metrics.cp, index: "cp" },
+              { label: "Cpk", value: metrics.cpk, index: "cpk" },
+              { label: "Pp", value: metrics.pp, index: "pp" },
+              { label: "Ppk", value: metrics.ppk, index: "ppk" },
+              { label: "Cpm", value: metrics.cpm },
+              { label: "Cpkm", value: metrics.cpkm },
               { label: "LSL", value: metrics.lsl },
-              { label: "USL", value: metrics.usl }
-            ].map((item, i) => (
-              <motion.div 
-                key={item.label}
-                className="p-3 bg-slate-50 rounded-lg"
-                initial={{ opacity: 0, scale: 0.9 }}
-                animate={{ opacity: 1, scale: 1 }}
-                transition={{ duration: 0.2, delay: i * 0.05 }}
-              >
-                <div className="text-xs font-medium text-slate-500">{item.label}</div>
-                <div className="text-lg font-bold">{item.value}</div>
-              </motion.div>
-            ))}
+              { label: "USL", value: metrics.usl },
+              { label: "Target", value: metrics.target }
+            ] as { label: string; value?: number; index?: CapabilityIndex }[])
+              // One-sided specifications have no Cp, Pp or Cpm and only one limit
+              .filter((item) => item.value !== undefined)
+              .map((item, i) => (
+                <motion.div 
+                  key={item.label}
+                  className="p-3 bg-slate-50 rounded-lg"
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.2, delay: i * 0.05 }}
+                >
+                  <div className="text-xs font-medium text-slate-500">{item.label}</div>
+                  <div className="text-lg font-bold">{item.value}</div>
+                  {item.index && <IndexInterval metrics={metrics} index={item.index} />}
+                </motion.div>
+              ))}
           </div>
+          <PpmSummary metrics={metrics} className="mt-4" />
         </CardContent>
       </Card>
     </motion.div>
   );
 
-  const renderControlCharts = (chartData: ControlChartData) => (
+  const renderControlCharts = (chartData: ControlCharts, violations: RuleViolation[]) => (
     <motion.div {...fadeIn}>
       <Card className="mt-4">
         <CardHeader className="pb-2">
           <CardTitle className="text-lg text-blue-600">Control Charts</CardTitle>
-          <CardDescription>X-Bar and Range Charts</CardDescription>
+          <CardDescription>
+            {CHART_TYPES[chartData.chartType].label} Charts - {limitSourceLabel(chartData.limitSource)}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
-            {[
-              {
-                title: "X-Bar Chart",
-                data: chartData.xBarData,
-                limits: {
-                  ucl: chartData.limits.xBarUcl,
-                  mean: chartData.limits.xBarMean,
-                  lcl: chartData.limits.xBarLcl
-                },
-                dataKey: "Value",
-                stroke: "#8884d8",
-                yLabel: "Value"
-              },
-              {
-                title: "Range Chart",
-                data: chartData.rangeData,
-                limits: {
-                  ucl: chartData.limits.rangeUcl,
-                  mean: chartData.limits.rangeMean,
-                  lcl: chartData.limits.rangeLcl
-                },
-                dataKey: "Range",
-                stroke: "#82ca9d",
-                yLabel: "Range"
-              }
-            ].map((chart, i) => (
+            {controlChartPanels(chartData).map((chart, i) => (
               <div key={i} className="h-56">
                 <h3 className="text-sm font-medium mb-1">{chart.title}</h3>
                 <ResponsiveContainer width="100%" height="100%">
                   <LineChart data={chart.data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="x" label={{ value: 'Sample', position: 'insideBottomRight', offset: -5 }} />
+                    <XAxis dataKey="x" type="number" domain={chart.xDomain} allowDecimals={false} label={{ value: 'Sample', position: 'insideBottomRight', offset: -5 }} />
                     <YAxis label={{ value: chart.yLabel, angle: -90, position: 'insideLeft' }} />
                     <Tooltip />
                     <Legend />
-                    <ReferenceLine y={chart.limits.ucl} stroke="red" strokeDasharray="3 3" label="UCL" />
-                    <ReferenceLine y={chart.limits.mean} stroke="blue" label={i === 0 ? "X-Bar" : "R-Bar"} />
-                    <ReferenceLine y={chart.limits.lcl} stroke="red" strokeDasharray="3 3" label="LCL" />
-                    <Line type="monotone" dataKey="y" name={chart.dataKey} stroke={chart.stroke} dot={{ r: 2 }} />
+                    {limitLines(chart)}
+                    <Line type="monotone" dataKey="y" name={chart.yLabel} stroke={CONTROL_CHART_STROKES[chart.kind]} dot={violationDot(flaggedIndices(violations, chart.kind), CONTROL_CHART_STROKES[chart.kind], { excluded: chart.excluded })} />
                   </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -519,38 +292,6 @@ export default function SPCAnalysisPage() {
     </motion.div>
   );
 
-  const renderHistogram = ({ data, stats, lsl, usl }: {
-    data: Array<{x: number; y: number}>;
-    stats: {mean: number; stdDev: number; target: number};
-    lsl: number;
-    usl: number;
-  }) => (
-    <motion.div {...fadeIn}>
-      <Card className="mt-4">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-lg text-blue-600">Histogram</CardTitle>
-          <CardDescription>Distribution of measurements</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-56">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="x" label={{ value: 'Value', position: 'insideBottomRight', offset: -5 }} />
-                <YAxis label={{ value: 'Frequency', angle: -90, position: 'insideLeft' }} />
-                <Tooltip />
-                <ReferenceLine x={lsl} stroke="red" label="LSL" />
-                <ReferenceLine x={usl} stroke="red" label="USL" />
-                <ReferenceLine x={stats.target} stroke="green" label="Target" />
-                <Bar dataKey="y" fill="#8884d8" />
-              </BarChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
-    </motion.div>
-  );
-
   const renderAnalysisCards = (analysisData: AnalysisData) => (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
       <motion.div {...fadeIn}>
@@ -804,14 +545,19 @@ export default function SPCAnalysisPage() {
             transition={{ duration: 0.4 }}
             className="space-y-4"
           >
+            {analysisData.specChange && <SpecChangeNotice specChange={analysisData.specChange} />}
             {renderMetricCard(analysisData.metrics)}
-            {renderControlCharts(analysisData.controlCharts)}
-            {renderHistogram({
-              data: analysisData.distribution.data,
-              stats: analysisData.distribution.stats,
-              lsl: analysisData.metrics.lsl,
-              usl: analysisData.metrics.usl,
-            })}
+            {renderControlCharts(analysisData.controlCharts, analysisData.ruleViolations)}
+            <SPCPatternDetection
+              violations={analysisData.ruleViolations}
+              ruleSet={analysisData.ruleSet}
+              chartType={analysisData.controlCharts.chartType}
+            />
+            <Histogram
+              distribution={analysisData.distribution}
+              lsl={analysisData.metrics.lsl}
+              usl={analysisData.metrics.usl}
+            />
             {renderAnalysisCards(analysisData)}
           </motion.div>
         )}
@@ -1,14 +1,78 @@
 "use client";
 
-import { useRef, useState } from "react";
+import { useState } from "react";
 import { addDays, format } from "date-fns";
 import AnalysisForm from "./AnalysisForm";
-import { useReactToPrint } from 'react-to-print';
 import AnalysisResults from "./AnalysisResults";
-import { calculateAnalysisData } from "./spcUtils";
-import { FormState, InspectionData, AnalysisData } from "@/types";
+import AttributeResults from "./AttributeResults";
+import BatchResults from "./BatchResults";
+import { AnalysisOptions, calculateAnalysisData, parseInspectionData } from "@/lib/spc/engine";
+import { calculateAttributeAnalysis } from "@/lib/spc/attributes";
+import { parseBreakpoints } from "@/lib/spc/stages";
+import { DEFAULT_SUBGROUP_WINDOW_MINUTES } from "@/lib/spc/subgroups";
+import { DEFAULT_EWMA } from "@/lib/spc/ewma";
+import { DEFAULT_CUSUM } from "@/lib/spc/cusum";
+import { summarizeGaugeCapability } from "@/lib/spc/capabilitySummary";
+import { resolveCharacteristic } from "@/lib/spc/characteristics";
+import { resolveFrozenLimits } from "@/lib/spc/controlLimits";
+import { mergeSavedExclusions, readingKeys, resolveExclusionSet } from "@/lib/spc/exclusions";
+import { gaugeChartFamily } from "@/lib/gauges";
+import {
+  fetchApiList, fetchAssignedRuleSet, fetchNominal, fetchFrozenLimits, freezeLimits, downloadReport,
+  fetchCharacteristicConfig, fetchFrozenLimitConfig, mapWithLimit, BATCH_REQUEST_LIMIT, fetchSavedExclusions,
+  saveExclusions, fetchExclusionConfig
+} from "@/lib/api";
+import {
+  FormState, InspectionData, AnalysisData, AttributeAnalysisData, ReportParameters, SelectionLabels, FrozenLimitSet,
+  PointExclusion, RuleSetProfile, Gauge, GaugeCapability
+} from "@/types";
 
-const BASE_URL = "http://10.10.1.7:8304";
+// Characteristic and period of the last analysis, kept as the baseline should its limits be frozen
+type Baseline = Pick<FrozenLimitSet, "materialCode" | "operationCode" | "gaugeCode" | "baselineStart" | "baselineEnd">;
+
+/**
+ * Engine options from the form, shared by the single-gauge analysis and the batch summary
+ * @param formData - Submitted form
+ * @param ruleSet - Run rule profile assigned to the material/operation
+ * @param nominal - Drawing nominal from the characteristic master
+ * @param frozenLimits - Phase II limits of the gauge
+ */
+function analysisOptions(
+  formData: FormState,
+  ruleSet: RuleSetProfile,
+  nominal: number | undefined,
+  frozenLimits: FrozenLimitSet | undefined
+): AnalysisOptions {
+  return {
+    sampleSize: parseInt(formData.sampleSize),
+    chartType: formData.chartType,
+    movingRangeSpan: parseInt(formData.movingRangeSpan),
+    ruleSet,
+    binningRule: formData.binningRule,
+    binWidth: parseFloat(formData.binWidth),
+    confidenceLevel: parseFloat(formData.confidenceLevel),
+    minimumCpk: parseFloat(formData.minimumCpk),
+    target: nominal,
+    specChangeHandling: formData.specChangeHandling,
+    frozenLimits,
+    staging: {
+      by: formData.stageBy,
+      period: formData.stagePeriod,
+      breakpoints: parseBreakpoints(formData.stageBreakpoints),
+    },
+    subgrouping: {
+      by: formData.subgroupBy,
+      windowMinutes: parseFloat(formData.subgroupWindow),
+      incomplete: formData.incompleteSubgroups,
+    },
+    ewma: formData.ewmaEnabled
+      ? { lambda: parseFloat(formData.ewmaLambda), width: parseFloat(formData.ewmaWidth) }
+      : undefined,
+    cusum: formData.cusumEnabled
+      ? { k: parseFloat(formData.cusumK), h: parseFloat(formData.cusumH) }
+      : undefined,
+  };
+}
 
 export default function SPCAnalysisPage() {
   // State management
@@ -16,8 +80,16 @@ export default function SPCAnalysisPage() {
   const [downloading, setDownloading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [analysisData, setAnalysisData] = useState<AnalysisData | null>(null);
+  const [attributeData, setAttributeData] = useState<AttributeAnalysisData | null>(null);
+  const [reportParameters, setReportParameters] = useState<ReportParameters | null>(null);
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  const [freezing, setFreezing] = useState<boolean>(false);
+  const [limitsFrozen, setLimitsFrozen] = useState<boolean>(false);
+  // Inputs of the last analysis, rerun when points are excluded or restored
+  const [lastRun, setLastRun] = useState<{ inspectionData: InspectionData[]; options: AnalysisOptions } | null>(null);
+  // Capability of every gauge of the material/operation, with the form it ran on for drilling down
+  const [batch, setBatch] = useState<{ formData: FormState; labels: SelectionLabels; gauges: GaugeCapability[] } | null>(null);
 
-  const componentRef = useRef<HTMLDivElement>(null);
   // Form state
   const [formState, setFormState] = useState<FormState>({
     selectedShifts: [],
@@ -25,53 +97,104 @@ export default function SPCAnalysisPage() {
     operation: "",
     gauge: "",
     sampleSize: "1",
+    chartType: "i-mr",
+    movingRangeSpan: "2",
+    chartFamily: "variables",
+    attributeChartType: "p",
+    attributeGrouping: "subgroup",
+    attributeSampleSize: "50",
+    binningRule: "square-root",
+    binWidth: "",
+    confidenceLevel: "0.95",
+    minimumCpk: "1.33",
+    specChangeHandling: "segments",
+    limitPhase: "phase-1",
+    stageBy: "none",
+    stagePeriod: "week",
+    stageBreakpoints: "",
+    subgroupBy: "position",
+    subgroupWindow: String(DEFAULT_SUBGROUP_WINDOW_MINUTES),
+    incompleteSubgroups: "keep",
+    ewmaEnabled: false,
+    ewmaLambda: String(DEFAULT_EWMA.lambda),
+    ewmaWidth: String(DEFAULT_EWMA.width),
+    cusumEnabled: false,
+    cusumK: String(DEFAULT_CUSUM.k),
+    cusumH: String(DEFAULT_CUSUM.h),
     startDate: new Date(),
     endDate: addDays(new Date(), 7),
   });
 
   // Handle analysis action
-  const handleAnalyze = async (formData: FormState) => {
+  const handleAnalyze = async (formData: FormState, labels: SelectionLabels) => {
     setLoading(true);
     setError(null);
     setAnalysisData(null);
+    setAttributeData(null);
+    setReportParameters(null);
+    setBaseline(null);
+    setLimitsFrozen(false);
+    setLastRun(null);
 
     try {
-      // Fetch inspection data from API
-      const params = new URLSearchParams({
-        FromDate: format(formData.startDate, "dd/MM/yyyy"),
-        ToDate: format(formData.endDate, "dd/MM/yyyy"),
-        MaterialCode: formData.material,
-        OperationCode: formData.operation,
-        GuageCode: formData.gauge,
-        ShiftId: formData.selectedShifts.join(",")
-      });
-
-      const response = await fetch(
-        `${BASE_URL}/api/productionappservices/getspcpirinspectiondatalist?${params}`
-      );
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch inspection data: ${response.statusText}`);
-      }
-
-      const inspectionData: InspectionData[] = await response.json();
+      const [inspectionData, ruleSet, nominal, frozenLimits, savedExclusions] = await Promise.all([
+        fetchApiList<InspectionData>("/api/inspection-data", {
+          startDate: formData.startDate,
+          endDate: formData.endDate,
+          materialCode: formData.material,
+          operationCode: formData.operation,
+          gaugeCode: formData.gauge,
+          shiftIds: formData.selectedShifts,
+        }),
+        fetchAssignedRuleSet(formData.material, formData.operation),
+        fetchNominal(formData.material, formData.operation, formData.gauge),
+        formData.limitPhase === "phase-2"
+          ? fetchFrozenLimits(formData.material, formData.operation, formData.gauge)
+          : Promise.resolve(undefined),
+        fetchSavedExclusions(formData.material, formData.operation, formData.gauge),
+      ]);
 
       if (!inspectionData || inspectionData.length === 0) {
         throw new Error("No data found for the selected criteria");
       }
 
+      // Go/no-go results are charted as attributes and have no capability or PDF report
+      if (formData.chartFamily === "attribute") {
+        setAttributeData(calculateAttributeAnalysis(inspectionData, {
+          chartType: formData.attributeChartType,
+          grouping: formData.attributeGrouping,
+          sampleSize: parseInt(formData.attributeSampleSize),
+          ruleSet,
+        }));
+        return;
+      }
+
       if (inspectionData.length < parseInt(formData.sampleSize)) {
         throw new Error(
           `Insufficient data: ${inspectionData.length} measurements found, but ${formData.sampleSize} required`
         );
       }
 
-      // Process the data using our utility function
-      const analysisResults = calculateAnalysisData(
-        inspectionData,
-        parseInt(formData.sampleSize)
-      );
-      setAnalysisData(analysisResults);
+      if (formData.limitPhase === "phase-2" && !frozenLimits) {
+        throw new Error("No frozen limits for this material, operation and gauge; freeze a Phase I baseline first");
+      }
+
+      // Process the data using our utility function; points excluded in earlier analyses are excluded again
+      const options = { ...analysisOptions(formData, ruleSet, nominal, frozenLimits), savedExclusions };
+      setAnalysisData(calculateAnalysisData(inspectionData, options));
+      setLastRun({ inspectionData, options });
+      setBaseline({
+        materialCode: formData.material,
+        operationCode: formData.operation,
+        gaugeCode: formData.gauge,
+        baselineStart: format(formData.startDate, "yyyy-MM-dd"),
+        baselineEnd: format(formData.endDate, "yyyy-MM-dd"),
+      });
+      setReportParameters({
+        ...labels,
+        startDate: format(formData.startDate, "PPP"),
+        endDate: format(formData.endDate, "PPP"),
+      });
     } catch (err) {
       setError(
         err instanceof Error ? `Error analyzing data: ${err.message}` : "Unknown error"
@@ -82,16 +205,148 @@ export default function SPCAnalysisPage() {
     }
   };
 
+  // Run every gauge of the material/operation with the same settings, e.g. for a PPAP capability summary.
+  // Gauges are fetched a few at a time; one that cannot be analysed is listed with the reason instead of stopping
+  // the batch.
+  const handleAnalyzeAll = async (formData: FormState, labels: SelectionLabels, gauges: Gauge[]) => {
+    setLoading(true);
+    setError(null);
+    setAnalysisData(null);
+    setAttributeData(null);
+    setReportParameters(null);
+    setBaseline(null);
+    setLastRun(null);
+    setBatch(null);
+
+    try {
+      const [ruleSet, characteristics, exclusionConfig, frozenLimitConfig] = await Promise.all([
+        fetchAssignedRuleSet(formData.material, formData.operation),
+        fetchCharacteristicConfig(),
+        fetchExclusionConfig(),
+        formData.limitPhase === "phase-2" ? fetchFrozenLimitConfig() : Promise.resolve(undefined),
+      ]);
+
+      const summary = await mapWithLimit(gauges, BATCH_REQUEST_LIMIT, async (gauge): Promise<GaugeCapability> => {
+        const failed = (error: string) => ({ gaugeCode: gauge.GuageCode, gaugeName: gauge.GuageName, error });
+        if (gaugeChartFamily(gauge) === "attribute") return failed("Go/no-go gauge, no capability");
+
+        try {
+          const inspectionData = await fetchApiList<InspectionData>("/api/inspection-data", {
+            startDate: formData.startDate,
+            endDate: formData.endDate,
+            materialCode: formData.material,
+            operationCode: formData.operation,
+            gaugeCode: gauge.GuageCode,
+            shiftIds: formData.selectedShifts,
+          });
+          if (!inspectionData || inspectionData.length === 0) return failed("No data found for the selected criteria");
+
+          const frozenLimits = frozenLimitConfig &&
+            resolveFrozenLimits(frozenLimitConfig, formData.material, formData.operation, gauge.GuageCode);
+          if (formData.limitPhase === "phase-2" && !frozenLimits) return failed("No frozen limits");
+
+          const nominal = resolveCharacteristic(characteristics, formData.material, formData.operation, gauge.GuageCode)?.nominal;
+          // Points excluded on the gauge's own page are left out here too, so both show the same capability
+          const savedExclusions =
+            resolveExclusionSet(exclusionConfig, formData.material, formData.operation, gauge.GuageCode)?.exclusions;
+          return summarizeGaugeCapability(
+            gauge,
+            calculateAnalysisData(inspectionData, {
+              ...analysisOptions(formData, ruleSet, nominal, frozenLimits),
+              savedExclusions,
+            })
+          );
+        } catch (err) {
+          return failed(err instanceof Error ? err.message : "Unknown error");
+        }
+      });
+      setBatch({ formData, labels, gauges: summary });
+    } catch (err) {
+      setError(
+        err instanceof Error ? `Error analyzing gauges: ${err.message}` : "Unknown error"
+      );
+      console.error("Batch analysis error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Open one gauge of the batch summary in the single-gauge view, keeping the summary above it
+  const handleSelectGauge = (gauge: GaugeCapability) => {
+    if (!batch) return;
+
+    const formData: FormState = { ...batch.formData, gauge: gauge.gaugeCode, chartFamily: "variables" };
+    setFormState(formData);
+    handleAnalyze(formData, { ...batch.labels, gauge: gauge.gaugeName });
+  };
+
   // Handle report download
-  const handleDownload = useReactToPrint({
-    contentRef: componentRef,
-    documentTitle: "SPC_Analysis_Report",
-    onAfterPrint: () => setDownloading(false),
-    onPrintError: async () => {
-      setError("Error generating PDF report");
+  const handleDownload = async () => {
+    if (!analysisData || !reportParameters) return;
+
+    setDownloading(true);
+    try {
+      await downloadReport({ analysisData, parameters: reportParameters });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error generating PDF report");
+    } finally {
       setDownloading(false);
-    },
-  });
+    }
+  };
+
+  // Recalculate without the excluded points and save them with the characteristic; the new limits may be frozen
+  // again. Saved exclusions of readings outside this analysis are kept.
+  const handleExclusionsChange = async (exclusions: PointExclusion[]) => {
+    if (!lastRun || !baseline) return;
+
+    let data: AnalysisData;
+    try {
+      data = calculateAnalysisData(lastRun.inspectionData, { ...lastRun.options, exclusions, savedExclusions: undefined });
+      setAnalysisData(data);
+      setLimitsFrozen(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? `Error excluding points: ${err.message}` : "Unknown error");
+      return;
+    }
+
+    // Readings identified over the same valid rows as in the engine
+    const analysedReadings = new Set(
+      readingKeys(parseInspectionData(lastRun.inspectionData).validData).filter((key) => key !== undefined)
+    );
+    const savedExclusions = mergeSavedExclusions(lastRun.options.savedExclusions ?? [], data.exclusions, analysedReadings);
+    setLastRun({ ...lastRun, options: { ...lastRun.options, savedExclusions } });
+    try {
+      const { materialCode, operationCode, gaugeCode } = baseline;
+      await saveExclusions({ materialCode, operationCode, gaugeCode, exclusions: savedExclusions });
+    } catch (err) {
+      setError(err instanceof Error ? `Error saving exclusions: ${err.message}` : "Unknown error");
+    }
+  };
+
+  // Store the Phase I limits of the current analysis for Phase II monitoring
+  const handleFreezeLimits = async () => {
+    if (!analysisData || !baseline) return;
+
+    const { chartType, subgroupSize, movingRangeSpan, limits } = analysisData.controlCharts;
+    setFreezing(true);
+    try {
+      await freezeLimits({
+        ...baseline,
+        chartType,
+        subgroupSize,
+        ...(movingRangeSpan !== undefined ? { movingRangeSpan } : {}),
+        limits,
+        frozenAt: new Date().toISOString(),
+        ...(analysisData.exclusions.length ? { exclusions: analysisData.exclusions } : {}),
+      });
+      setLimitsFrozen(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error freezing control limits");
+    } finally {
+      setFreezing(false);
+    }
+  };
 
   return (
     <div className="container max-w-screen-xl mx-auto p-4 space-y-8">
@@ -104,22 +359,47 @@ export default function SPCAnalysisPage() {
         <AnalysisForm
           formState={formState}
           setFormState={setFormState}
-          onAnalyze={handleAnalyze}
+          onAnalyze={(formData, labels) => {
+            setBatch(null);
+            handleAnalyze(formData, labels);
+          }}
+          onAnalyzeAll={handleAnalyzeAll}
           loading={loading}
           error={error}
         />
       </div>
 
+      {batch && (
+        <div className="bg-white shadow-sm rounded-lg p-6 mt-8">
+          <BatchResults
+            gauges={batch.gauges}
+            labels={batch.labels}
+            minimumCpk={parseFloat(batch.formData.minimumCpk)}
+            selectedGauge={analysisData ? formState.gauge : undefined}
+            onSelectGauge={handleSelectGauge}
+          />
+        </div>
+      )}
+
       {analysisData && (
-        <div className="bg-white shadow-sm rounded-lg p-6 mt-8"
-          ref={componentRef}>
+        <div className="bg-white shadow-sm rounded-lg p-6 mt-8">
           <AnalysisResults
             analysisData={analysisData}
             onDownload={handleDownload}
             downloading={downloading}
+            onFreezeLimits={handleFreezeLimits}
+            freezing={freezing}
+            limitsFrozen={limitsFrozen}
+            onExclusionsChange={handleExclusionsChange}
           />
         </div>
       )}
+
+      {attributeData && (
+        <div className="bg-white shadow-sm rounded-lg p-6 mt-8">
+          <AttributeResults attributeData={attributeData} />
+        </div>
+      )}
     </div>
   );
 }
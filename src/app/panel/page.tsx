@@ -6,13 +6,15 @@ import {
  
   ControlCharts,
   Histogram,
+  NormalProbabilityPlot,
   AnalysisCards
 } from "@/components/spc/ChartComponent";
 import { useSPCData } from "@/hooks/useSPCdata";
 import { analyzeData } from "@/lib/spcAnalysis";
 import { AnalysisData } from "@/types/spc";
 import { ControlPanel } from "@/components/spc/ControlPanel";
-import { MetricCard } from "@/components/spc/MetricCards";
+import { MetricCard, SpecChangeNotice } from "@/components/spc/MetricCards";
+import { SPCPatternDetection } from "@/components/spc/SPCPattern";
 
 export default function SPCDashboardPage() {
   // Analysis parameters state
@@ -123,19 +125,35 @@ export default function SPCDashboardPage() {
         <div className="mt-8">
           <h2 className="text-xl font-semibold mb-4">Analysis Results</h2>
           
+          {analysisData.specChange && (
+            <SpecChangeNotice specChange={analysisData.specChange} className="mb-6" />
+          )}
+
           {/* Metrics Card */}
           <MetricCard metrics={analysisData.metrics} />
           
           {/* Control Charts */}
-          <ControlCharts chartData={analysisData.controlCharts} />
+          <ControlCharts
+            chartData={analysisData.controlCharts}
+            violations={analysisData.ruleViolations}
+          />
+
+          {/* Run Rules */}
+          <SPCPatternDetection
+            violations={analysisData.ruleViolations}
+            ruleSet={analysisData.ruleSet}
+            chartType={analysisData.controlCharts.chartType}
+          />
           
           {/* Histogram */}
-          <Histogram 
-            data={analysisData.distribution.data}
-            stats={analysisData.distribution.stats}
+          <Histogram
+            distribution={analysisData.distribution}
             lsl={analysisData.metrics.lsl}
             usl={analysisData.metrics.usl}
           />
+
+          {/* Normality */}
+          <NormalProbabilityPlot normality={analysisData.normality} />
           
           {/* Analysis Cards */}
           <AnalysisCards 
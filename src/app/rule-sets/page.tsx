@@ -0,0 +1,312 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { NelsonRuleId, RuleConfig, RuleSetConfig, RuleSetProfile } from "@/types";
+import { NELSON_RULES } from "@/lib/spc/rules";
+import { DEFAULT_RULE_SET_ID } from "@/lib/spc/ruleSets";
+import { fetchRuleSetConfig, saveRuleSetConfig } from "@/lib/api";
+
+export default function RuleSetsPage() {
+  const [config, setConfig] = useState<RuleSetConfig | null>(null);
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_RULE_SET_ID);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRuleSetConfig()
+      .then(setConfig)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load rule sets"));
+  }, []);
+
+  if (!config) {
+    return (
+      <div className="container max-w-screen-xl mx-auto p-4">
+        {error ? (
+          <div className="bg-red-50 text-red-700 p-3 rounded-md text-sm">{error}</div>
+        ) : (
+          <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+        )}
+      </div>
+    );
+  }
+
+  const selected = config.profiles.find((p) => p.id === selectedId) ?? config.profiles[0];
+
+  const updateProfile = (changes: Partial<RuleSetProfile>) => {
+    setConfig({
+      ...config,
+      profiles: config.profiles.map((p) => (p.id === selected.id ? { ...p, ...changes } : p)),
+    });
+  };
+
+  const updateRule = (ruleId: NelsonRuleId, changes: Partial<RuleConfig>) => {
+    updateProfile({ rules: { ...selected.rules, [ruleId]: { ...selected.rules[ruleId], ...changes } } });
+  };
+
+  // New profiles start as a copy of the one being viewed
+  const addProfile = () => {
+    const id = `custom-${Date.now()}`;
+    setConfig({
+      ...config,
+      profiles: [...config.profiles, { id, name: `${selected.name} (copy)`, rules: selected.rules }],
+    });
+    setSelectedId(id);
+  };
+
+  const removeProfile = () => {
+    setConfig({
+      profiles: config.profiles.filter((p) => p.id !== selected.id),
+      assignments: config.assignments.filter((a) => a.ruleSetId !== selected.id),
+    });
+    setSelectedId(DEFAULT_RULE_SET_ID);
+  };
+
+  const updateAssignment = (index: number, changes: Partial<RuleSetConfig["assignments"][number]>) => {
+    setConfig({
+      ...config,
+      assignments: config.assignments.map((a, i) => (i === index ? { ...a, ...changes } : a)),
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setConfig(await saveRuleSetConfig(config));
+      setMessage("Rule sets saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save rule sets");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container max-w-screen-xl mx-auto p-4 space-y-8">
+      <div className="bg-white shadow-sm rounded-lg p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-800">Run Rule Sets</h1>
+            <p className="text-gray-600">
+              Choose which run rules each part and operation is judged against
+            </p>
+          </div>
+          <Button onClick={handleSave} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+
+        {error && <div className="bg-red-50 text-red-700 p-3 rounded-md text-sm">{error}</div>}
+        {message && <div className="bg-green-50 text-green-700 p-3 rounded-md text-sm">{message}</div>}
+
+        <Card className="shadow-md">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg text-blue-600">Profiles</CardTitle>
+            <CardDescription>Built-in profiles are read-only, copy one to customise it</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label className="text-xs">Profile</Label>
+                <Select value={selected.id} onValueChange={setSelectedId}>
+                  <SelectTrigger className="w-64 h-9 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {config.profiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!selected.builtIn && (
+                <div className="space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input
+                    className="w-64 h-9 text-sm"
+                    value={selected.name}
+                    onChange={(e) => updateProfile({ name: e.target.value })}
+                  />
+                </div>
+              )}
+              <Button variant="outline" onClick={addProfile}>
+                <Plus className="mr-2 h-4 w-4" />
+                Copy Profile
+              </Button>
+              {!selected.builtIn && (
+                <Button variant="outline" onClick={removeProfile}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              )}
+              {selected.builtIn && <Badge variant="outline">Built-in</Badge>}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">On</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead className="w-28">Points (n)</TableHead>
+                  <TableHead className="w-28">Of which (k)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.values(NELSON_RULES).map((rule) => {
+                  const current = selected.rules[rule.id];
+                  return (
+                    <TableRow key={rule.id}>
+                      <TableCell>
+                        <Switch
+                          checked={current.enabled}
+                          disabled={selected.builtIn}
+                          onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span className="text-gray-500 mr-1">Rule {rule.id}:</span>
+                        {rule.name}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          className="h-8 text-sm"
+                          value={current.length}
+                          disabled={selected.builtIn || rule.id === 1}
+                          onChange={(e) => updateRule(rule.id, { length: parseInt(e.target.value) || 1 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {current.count !== undefined && (
+                          <Input
+                            type="number"
+                            min={1}
+                            className="h-8 text-sm"
+                            value={current.count}
+                            disabled={selected.builtIn}
+                            onChange={(e) => updateRule(rule.id, { count: parseInt(e.target.value) || 1 })}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-md">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg text-blue-600">Assignments</CardTitle>
+            <CardDescription>
+              Leave the operation empty to cover every operation of a material. Anything unassigned uses the
+              Nelson profile.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Material Code</TableHead>
+                  <TableHead>Operation Code</TableHead>
+                  <TableHead>Rule Set</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {config.assignments.map((assignment, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        className="h-8 text-sm"
+                        value={assignment.materialCode}
+                        onChange={(e) => updateAssignment(index, { materialCode: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 text-sm"
+                        placeholder="All operations"
+                        value={assignment.operationCode ?? ""}
+                        onChange={(e) => updateAssignment(index, { operationCode: e.target.value || undefined })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={assignment.ruleSetId}
+                        onValueChange={(ruleSetId) => updateAssignment(index, { ruleSetId })}
+                      >
+                        <SelectTrigger className="w-full h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {config.profiles.map((p) => (
+                            <SelectItem key={p.id} value={p.id}>
+                              {p.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() =>
+                          setConfig({ ...config, assignments: config.assignments.filter((_, i) => i !== index) })
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button
+              variant="outline"
+              onClick={() =>
+                setConfig({
+                  ...config,
+                  assignments: [...config.assignments, { materialCode: "", ruleSetId: DEFAULT_RULE_SET_ID }],
+                })
+              }
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Assignment
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -71,6 +71,7 @@ interface ProcessMetricsData {
   ppk: number;
   lsl: number;
   usl: number;
+  target: number; // Drawing nominal, not always the middle of the tolerance
 }
 
 interface HistogramData {
@@ -255,6 +256,7 @@ export default function SPCAnalysis() {
       ppk: 0.99,
       lsl: 10.0,
       usl: 10.5,
+      target: 10.25,
     };
 
     // Control chart data
@@ -362,6 +364,9 @@ export default function SPCAnalysis() {
     if (!analysisData?.metrics) return null;
 
     const { metrics } = analysisData;
+    // Centered when the offset from the nominal keeps at least 75% of the on-target Cpm
+    const longTermCentered =
+      metrics.stdDevOverall / Math.hypot(metrics.stdDevOverall, metrics.xBar - metrics.target) >= 0.75;
 
     return (
       <Card className="mt-6">
@@ -436,12 +441,12 @@ export default function SPCAnalysis() {
                 )}
               </p>
               <p className="text-sm">
-                <span className="font-medium">Long-term Centered (Ppk):</span>{" "}
-                {metrics.ppk >= 1.33 ? (
-                  <span className="text-green-600">Process is stable</span>
+                <span className="font-medium">Long-term Centered (Target):</span>{" "}
+                {longTermCentered ? (
+                  <span className="text-green-600">Process is centered on target</span>
                 ) : (
                   <span className="text-red-600">
-                    Long-term stability needs improvement
+                    Process mean is off target
                   </span>
                 )}
               </p>
@@ -479,7 +484,7 @@ export default function SPCAnalysis() {
             </div>
             <div className="p-4 bg-yellow-50 rounded-lg">
               <div className="text-sm font-medium text-gray-500">Target</div>
-              <div className="text-xl font-bold">{((metrics.lsl + metrics.usl) / 2).toFixed(2)}</div>
+              <div className="text-xl font-bold">{metrics.target.toFixed(2)}</div>
             </div>
           </div>
 
@@ -504,7 +509,7 @@ export default function SPCAnalysis() {
                   label={{ value: "Mean", position: "top" }}
                 />
                 <ReferenceLine
-                  x={(metrics.lsl + metrics.usl) / 2}
+                  x={metrics.target}
                   stroke="#ef4444"
                   strokeWidth={2}
                   label={{ value: "Target", position: "top" }}
@@ -1,15 +1,27 @@
+import { Fragment } from "react";
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend,
-  ReferenceLine, ResponsiveContainer, BarChart, Bar
+  ReferenceLine, ReferenceArea, ResponsiveContainer, ScatterChart, Scatter
 } from "recharts";
-import { 
-  ControlChartData,
+import { AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChartKind,
+  ControlCharts as ControlChartData,
+  DistributionData,
+  NormalityAnalysis,
+  PpmBreakdown,
   SSAnalysis,
-  ProcessInterpretation
-} from "@/types/spc";
+  ProcessInterpretation,
+  RuleViolation
+} from "@/types";
+import { flaggedIndices } from "@/lib/spc/rules";
+import { CHART_TYPES, ControlChartPanel, controlChartPanels } from "@/lib/spc/charts";
+import { pValueLabel } from "@/lib/spc/distributions";
+import { normalQuantile } from "@/lib/spc/statistics";
 
 // Animation variants
 const fadeIn = {
@@ -18,55 +30,135 @@ const fadeIn = {
   transition: { duration: 0.3 }
 };
 
-export function ControlCharts({ chartData }: { chartData: ControlChartData }) {
+// Line colours of the control charts: means and attribute counts, dispersion, and the EWMA and CUSUM of the means
+export const CONTROL_CHART_STROKES: Record<ChartKind, string> = {
+  xBar: "#8884d8",
+  range: "#82ca9d",
+  stdDev: "#82ca9d",
+  attribute: "#8884d8",
+  ewma: "#f59e0b",
+  cusum: "#0d9488",
+};
+
+export const EXCLUDED_POINT_COLOR = "#9ca3af";
+
+// Dot renderer that draws points flagged by a run rule larger and in red, and excluded points in grey.
+// With onSelect the dots are clickable, e.g. to exclude a point.
+export function violationDot(
+  flagged: Set<number>,
+  color: string,
+  { excluded, onSelect }: { excluded?: Set<number>; onSelect?: (index: number) => void } = {}
+) {
+  function ViolationDot({ cx, cy, index }: { cx?: number; cy?: number; index?: number }) {
+    const isExcluded = index !== undefined && !!excluded?.has(index);
+    const isFlagged = index !== undefined && flagged.has(index);
+    const fill = isExcluded ? EXCLUDED_POINT_COLOR : isFlagged ? "red" : color;
+    const dot = <circle cx={cx} cy={cy} r={isFlagged || isExcluded ? 4 : 2} fill={fill} stroke={fill} />;
+    if (!onSelect || index === undefined) return <g key={index}>{dot}</g>;
+    return (
+      <g key={index} onClick={() => onSelect(index)} style={{ cursor: "pointer" }}>
+        {/* Wider transparent target, the dots are small */}
+        <circle cx={cx} cy={cy} r={7} fill="transparent" />
+        {dot}
+      </g>
+    );
+  }
+  return ViolationDot;
+}
+
+// Center line and control limits of a chart. Staged charts and varying subgroup sizes get a short line per
+// segment, joined into steps where segments meet, labelled with the stage and any short subgroup size. The
+// EWMA chart draws the limits of every point as curves.
+export function limitLines(chart: ControlChartPanel) {
+  if (chart.limitCurves) {
+    const { ucl, center, lcl } = chart.limitCurves;
+    return [
+      <Line key="ucl" data={ucl} dataKey="y" name="UCL" type="linear" stroke="red" strokeDasharray="3 3" dot={false} legendType="none" />,
+      <Line key="center" data={center} dataKey="y" name={chart.centerLabel} type="stepAfter" stroke="blue" dot={false} legendType="none" />,
+      <Line key="lcl" data={lcl} dataKey="y" name="LCL" type="linear" stroke="red" strokeDasharray="3 3" dot={false} legendType="none" />,
+    ];
+  }
+  if (!chart.segments) {
+    return [
+      <ReferenceLine key="ucl" y={chart.ucl} stroke="red" strokeDasharray="3 3" label="UCL" />,
+      <ReferenceLine key="center" y={chart.center} stroke="blue" label={chart.centerLabel} />,
+      <ReferenceLine key="lcl" y={chart.lcl} stroke="red" strokeDasharray="3 3" label="LCL" />,
+    ];
+  }
+  return chart.segments.flatMap((segment, i) => {
+    const span = (y: number) => [{ x: segment.from, y }, { x: segment.to, y }];
+    const previous = chart.segments![i - 1];
+    const rise = (from: number, to: number) => [{ x: segment.from, y: from }, { x: segment.from, y: to }];
+    const risers = previous && previous.to === segment.from
+      ? [
+          <ReferenceLine key={`ucl-rise-${i}`} segment={rise(previous.ucl, segment.ucl)} stroke="red" strokeDasharray="3 3" />,
+          <ReferenceLine key={`center-rise-${i}`} segment={rise(previous.center, segment.center)} stroke="blue" />,
+          <ReferenceLine key={`lcl-rise-${i}`} segment={rise(previous.lcl, segment.lcl)} stroke="red" strokeDasharray="3 3" />,
+        ]
+      : [];
+    return [
+      ...risers,
+      <ReferenceLine
+        key={`ucl-${i}`}
+        segment={span(segment.ucl)}
+        stroke="red"
+        strokeDasharray="3 3"
+        label={segment.sizeLabel && { value: segment.sizeLabel, position: "insideTopLeft", fontSize: 10 }}
+      />,
+      <ReferenceLine
+        key={`center-${i}`}
+        segment={span(segment.center)}
+        stroke="blue"
+        label={segment.label && { value: segment.label, position: "insideTopLeft", fontSize: 10 }}
+      />,
+      <ReferenceLine key={`lcl-${i}`} segment={span(segment.lcl)} stroke="red" strokeDasharray="3 3" />,
+    ];
+  });
+}
+
+// Second series of a chart, the lower CUSUM drawn below zero
+export function lowerSeriesLine(chart: ControlChartPanel) {
+  if (!chart.lower) return null;
+  const { name, data, flagged } = chart.lower;
+  return (
+    <Line
+      data={data}
+      type="monotone"
+      dataKey="y"
+      name={name}
+      stroke={CONTROL_CHART_STROKES[chart.kind]}
+      strokeDasharray="5 3"
+      dot={violationDot(flagged, CONTROL_CHART_STROKES[chart.kind], { excluded: chart.excluded })}
+    />
+  );
+}
+
+export function ControlCharts({ chartData, violations = [] }: {
+  chartData: ControlChartData;
+  violations?: RuleViolation[];
+}) {
   return (
     <motion.div {...fadeIn}>
       <Card className="mt-4">
         <CardHeader className="pb-2">
           <CardTitle className="text-lg text-blue-600">Control Charts</CardTitle>
-          <CardDescription>X-Bar and Range Charts</CardDescription>
+          <CardDescription>{CHART_TYPES[chartData.chartType].label} Charts</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-6">
-            {[
-              {
-                title: "X-Bar Chart",
-                data: chartData.xBarData,
-                limits: {
-                  ucl: chartData.limits.xBarUcl,
-                  mean: chartData.limits.xBarMean,
-                  lcl: chartData.limits.xBarLcl
-                },
-                dataKey: "Value",
-                stroke: "#8884d8",
-                yLabel: "Value"
-              },
-              {
-                title: "Range Chart",
-                data: chartData.rangeData,
-                limits: {
-                  ucl: chartData.limits.rangeUcl,
-                  mean: chartData.limits.rangeMean,
-                  lcl: chartData.limits.rangeLcl
-                },
-                dataKey: "Range",
-                stroke: "#82ca9d",
-                yLabel: "Range"
-              }
-            ].map((chart, i) => (
+            {controlChartPanels(chartData).map((chart, i) => (
               <div key={i} className="h-56">
                 <h3 className="text-sm font-medium mb-1">{chart.title}</h3>
                 <ResponsiveContainer width="100%" height="100%">
                   <LineChart data={chart.data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="x" label={{ value: 'Sample', position: 'insideBottomRight', offset: -5 }} />
+                    <XAxis dataKey="x" type="number" domain={chart.xDomain} allowDecimals={false} label={{ value: 'Sample', position: 'insideBottomRight', offset: -5 }} />
                     <YAxis label={{ value: chart.yLabel, angle: -90, position: 'insideLeft' }} />
                     <Tooltip />
                     <Legend />
-                    <ReferenceLine y={chart.limits.ucl} stroke="red" strokeDasharray="3 3" label="UCL" />
-                    <ReferenceLine y={chart.limits.mean} stroke="blue" label={i === 0 ? "X-Bar" : "R-Bar"} />
-                    <ReferenceLine y={chart.limits.lcl} stroke="red" strokeDasharray="3 3" label="LCL" />
-                    <Line type="monotone" dataKey="y" name={chart.dataKey} stroke={chart.stroke} dot={{ r: 2 }} />
+                    {limitLines(chart)}
+                    <Line type="monotone" dataKey="y" name={chart.yLabel} stroke={CONTROL_CHART_STROKES[chart.kind]} dot={violationDot(chart.flagged ?? flaggedIndices(violations, chart.kind), CONTROL_CHART_STROKES[chart.kind], { excluded: chart.excluded })} />
+                    {lowerSeriesLine(chart)}
                   </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -78,34 +170,204 @@ export function ControlCharts({ chartData }: { chartData: ControlChartData }) {
   );
 }
 
-export function Histogram({ data, stats, lsl, usl }: {
-  data: Array<{x: number; y: number}>;
-  stats: {mean: number; stdDev: number; target: number};
-  lsl: number;
-  usl: number;
+// Bin edges are used as axis ticks, thinned out when there are many bins
+const MAX_EDGE_TICKS = 12;
+
+const BINNING_LABELS: Record<DistributionData["stats"]["binningRule"], string> = {
+  "square-root": "square root",
+  sturges: "Sturges",
+  scott: "Scott",
+  "freedman-diaconis": "Freedman-Diaconis",
+  custom: "custom width",
+};
+
+export function Histogram({ distribution, lsl, usl, className }: {
+  distribution: DistributionData;
+  lsl?: number; // Missing for an upper-only specification
+  usl?: number; // Missing for a lower-only specification
+  className?: string;
 }) {
+  const { data, curve, stats, expectedPpm } = distribution;
+  const edges = stats.binEdges;
+  const tickStep = Math.ceil(edges.length / MAX_EDGE_TICKS);
+  const xDomain = [
+    Math.min(edges[0] ?? stats.min, lsl ?? stats.min, curve[0]?.x ?? stats.min),
+    Math.max(edges[edges.length - 1] ?? stats.max, usl ?? stats.max, curve[curve.length - 1]?.x ?? stats.max),
+  ];
+  const yMax = Math.max(...data.map((bin) => bin.y), ...curve.map((point) => Math.max(point.within, point.overall)), 1);
+
   return (
     <motion.div {...fadeIn}>
-      <Card className="mt-4">
+      <Card className={cn("mt-4 h-full", className)}>
         <CardHeader className="pb-2">
           <CardTitle className="text-lg text-blue-600">Histogram</CardTitle>
-          <CardDescription>Distribution of measurements</CardDescription>
+          <CardDescription>
+            {data.length} bins of width {stats.binWidth} ({BINNING_LABELS[stats.binningRule]} rule)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart margin={{ top: 15, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={xDomain}
+                  ticks={edges.filter((_, i) => i % tickStep === 0)}
+                  tickFormatter={(value: number) => Number(value.toPrecision(5)).toString()}
+                  label={{ value: "Value", position: "insideBottomRight", offset: -5 }}
+                />
+                <YAxis
+                  domain={[0, Math.ceil(yMax * 1.1)]}
+                  allowDecimals={false}
+                  label={{ value: "Frequency", angle: -90, position: "insideLeft" }}
+                />
+                <Tooltip />
+                <Legend />
+                {data.map((bin, i) => (
+                  <ReferenceArea
+                    key={i}
+                    x1={edges[i]}
+                    x2={edges[i + 1]}
+                    y1={0}
+                    y2={bin.y}
+                    fill="#8884d8"
+                    fillOpacity={0.7}
+                    stroke="#fff"
+                    ifOverflow="extendDomain"
+                  />
+                ))}
+                {lsl !== undefined && <ReferenceLine x={lsl} stroke="red" label="LSL" />}
+                {usl !== undefined && <ReferenceLine x={usl} stroke="red" label="USL" />}
+                {stats.target !== undefined && <ReferenceLine x={stats.target} stroke="green" label="Target" />}
+                <Line data={curve} type="monotone" dataKey="within" name="Within" stroke="#f97316" dot={false} />
+                <Line
+                  data={curve}
+                  type="monotone"
+                  dataKey="overall"
+                  name="Overall"
+                  stroke="#0f172a"
+                  strokeDasharray="5 3"
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="grid grid-cols-3 gap-2 mt-4 text-sm">
+            <span className="text-gray-600">Expected PPM</span>
+            <span className="text-gray-600 text-right">Within</span>
+            <span className="text-gray-600 text-right">Overall</span>
+            {([
+              ...(lsl !== undefined ? [["< LSL", "belowLsl"]] : []),
+              ...(usl !== undefined ? [["> USL", "aboveUsl"]] : []),
+              ["Total", "total"],
+            ] as Array<[string, keyof PpmBreakdown]>).map(([label, key]) => (
+              <Fragment key={key}>
+                <span>{label}</span>
+                <span className="text-right font-medium">{expectedPpm.within[key].toFixed(2)}</span>
+                <span className="text-right font-medium">{expectedPpm.overall[key].toFixed(2)}</span>
+              </Fragment>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+// Percent ticks for the probability axis, placed at their normal scores
+const PROBABILITY_TICKS = [1, 5, 10, 25, 50, 75, 90, 95, 99];
+const probabilityTick = (z: number) =>
+  `${PROBABILITY_TICKS.find((tick) => Math.abs(normalQuantile(tick / 100) - z) < 1e-6) ?? ""}%`;
+
+// Scatter shape for series that are drawn only as lines
+const noPoint = () => <g />;
+
+export function NormalProbabilityPlot({ normality, className }: {
+  normality: NormalityAnalysis;
+  className?: string;
+}) {
+  const { band } = normality;
+  const zDomain = [
+    Math.min(band[0]?.z ?? -3, normalQuantile(0.01)),
+    Math.max(band[band.length - 1]?.z ?? 3, normalQuantile(0.99)),
+  ];
+
+  return (
+    <motion.div {...fadeIn}>
+      <Card className={cn("mt-4 h-full", className)}>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg text-blue-600">Normal Probability Plot</CardTitle>
+            {normality.rejected && (
+              <Badge variant="destructive">
+                <AlertTriangle />
+                Normality rejected
+              </Badge>
+            )}
+          </div>
+          <CardDescription>
+            Fitted normal line with {Math.round(normality.confidence * 100)}% confidence band
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="h-56">
             <ResponsiveContainer width="100%" height="100%">
-              <BarChart data={data} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <ScatterChart margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="x" label={{ value: 'Value', position: 'insideBottomRight', offset: -5 }} />
-                <YAxis label={{ value: 'Frequency', angle: -90, position: 'insideLeft' }} />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={["auto", "auto"]}
+                  label={{ value: "Value", position: "insideBottomRight", offset: -5 }}
+                />
+                <YAxis
+                  dataKey="z"
+                  type="number"
+                  domain={zDomain}
+                  ticks={PROBABILITY_TICKS.map((tick) => normalQuantile(tick / 100))}
+                  tickFormatter={probabilityTick}
+                  label={{ value: "Percent", angle: -90, position: "insideLeft" }}
+                />
                 <Tooltip />
-                <ReferenceLine x={lsl} stroke="red" label="LSL" />
-                <ReferenceLine x={usl} stroke="red" label="USL" />
-                <ReferenceLine x={stats.target} stroke="green" label="Target" />
-                <Bar dataKey="y" fill="#8884d8" />
-              </BarChart>
+                <Scatter
+                  name="Fit"
+                  data={band.map(({ z, fit }) => ({ x: fit, z }))}
+                  line={{ stroke: "blue" }}
+                  shape={noPoint}
+                />
+                <Scatter
+                  name="Lower"
+                  data={band.map(({ z, lower }) => ({ x: lower, z }))}
+                  line={{ stroke: "red", strokeDasharray: "3 3" }}
+                  shape={noPoint}
+                />
+                <Scatter
+                  name="Upper"
+                  data={band.map(({ z, upper }) => ({ x: upper, z }))}
+                  line={{ stroke: "red", strokeDasharray: "3 3" }}
+                  shape={noPoint}
+                />
+                <Scatter name="Readings" data={normality.points} fill="#8884d8" />
+              </ScatterChart>
             </ResponsiveContainer>
           </div>
+          <div className="mt-4 space-y-1">
+            {normality.tests.map((test) => (
+              <div key={test.name} className="flex justify-between items-center text-sm">
+                <span className="text-gray-600">{test.label}</span>
+                <span
+                  className={cn(
+                    "font-medium",
+                    test.pValue < normality.alpha ? "text-red-500" : "text-green-500"
+                  )}
+                >
+                  {test.statistic.toFixed(3)} ({pValueLabel(test)})
+                </span>
+              </div>
+            ))}
+          </div>
         </CardContent>
       </Card>
     </motion.div>
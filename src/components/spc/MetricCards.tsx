@@ -1,6 +1,11 @@
 import { motion } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { ProcessMetrics } from "@/types/spc";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { CapabilityIndex, CusumChart, Metrics, SpecChange, StageSummary } from "@/types";
+import { cn } from "@/lib/utils";
+import { belowMinimumCpk } from "@/lib/spc/confidence";
+import { specLimitsLabel } from "@/lib/spc/engine";
 
 const fadeIn = {
   initial: { opacity: 0, y: 20 },
@@ -8,7 +13,7 @@ const fadeIn = {
   transition: { duration: 0.3 }
 };
 
-export function MetricCard({ metrics }: { metrics: ProcessMetrics }) {
+export function MetricCard({ metrics }: { metrics: Metrics }) {
   return (
     <motion.div {...fadeIn}>
       <Card className="mt-4">
@@ -18,30 +23,237 @@ export function MetricCard({ metrics }: { metrics: ProcessMetrics }) {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            {[
+            {([
               { label: "X-Bar", value: metrics.xBar },
               { label: "Std Dev", value: metrics.stdDevOverall },
-              { label: "Cp", value: metrics.cp },
-              { label: "Cpk", value: metrics.cpk },
-              { label: "Pp", value: metrics.pp },
-              { label: "Ppk", value: metrics.ppk },
+              { label: "Cp", value: metrics.cp, index: "cp" },
+              { label: "Cpk", value: metrics.cpk, index: "cpk" },
+              { label: "Pp", value: metrics.pp, index: "pp" },
+              { label: "Ppk", value: metrics.ppk, index: "ppk" },
+              { label: "Cpm", value: metrics.cpm },
+              { label: "Cpkm", value: metrics.cpkm },
               { label: "LSL", value: metrics.lsl },
-              { label: "USL", value: metrics.usl }
-            ].map((item, i) => (
-              <motion.div 
-                key={item.label}
-                className="p-3 bg-slate-50 rounded-lg"
-                initial={{ opacity: 0, scale: 0.9 }}
-                animate={{ opacity: 1, scale: 1 }}
-                transition={{ duration: 0.2, delay: i * 0.05 }}
-              >
-                <div className="text-xs font-medium text-slate-500">{item.label}</div>
-                <div className="text-lg font-bold">{item.value}</div>
-              </motion.div>
-            ))}
+              { label: "USL", value: metrics.usl },
+              { label: "Target", value: metrics.target }
+            ] as { label: string; value?: number; index?: CapabilityIndex }[])
+              // One-sided specifications have no Cp, Pp or Cpm and only one limit
+              .filter((item) => item.value !== undefined)
+              .map((item, i) => (
+                <motion.div 
+                  key={item.label}
+                  className="p-3 bg-slate-50 rounded-lg"
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ duration: 0.2, delay: i * 0.05 }}
+                >
+                  <div className="text-xs font-medium text-slate-500">{item.label}</div>
+                  <div className="text-lg font-bold">{item.value}</div>
+                  {item.index && <IndexInterval metrics={metrics} index={item.index} />}
+                </motion.div>
+              ))}
           </div>
+          <PpmSummary metrics={metrics} className="mt-4" />
         </CardContent>
       </Card>
     </motion.div>
   );
-}
\ No newline at end of file
+}
+
+// Confidence interval under a capability index, in red when its lower bound is below the customer's minimum Cpk
+export function IndexInterval({ metrics, index }: { metrics: Metrics; index: CapabilityIndex }) {
+  const { level, minimumCpk } = metrics.confidence;
+  const interval = metrics.confidence.intervals[index];
+  const belowMinimum = belowMinimumCpk(metrics.confidence, index);
+  if (!interval) return null;
+
+  return (
+    <div className={cn("text-xs", belowMinimum ? "text-red-500 font-medium" : "text-slate-500")}>
+      {Math.round(level * 100)}% CI: {interval.lower} to {interval.upper}
+      {belowMinimum && <div>Lower bound below minimum {minimumCpk}</div>}
+    </div>
+  );
+}
+
+// Out-of-spec rates: observed in the data and expected from the within and overall normal fits
+export function PpmSummary({ metrics, className }: { metrics: Metrics; className?: string }) {
+  const rows = [
+    { label: "Observed", ppm: metrics.ppm.observed },
+    { label: "Expected Within", ppm: metrics.ppm.expectedWithin, sigma: metrics.sigmaLevel.within },
+    { label: "Expected Overall", ppm: metrics.ppm.expectedOverall, sigma: metrics.sigmaLevel.overall },
+  ];
+
+  return (
+    <div className={cn("overflow-x-auto", className)}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-500">
+            <th className="text-left font-medium py-1">Performance</th>
+            <th className="text-right font-medium">PPM &lt; LSL</th>
+            <th className="text-right font-medium">PPM &gt; USL</th>
+            <th className="text-right font-medium">PPM Total</th>
+            <th className="text-right font-medium">% Out of Spec</th>
+            <th className="text-right font-medium">Z.LSL</th>
+            <th className="text-right font-medium">Z.USL</th>
+            <th className="text-right font-medium">Z.Bench</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, ppm, sigma }) => (
+            <tr key={label} className="border-t">
+              <td className="py-1 text-slate-600">{label}</td>
+              <td className="text-right font-medium">{metrics.lsl !== undefined ? ppm.belowLsl.toFixed(2) : "-"}</td>
+              <td className="text-right font-medium">{metrics.usl !== undefined ? ppm.aboveUsl.toFixed(2) : "-"}</td>
+              <td className={cn("text-right font-bold", ppm.total > 0 && "text-red-500")}>{ppm.total.toFixed(2)}</td>
+              <td className="text-right font-medium">{(ppm.total / 10_000).toFixed(4)}</td>
+              <td className="text-right font-medium">{sigma?.zLsl !== undefined ? sigma.zLsl.toFixed(2) : "-"}</td>
+              <td className="text-right font-medium">{sigma?.zUsl !== undefined ? sigma.zUsl.toFixed(2) : "-"}</td>
+              <td className="text-right font-medium">{sigma ? sigma.zBench.toFixed(2) : "-"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Notice shown when the specification was revised within the window, with capability per revision
+export function SpecChangeNotice({ specChange, className }: { specChange: SpecChange; className?: string }) {
+  const fixed = (value?: number) => (value === undefined ? "-" : value.toFixed(2));
+
+  return (
+    <Alert className={cn("bg-amber-50 text-amber-900 border-amber-200", className)}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Specification changed</AlertTitle>
+      <AlertDescription>
+        <p>{specChange.notice}</p>
+        <div className="overflow-x-auto w-full mt-2">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs">
+                <th className="text-left font-medium py-1">Specification</th>
+                <th className="text-left font-medium">Dates</th>
+                <th className="text-right font-medium">Readings</th>
+                <th className="text-right font-medium">X-Bar</th>
+                <th className="text-right font-medium">Cp</th>
+                <th className="text-right font-medium">Cpk</th>
+                <th className="text-right font-medium">Pp</th>
+                <th className="text-right font-medium">Ppk</th>
+              </tr>
+            </thead>
+            <tbody>
+              {specChange.revisions.map((revision, i) => (
+                <tr key={i} className={cn("border-t border-amber-200", revision.latest && "font-semibold")}>
+                  <td className="py-1">
+                    {specLimitsLabel(revision.lsl, revision.usl)}
+                    {revision.latest && " (latest)"}
+                  </td>
+                  <td>{revision.startDate ? `${revision.startDate} - ${revision.endDate}` : "-"}</td>
+                  <td className="text-right">{revision.count}</td>
+                  <td className="text-right">{revision.capability?.xBar ?? "-"}</td>
+                  <td className="text-right">{fixed(revision.capability?.cp)}</td>
+                  <td className="text-right">{fixed(revision.capability?.cpk)}</td>
+                  <td className="text-right">{fixed(revision.capability?.pp)}</td>
+                  <td className="text-right">{fixed(revision.capability?.ppk)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+// Capability of each stage of a staged chart, to compare e.g. shift 1 with shift 2
+export function StageCapability({ stages, className }: { stages: StageSummary[]; className?: string }) {
+  const fixed = (value?: number) => (value === undefined ? "-" : value.toFixed(2));
+
+  return (
+    <motion.div {...fadeIn} className={className}>
+      <Card className="shadow-md">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-blue-600">Capability by Stage</CardTitle>
+          <CardDescription>Each stage against its own center line and within sigma</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="text-left font-medium py-1">Stage</th>
+                  <th className="text-right font-medium">Readings</th>
+                  <th className="text-right font-medium">Subgroups</th>
+                  <th className="text-right font-medium">X-Bar</th>
+                  <th className="text-right font-medium">Std Dev Within</th>
+                  <th className="text-right font-medium">Std Dev Overall</th>
+                  <th className="text-right font-medium">Cp</th>
+                  <th className="text-right font-medium">Cpk</th>
+                  <th className="text-right font-medium">Pp</th>
+                  <th className="text-right font-medium">Ppk</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stages.map((stage) => (
+                  <tr key={stage.stage} className="border-t">
+                    <td className="py-1 text-slate-600">{stage.stage}</td>
+                    <td className="text-right font-medium">{stage.readings}</td>
+                    <td className="text-right font-medium">{stage.subgroups}</td>
+                    <td className="text-right font-medium">{stage.xBar}</td>
+                    <td className="text-right font-medium">{stage.stdDevWithin}</td>
+                    <td className="text-right font-medium">{stage.stdDevOverall}</td>
+                    <td className="text-right font-medium">{fixed(stage.cp)}</td>
+                    <td className={cn("text-right font-bold", stage.cpk < 1 && "text-red-500")}>{fixed(stage.cpk)}</td>
+                    <td className="text-right font-medium">{fixed(stage.pp)}</td>
+                    <td className={cn("text-right font-bold", stage.ppk < 1 && "text-red-500")}>{fixed(stage.ppk)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+// Sustained shifts found by the CUSUM, dated back to where each began
+export function CusumSignals({ cusum, className }: { cusum: CusumChart; className?: string }) {
+  return (
+    <motion.div {...fadeIn} className={className}>
+      <Card className="shadow-md">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg text-blue-600">CUSUM Signals</CardTitle>
+          <CardDescription>
+            Change point: the sample where the sum last left zero. New mean: the average of the plotted means since.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="text-left font-medium py-1">Shift</th>
+                  <th className="text-right font-medium">Signal at Sample</th>
+                  <th className="text-right font-medium">Change Point</th>
+                  <th className="text-left font-medium pl-4">Changed On</th>
+                  <th className="text-right font-medium">New Mean</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cusum.signals.map((signal, i) => (
+                  <tr key={i} className="border-t">
+                    <td className="py-1 text-slate-600">{signal.side === "upper" ? "Upward" : "Downward"}</td>
+                    <td className="text-right font-medium">{signal.sample}</td>
+                    <td className="text-right font-medium">{signal.changePoint}</td>
+                    <td className="pl-4 font-medium">{signal.changeDate ?? "-"}</td>
+                    <td className="text-right font-bold">{signal.mean}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -6,74 +6,71 @@ import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronUp, Info } from "lucide-react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
+import { Metrics, ControlCharts } from "@/types";
+import { controlChartConstants, getControlChartConstants } from "@/lib/spc/constants";
 
 // Types for the component props
 interface SPCFormulaCardProps {
-  metrics: {
-    xBar: number;
-    stdDevOverall: number;
-    stdDevWithin: number;
-    movingRange: number;
-    cp: number;
-    cpkUpper: number;
-    cpkLower: number;
-    cpk: number;
-    pp: number;
-    ppu: number;
-    ppl: number;
-    ppk: number;
-    lsl: number;
-    usl: number;
-  };
-  chartData: {
-    limits: {
-      xBarUcl: number;
-      xBarLcl: number;
-      xBarMean: number;
-      rangeUcl: number;
-      rangeLcl: number;
-      rangeMean: number;
-    };
-  };
+  metrics: Metrics;
+  chartData: Pick<ControlCharts, "chartType" | "limits" | "movingRangeSpan">;
   sampleSize: number;
 }
 
-// Unbiased constants lookup table
-const unbiasedConstants = [
-  { sampleSize: 1, D2: 1.128, A2: 2.66, D3: 0, D4: 3.267 },
-  { sampleSize: 2, D2: 1.128, A2: 1.88, D3: 0, D4: 3.267 },
-  { sampleSize: 3, D2: 1.693, A2: 1.772, D3: 0, D4: 2.574 },
-  { sampleSize: 4, D2: 2.059, A2: 0.796, D3: 0, D4: 2.282 },
-  { sampleSize: 5, D2: 2.326, A2: 0.691, D3: 0, D4: 2.114 },
-];
-
 export function SPCFormulaCard({ metrics, chartData, sampleSize = 5 }: SPCFormulaCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   
-  // Get constants for the current sample size
-  const constants = unbiasedConstants.find(c => c.sampleSize === sampleSize) || unbiasedConstants[4];
+  // Get constants for the current sample size, or for the moving range span of an I-MR chart
+  const { limits } = chartData;
+  const isSChart = chartData.chartType === "xbar-s";
+  const individuals = chartData.chartType === "i-mr";
+  const constants =
+    getControlChartConstants(individuals ? chartData.movingRangeSpan ?? 2 : sampleSize) ?? controlChartConstants[5];
+  const rowSize = constants.n;
+  const fmt = (value: number) => value.toFixed(4);
+  const avgStdDev = metrics.avgStdDev ?? 0;
+  // Individuals charts use E2 with the average moving range
+  const [xBarFactorName, xBarFactor] = individuals ? ["E2", constants.E2] : ["A2", constants.A2];
+  const rBar = individuals ? "MR̄" : "R̄";
+  // Indices against a missing limit are shown as "-" for one-sided specifications
+  const index = (value?: number) => (value === undefined ? "-" : value.toFixed(2));
+  const { lsl, usl } = metrics;
+  const oneSided = "Not applicable to a one-sided specification";
+  const cpkFormula = (upper: string, lower: string, value: number) =>
+    lsl === undefined
+      ? `${upper} = ${value.toFixed(2)} (upper limit only)`
+      : usl === undefined
+      ? `${lower} = ${value.toFixed(2)} (lower limit only)`
+      : `min(${upper}, ${lower}) = ${value.toFixed(2)}`;
   
   // Create a formula explanation with the actual values
   const formulas = {
     processCapability: {
-      pp: `(USL - LSL) / (6 × StDev Overall) = (${metrics.usl.toFixed(1)} - ${metrics.lsl.toFixed(1)}) / (6 × ${metrics.stdDevOverall.toFixed(6)}) = ${metrics.pp.toFixed(2)}`,
-      ppu: `(USL - X̄) / (3 × StDev Overall) = (${metrics.usl.toFixed(1)} - ${metrics.xBar.toFixed(3)}) / (3 × ${metrics.stdDevOverall.toFixed(6)}) = ${metrics.ppu.toFixed(2)}`,
-      ppl: `(X̄ - LSL) / (3 × StDev Overall) = (${metrics.xBar.toFixed(3)} - ${metrics.lsl.toFixed(1)}) / (3 × ${metrics.stdDevOverall.toFixed(6)}) = ${metrics.ppl.toFixed(2)}`,
-      ppk: `min(Ppu, Ppl) = min(${metrics.ppu.toFixed(2)}, ${metrics.ppl.toFixed(2)}) = ${metrics.ppk.toFixed(2)}`
+      pp: lsl !== undefined && usl !== undefined ? `(USL - LSL) / (6 × StDev Overall) = (${usl.toFixed(1)} - ${lsl.toFixed(1)}) / (6 × ${metrics.stdDevOverall.toFixed(6)}) = ${index(metrics.pp)}` : oneSided,
+      ppu: usl !== undefined ? `(USL - X̄) / (3 × StDev Overall) = (${usl.toFixed(1)} - ${metrics.xBar.toFixed(3)}) / (3 × ${metrics.stdDevOverall.toFixed(6)}) = ${index(metrics.ppu)}` : oneSided,
+      ppl: lsl !== undefined ? `(X̄ - LSL) / (3 × StDev Overall) = (${metrics.xBar.toFixed(3)} - ${lsl.toFixed(1)}) / (3 × ${metrics.stdDevOverall.toFixed(6)}) = ${index(metrics.ppl)}` : oneSided,
+      ppk: cpkFormula("Ppu", "Ppl", metrics.ppk)
     },
     processControl: {
-      cp: `(USL - LSL) / (6 × StDev Within) = (${metrics.usl.toFixed(1)} - ${metrics.lsl.toFixed(1)}) / (6 × ${metrics.stdDevWithin.toFixed(6)}) = ${metrics.cp.toFixed(2)}`,
-      cpu: `(USL - X̄) / (3 × StDev Within) = (${metrics.usl.toFixed(1)} - ${metrics.xBar.toFixed(3)}) / (3 × ${metrics.stdDevWithin.toFixed(6)}) = ${metrics.cpkUpper.toFixed(2)}`,
-      cpl: `(X̄ - LSL) / (3 × StDev Within) = (${metrics.xBar.toFixed(3)} - ${metrics.lsl.toFixed(1)}) / (3 × ${metrics.stdDevWithin.toFixed(6)}) = ${metrics.cpkLower.toFixed(2)}`,
-      cpk: `min(Cpu, Cpl) = min(${metrics.cpkUpper.toFixed(2)}, ${metrics.cpkLower.toFixed(2)}) = ${metrics.cpk.toFixed(2)}`
+      cp: lsl !== undefined && usl !== undefined ? `(USL - LSL) / (6 × StDev Within) = (${usl.toFixed(1)} - ${lsl.toFixed(1)}) / (6 × ${metrics.stdDevWithin.toFixed(6)}) = ${index(metrics.cp)}` : oneSided,
+      cpu: usl !== undefined ? `(USL - X̄) / (3 × StDev Within) = (${usl.toFixed(1)} - ${metrics.xBar.toFixed(3)}) / (3 × ${metrics.stdDevWithin.toFixed(6)}) = ${index(metrics.cpu)}` : oneSided,
+      cpl: lsl !== undefined ? `(X̄ - LSL) / (3 × StDev Within) = (${metrics.xBar.toFixed(3)} - ${lsl.toFixed(1)}) / (3 × ${metrics.stdDevWithin.toFixed(6)}) = ${index(metrics.cpl)}` : oneSided,
+      cpk: cpkFormula("Cpu", "Cpl", metrics.cpk)
     },
-    controlCharts: {
-      xBarUcl: `X̄ + A2 × R̄ = ${metrics.xBar.toFixed(3)} + ${constants.A2} × ${metrics.movingRange.toFixed(6)} = ${chartData.limits.xBarUcl.toFixed(3)}`,
-      xBarLcl: `X̄ - A2 × R̄ = ${metrics.xBar.toFixed(3)} - ${constants.A2} × ${metrics.movingRange.toFixed(6)} = ${chartData.limits.xBarLcl.toFixed(3)}`,
-      rangeUcl: `D4 × R̄ = ${constants.D4} × ${metrics.movingRange.toFixed(6)} = ${chartData.limits.rangeUcl.toFixed(3)}`,
-      rangeLcl: `D3 × R̄ = ${constants.D3} × ${metrics.movingRange.toFixed(6)} = ${chartData.limits.rangeLcl.toFixed(3)}`,
-      stdDevWithin: `R̄ / D2 = ${metrics.movingRange.toFixed(6)} / ${constants.D2} = ${metrics.stdDevWithin.toFixed(6)}`
-    }
+    controlCharts: isSChart
+      ? {
+          xBarUcl: `X̄ + A3 × S̄ = ${metrics.xBar.toFixed(3)} + ${fmt(constants.A3)} × ${avgStdDev.toFixed(6)} = ${limits.xBarUcl.toFixed(3)}`,
+          xBarLcl: `X̄ - A3 × S̄ = ${metrics.xBar.toFixed(3)} - ${fmt(constants.A3)} × ${avgStdDev.toFixed(6)} = ${limits.xBarLcl.toFixed(3)}`,
+          dispersionUcl: `B4 × S̄ = ${fmt(constants.B4)} × ${avgStdDev.toFixed(6)} = ${(limits.sUcl ?? 0).toFixed(3)}`,
+          dispersionLcl: `B3 × S̄ = ${fmt(constants.B3)} × ${avgStdDev.toFixed(6)} = ${(limits.sLcl ?? 0).toFixed(3)}`,
+          stdDevWithin: `S̄ / c4 = ${avgStdDev.toFixed(6)} / ${fmt(constants.c4)} = ${metrics.stdDevWithin.toFixed(6)}`
+        }
+      : {
+          xBarUcl: `X̄ + ${xBarFactorName} × ${rBar} = ${metrics.xBar.toFixed(3)} + ${fmt(xBarFactor)} × ${metrics.avgRange.toFixed(6)} = ${limits.xBarUcl.toFixed(3)}`,
+          xBarLcl: `X̄ - ${xBarFactorName} × ${rBar} = ${metrics.xBar.toFixed(3)} - ${fmt(xBarFactor)} × ${metrics.avgRange.toFixed(6)} = ${limits.xBarLcl.toFixed(3)}`,
+          dispersionUcl: `D4 × ${rBar} = ${fmt(constants.D4)} × ${metrics.avgRange.toFixed(6)} = ${limits.rangeUcl.toFixed(3)}`,
+          dispersionLcl: `D3 × ${rBar} = ${fmt(constants.D3)} × ${metrics.avgRange.toFixed(6)} = ${limits.rangeLcl.toFixed(3)}`,
+          stdDevWithin: `${rBar} / d2 = ${metrics.avgRange.toFixed(6)} / ${constants.d2} = ${metrics.stdDevWithin.toFixed(6)}`
+        }
   };
 
   return (
@@ -127,8 +124,12 @@ export function SPCFormulaCard({ metrics, chartData, sampleSize = 5 }: SPCFormul
                         <TableCell className="text-right">{metrics.stdDevWithin.toFixed(6)}</TableCell>
                       </TableRow>
                       <TableRow>
-                        <TableCell className="font-medium">R̄ (Average Range)</TableCell>
-                        <TableCell className="text-right">{metrics.movingRange.toFixed(6)}</TableCell>
+                        <TableCell className="font-medium">
+                          {isSChart ? "S̄ (Average Std Dev)" : individuals ? "MR̄ (Average Moving Range)" : "R̄ (Average Range)"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {(isSChart ? avgStdDev : metrics.avgRange).toFixed(6)}
+                        </TableCell>
                       </TableRow>
                     </TableBody>
                   </Table>
@@ -142,16 +143,17 @@ export function SPCFormulaCard({ metrics, chartData, sampleSize = 5 }: SPCFormul
                         <TableCell className="font-medium">Cp</TableCell>
                         <TableCell className={cn(
                           "text-right font-medium",
+                          metrics.cp === undefined ? "" :
                           metrics.cp >= 1.33 ? "text-green-600" : 
                           metrics.cp >= 1.0 ? "text-yellow-600" : "text-red-600"
                         )}>
-                          {metrics.cp.toFixed(2)}
+                          {index(metrics.cp)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell className="font-medium">Cpu/Cpl</TableCell>
                         <TableCell className="text-right">
-                          {metrics.cpkUpper.toFixed(2)} / {metrics.cpkLower.toFixed(2)}
+                          {index(metrics.cpu)} / {index(metrics.cpl)}
                         </TableCell>
                       </TableRow>
                       <TableRow>
@@ -166,7 +168,7 @@ export function SPCFormulaCard({ metrics, chartData, sampleSize = 5 }: SPCFormul
                       </TableRow>
                       <TableRow>
                         <TableCell className="font-medium">Pp</TableCell>
-                        <TableCell className="text-right">{metrics.pp.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{index(metrics.pp)}</TableCell>
                       </TableRow>
                       <TableRow>
                         <TableCell className="font-medium">Ppk</TableCell>
@@ -184,20 +186,28 @@ export function SPCFormulaCard({ metrics, chartData, sampleSize = 5 }: SPCFormul
                   <TableHeader>
                     <TableRow>
                       <TableHead>Sample Size</TableHead>
-                      <TableHead>D2</TableHead>
+                      <TableHead>d2</TableHead>
+                      <TableHead>c4</TableHead>
                       <TableHead>A2</TableHead>
+                      <TableHead>A3</TableHead>
                       <TableHead>D3</TableHead>
                       <TableHead>D4</TableHead>
+                      <TableHead>B3</TableHead>
+                      <TableHead>B4</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {unbiasedConstants.map((row) => (
-                      <TableRow key={row.sampleSize} className={row.sampleSize === sampleSize ? "bg-blue-50" : ""}>
-                        <TableCell className="font-medium">{row.sampleSize}</TableCell>
-                        <TableCell>{row.D2}</TableCell>
-                        <TableCell>{row.A2}</TableCell>
-                        <TableCell>{row.D3}</TableCell>
-                        <TableCell>{row.D4}</TableCell>
+                    {Object.values(controlChartConstants).map((row) => (
+                      <TableRow key={row.n} className={row.n === rowSize ? "bg-blue-50" : ""}>
+                        <TableCell className="font-medium">{row.n}</TableCell>
+                        <TableCell>{row.d2.toFixed(3)}</TableCell>
+                        <TableCell>{row.c4.toFixed(4)}</TableCell>
+                        <TableCell>{row.A2.toFixed(3)}</TableCell>
+                        <TableCell>{row.A3.toFixed(3)}</TableCell>
+                        <TableCell>{row.D3.toFixed(3)}</TableCell>
+                        <TableCell>{row.D4.toFixed(3)}</TableCell>
+                        <TableCell>{row.B3.toFixed(3)}</TableCell>
+                        <TableCell>{row.B4.toFixed(3)}</TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -207,7 +217,7 @@ export function SPCFormulaCard({ metrics, chartData, sampleSize = 5 }: SPCFormul
               <div className="mt-4 text-sm text-gray-600">
                 <div className="flex items-start gap-1">
                   <Info size={16} className="mt-0.5 flex-shrink-0" />
-                  <p>These constants are used in calculating control limits. The highlighted row shows values for your current sample size (n={sampleSize}).</p>
+                  <p>These constants are used in calculating control limits. The highlighted row shows values for your current sample size (n={rowSize}{individuals ? ", moving range span" : ""}).</p>
                 </div>
               </div>
             </TabsContent>
@@ -238,10 +248,10 @@ export function SPCFormulaCard({ metrics, chartData, sampleSize = 5 }: SPCFormul
                   <div>
                     <h3 className="text-sm font-medium mb-2">Control Charts Formulas</h3>
                     <div className="bg-gray-50 p-3 rounded-md space-y-2 text-sm">
-                      <p><strong>X-Bar UCL:</strong> {formulas.controlCharts.xBarUcl}</p>
-                      <p><strong>X-Bar LCL:</strong> {formulas.controlCharts.xBarLcl}</p>
-                      <p><strong>Range UCL:</strong> {formulas.controlCharts.rangeUcl}</p>
-                      <p><strong>Range LCL:</strong> {formulas.controlCharts.rangeLcl}</p>
+                      <p><strong>{individuals ? "Individuals" : "X-Bar"} UCL:</strong> {formulas.controlCharts.xBarUcl}</p>
+                      <p><strong>{individuals ? "Individuals" : "X-Bar"} LCL:</strong> {formulas.controlCharts.xBarLcl}</p>
+                      <p><strong>{isSChart ? "S" : individuals ? "Moving Range" : "Range"} UCL:</strong> {formulas.controlCharts.dispersionUcl}</p>
+                      <p><strong>{isSChart ? "S" : individuals ? "Moving Range" : "Range"} LCL:</strong> {formulas.controlCharts.dispersionLcl}</p>
                       <p><strong>StDev Within:</strong> {formulas.controlCharts.stdDevWithin}</p>
                     </div>
                   </div>
@@ -2,46 +2,33 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Info, AlertTriangle, Check, TrendingUp, TrendingDown, Activity } from "lucide-react";
+import { Info, AlertTriangle, Check, TrendingUp, Activity } from "lucide-react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
-
-// Pattern detection types
-interface PatternResult {
-  detected: boolean;
-  description: string;
-  pointIndices?: number[];
-}
+import { AttributeChartType, ChartKind, ChartType, RuleSetProfile, RuleViolation } from "@/types";
+import { describeRule } from "@/lib/spc/rules";
+import { ruleDefinitions } from "@/lib/spc/ruleSets";
+import { chartKinds, chartTitle } from "@/lib/spc/charts";
 
 interface PatternAnalysisProps {
-  chartData: {
-    xBarData: Array<{x: number, y: number}>;
-    rangeData: Array<{x: number, y: number}>;
-    limits: {
-      xBarUcl: number;
-      xBarLcl: number;
-      xBarMean: number;
-      rangeUcl: number;
-      rangeLcl: number;
-      rangeMean: number;
-    };
-  };
+  violations: RuleViolation[];
+  ruleSet: RuleSetProfile;
+  chartType: ChartType | AttributeChartType;
+  // Charts such as the EWMA that raise one signal of their own instead of the run rules
+  signals?: Array<{ chart: ChartKind; description: string }>;
 }
 
-export function SPCPatternDetection({ chartData }: PatternAnalysisProps) {
-  // Calculate pattern detection results
-  const patterns = {
-    outOfControl: detectOutOfControlPoints(chartData),
-    trends: detectTrends(chartData),
-    shifts: detectShifts(chartData),
-    oscillation: detectOscillation(chartData),
-    clustering: detectClustering(chartData),
-    stratification: detectStratification(chartData)
-  };
+// Icons per run rule
+const RULE_ICONS: Record<number, React.ReactNode> = {
+  1: <AlertTriangle className="h-4 w-4" />,
+  2: <TrendingUp className="h-4 w-4" />,
+  3: <TrendingUp className="h-4 w-4" />,
+};
+
+export function SPCPatternDetection({ violations, ruleSet, chartType, signals = [] }: PatternAnalysisProps) {
+  const detectedPatternsCount = violations.length;
+  const rules = ruleDefinitions(ruleSet).filter((rule) => rule.enabled);
 
-  // Count total detected patterns
-  const detectedPatternsCount = Object.values(patterns).filter(p => p.detected).length;
-  
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -53,7 +40,9 @@ export function SPCPatternDetection({ chartData }: PatternAnalysisProps) {
           <div className="flex items-center justify-between">
             <div>
               <CardTitle className="text-lg text-blue-600">Pattern Detection</CardTitle>
-              <CardDescription>Statistical pattern analysis based on 3S principles</CardDescription>
+              <CardDescription>
+                {ruleSet.name} run rules: {chartKinds(chartType).map((chart) => chartTitle(chart, chartType)).join(", ")}
+              </CardDescription>
             </div>
             <Badge variant={detectedPatternsCount > 0 ? "destructive" : "outline"}>
               {detectedPatternsCount} {detectedPatternsCount === 1 ? 'Pattern' : 'Patterns'} Detected
@@ -61,15 +50,26 @@ export function SPCPatternDetection({ chartData }: PatternAnalysisProps) {
           </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-3">
-            {/* Present each pattern check with appropriate styling */}
-            {renderPatternResult("Points Out of Control", patterns.outOfControl, <AlertTriangle className="h-4 w-4" />)}
-            {renderPatternResult("Process Shift", patterns.shifts, <TrendingUp className="h-4 w-4" />)}
-            {renderPatternResult("Process Trend", patterns.trends, <TrendingUp className="h-4 w-4" />)}
-            {renderPatternResult("Oscillation", patterns.oscillation, <Activity className="h-4 w-4" />)}
-            {renderPatternResult("Clustering", patterns.clustering, <Activity className="h-4 w-4" />)}
-            {renderPatternResult("Stratification", patterns.stratification, <TrendingDown className="h-4 w-4" />)}
-            
+          <div className="space-y-4">
+            {chartKinds(chartType).map((chart) => (
+              <div key={chart} className="space-y-2">
+                <h3 className="text-sm font-medium">{chartTitle(chart, chartType)}</h3>
+                {rules.map((rule) =>
+                  renderPatternResult(
+                    rule.id,
+                    describeRule(rule),
+                    violations.filter((v) => v.chart === chart && v.ruleId === rule.id)
+                  )
+                )}
+              </div>
+            ))}
+            {signals.map(({ chart, description }) => (
+              <div key={chart} className="space-y-2">
+                <h3 className="text-sm font-medium">{chartTitle(chart, chartType)}</h3>
+                {renderPatternResult(1, description, violations.filter((v) => v.chart === chart))}
+              </div>
+            ))}
+
             {detectedPatternsCount > 0 ? (
               <Alert variant="destructive" className="mt-2">
                 <AlertTriangle className="h-4 w-4" />
@@ -93,23 +93,31 @@ export function SPCPatternDetection({ chartData }: PatternAnalysisProps) {
   );
 }
 
-// Helper to render each pattern result consistently
-function renderPatternResult(title: string, result: PatternResult, icon: React.ReactNode) {
+// Helper to render each rule result consistently
+function renderPatternResult(ruleId: number, title: string, occurrences: RuleViolation[]) {
+  const detected = occurrences.length > 0;
+  const samples = occurrences.flatMap((v) => v.indices.map((i) => i + 1));
+
   return (
-    <div className="flex items-center justify-between">
+    <div key={ruleId} className="flex items-center justify-between">
       <div className="flex items-center gap-2">
-        {icon}
-        <span className="text-sm">{title}</span>
+        {RULE_ICONS[ruleId] ?? <Activity className="h-4 w-4" />}
+        <span className="text-sm">
+          <span className="text-gray-500 mr-1">Rule {ruleId}:</span>
+          {title}
+        </span>
       </div>
       <div className={cn(
         "flex items-center gap-1 font-medium text-sm",
-        result.detected ? "text-red-600" : "text-green-600"
+        detected ? "text-red-600" : "text-green-600"
       )}>
-        {result.detected ? (
+        {detected ? (
           <>
             <span>Detected</span>
             <Info className="h-4 w-4 cursor-help" />
-            {result.description}
+            <span title={`Samples ${samples.join(", ")}`}>
+              {occurrences.length}x, samples {formatSamples(samples)}
+            </span>
           </>
         ) : (
           <span>Not Detected</span>
@@ -119,159 +127,9 @@ function renderPatternResult(title: string, result: PatternResult, icon: React.R
   );
 }
 
-// Pattern detection functions
-function detectOutOfControlPoints(chartData: PatternAnalysisProps['chartData']): PatternResult {
-  const { xBarData, limits } = chartData;
-  const outOfControlPoints = xBarData.filter(
-    point => point.y > limits.xBarUcl || point.y < limits.xBarLcl
-  );
-  
-  return {
-    detected: outOfControlPoints.length > 0,
-    description: `${outOfControlPoints.length} points are outside control limits`,
-    pointIndices: outOfControlPoints.map(point => point.x)
-  };
-}
-
-function detectTrends(chartData: PatternAnalysisProps['chartData']): PatternResult {
-  const { xBarData } = chartData;
-  const trendLength = 7; // 7 consecutive points in one direction
-  
-  for (let i = 0; i <= xBarData.length - trendLength; i++) {
-    let increasing = true;
-    let decreasing = true;
-    
-    for (let j = 1; j < trendLength; j++) {
-      if (xBarData[i + j].y <= xBarData[i + j - 1].y) {
-        increasing = false;
-      }
-      if (xBarData[i + j].y >= xBarData[i + j - 1].y) {
-        decreasing = false;
-      }
-    }
-    
-    if (increasing || decreasing) {
-      return {
-        detected: true,
-        description: `${trendLength} or more consecutive points ${increasing ? 'increasing' : 'decreasing'}`,
-        pointIndices: Array.from({length: trendLength}, (_, idx) => xBarData[i + idx].x)
-      };
-    }
-  }
-  
-  return {
-    detected: false,
-    description: 'No trend detected'
-  };
+// Show the first few sample numbers, e.g. "3, 4, 5 +6 more"
+function formatSamples(samples: number[]): string {
+  const unique = [...new Set(samples)].sort((a, b) => a - b);
+  const shown = unique.slice(0, 5).join(", ");
+  return unique.length > 5 ? `${shown} +${unique.length - 5} more` : shown;
 }
-
-function detectShifts(chartData: PatternAnalysisProps['chartData']): PatternResult {
-  const { xBarData, limits } = chartData;
-  const shiftLength = 8; // 8 consecutive points on same side of center line
-  const mean = limits.xBarMean;
-  
-  for (let i = 0; i <= xBarData.length - shiftLength; i++) {
-    let allAbove = true;
-    let allBelow = true;
-    
-    for (let j = 0; j < shiftLength; j++) {
-      if (xBarData[i + j].y <= mean) {
-        allAbove = false;
-      }
-      if (xBarData[i + j].y >= mean) {
-        allBelow = false;
-      }
-    }
-    
-    if (allAbove || allBelow) {
-      return {
-        detected: true,
-        description: `${shiftLength} consecutive points ${allAbove ? 'above' : 'below'} center line`,
-        pointIndices: Array.from({length: shiftLength}, (_, idx) => xBarData[i + idx].x)
-      };
-    }
-  }
-  
-  return {
-    detected: false,
-    description: 'No shift detected'
-  };
-}
-
-function detectOscillation(chartData: PatternAnalysisProps['chartData']): PatternResult {
-  const { xBarData } = chartData;
-  const requiredAlternations = 14; // 14 points alternating up and down
-  
-  let alternations = 0;
-  let previousDirection: string | null = null;
-  
-  for (let i = 1; i < xBarData.length; i++) {
-    const currentDirection = xBarData[i].y > xBarData[i-1].y ? 'up' : 'down';
-    
-    if (previousDirection && currentDirection !== previousDirection) {
-      alternations++;
-      if (alternations >= requiredAlternations) {
-        return {
-          detected: true,
-          description: 'Systematic alternating pattern detected (14+ alternations)',
-          pointIndices: xBarData.slice(i-requiredAlternations, i+1).map(pt => pt.x)
-        };
-      }
-    } else {
-      alternations = 0;
-    }
-    
-    previousDirection = currentDirection;
-  }
-  
-  return {
-    detected: false,
-    description: 'No oscillation pattern detected'
-  };
-}
-
-function detectClustering(chartData: PatternAnalysisProps['chartData']): PatternResult {
-  if (chartData.xBarData.length === 0 || chartData.rangeData.length === 0) {
-    return {
-      detected: false,
-      description: 'No data available for clustering analysis'
-    };
-  }
-  
-  return {
-    detected: false,
-    description: 'No unusual clustering detected'
-  };
-}
-
-
-function detectStratification(chartData: PatternAnalysisProps['chartData']): PatternResult {
-  const { xBarData, limits } = chartData;
-  const requiredPoints = 15; // 15 consecutive points close to center line
-  const threshold = (limits.xBarUcl - limits.xBarLcl) / 6; // Points within 1/6 of control limits
-  const mean = limits.xBarMean;
-  
-  for (let i = 0; i <= xBarData.length - requiredPoints; i++) {
-    let allWithinThreshold = true;
-    
-    for (let j = 0; j < requiredPoints; j++) {
-      if (Math.abs(xBarData[i + j].y - mean) > threshold) {
-        allWithinThreshold = false;
-        break;
-      }
-    }
-    
-    if (allWithinThreshold) {
-      return {
-        detected: true,
-        description: `${requiredPoints} consecutive points unnaturally close to center line`,
-        pointIndices: Array.from({length: requiredPoints}, (_, idx) => xBarData[i + idx].x)
-      };
-    }
-  }
-  
-  return {
-    detected: false,
-    description: 'No stratification detected'
-  };
-}
\ No newline at end of file
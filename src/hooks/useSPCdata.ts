@@ -1,11 +1,11 @@
 import { useState, useEffect } from "react";
-import { format } from "date-fns";
 import { 
   ShiftData, 
   MaterialData, 
   OperationData, 
   GuageData
 } from "@/types/spc";
+import { fetchApiList } from "@/lib/api";
 
 interface UseSPCDataParams {
   startDate: Date;
@@ -15,8 +15,6 @@ interface UseSPCDataParams {
   operation: string;
 }
 
-const BASE_URL = "http://10.10.1.7:8304";
-
 export function useSPCData({ 
   startDate, 
   endDate, 
@@ -34,10 +32,7 @@ export function useSPCData({
   useEffect(() => {
     const fetchShifts = async () => {
       try {
-        const response = await fetch(`${BASE_URL}/api/commonappservices/getshiftdatalist`);
-        if (!response.ok) throw new Error("Failed to fetch shifts");
-        const data = await response.json();
-        setShifts(data.data || []);
+        setShifts(await fetchApiList<ShiftData>("/api/shifts"));
         setError(null);
       } catch (err) {
         setError("Failed to load shifts");
@@ -57,19 +52,11 @@ export function useSPCData({
       }
 
       try {
-        const params = new URLSearchParams({
-          FromDate: format(startDate, "dd/MM/yyyy"),
-          ToDate: format(endDate, "dd/MM/yyyy"),
-          ShiftId: selectedShifts.join(",")
-        });
-
-        const response = await fetch(
-          `${BASE_URL}/api/productionappservices/getspcmateriallist?${params}`
-        );
-
-        if (!response.ok) throw new Error("Failed to fetch materials");
-        const data = await response.json();
-        setMaterials(data || []);
+        setMaterials(await fetchApiList<MaterialData>("/api/materials", {
+          startDate,
+          endDate,
+          shiftIds: selectedShifts
+        }));
         setError(null);
       } catch (err) {
         setError("Failed to load materials");
@@ -89,20 +76,12 @@ export function useSPCData({
       }
 
       try {
-        const params = new URLSearchParams({
-          FromDate: format(startDate, "dd/MM/yyyy"),
-          ToDate: format(endDate, "dd/MM/yyyy"),
-          MaterialCode: material,
-          ShiftId: selectedShifts.join(",")
-        });
-
-        const response = await fetch(
-          `${BASE_URL}/api/productionappservices/getspcoperationlist?${params}`
-        );
-
-        if (!response.ok) throw new Error("Failed to fetch operations");
-        const data = await response.json();
-        setOperations(data || []);
+        setOperations(await fetchApiList<OperationData>("/api/operations", {
+          startDate,
+          endDate,
+          materialCode: material,
+          shiftIds: selectedShifts
+        }));
         setError(null);
       } catch (err) {
         setError("Failed to load operations");
@@ -122,21 +101,13 @@ export function useSPCData({
       }
 
       try {
-        const params = new URLSearchParams({
-          FromDate: format(startDate, "dd/MM/yyyy"),
-          ToDate: format(endDate, "dd/MM/yyyy"),
-          MaterialCode: material,
-          OperationCode: operation,
-          ShiftId: selectedShifts.join(",")
-        });
-
-        const response = await fetch(
-          `${BASE_URL}/api/productionappservices/getspcguagelist?${params}`
-        );
-
-        if (!response.ok) throw new Error("Failed to fetch gauges");
-        const data = await response.json();
-        setGauges(data || []);
+        setGauges(await fetchApiList<GuageData>("/api/gauge", {
+          startDate,
+          endDate,
+          materialCode: material,
+          operationCode: operation,
+          shiftIds: selectedShifts
+        }));
         setError(null);
       } catch (err) {
         setError("Failed to load gauges");
@@ -0,0 +1,263 @@
+import { format } from "date-fns";
+import {
+  CharacteristicConfig, FrozenLimitConfig, FrozenLimitSet, ReportRequest, RuleSetConfig, RuleSetProfile,
+  ExclusionConfig, ExclusionSet, SavedExclusion
+} from "@/types";
+import { resolveRuleSet } from "@/lib/spc/ruleSets";
+import { resolveCharacteristic } from "@/lib/spc/characteristics";
+import { resolveFrozenLimits } from "@/lib/spc/controlLimits";
+import { resolveExclusionSet } from "@/lib/spc/exclusions";
+
+// Filters understood by the /api proxy routes
+export interface ApiQuery {
+  startDate?: Date;
+  endDate?: Date;
+  shiftIds?: Array<string | number>;
+  materialCode?: string;
+  operationCode?: string;
+  gaugeCode?: string;
+}
+
+/**
+ * Fetch a list from one of the /api proxy routes
+ * @param path - Route path, e.g. "/api/materials"
+ * @param query - Filters forwarded to the ERP
+ * @returns The list returned by the route, or throws with the route's error message
+ */
+export async function fetchApiList<T>(path: string, query: ApiQuery = {}): Promise<T[]> {
+  const params = new URLSearchParams();
+  if (query.startDate) params.set("fromDate", format(query.startDate, "dd/MM/yyyy"));
+  if (query.endDate) params.set("toDate", format(query.endDate, "dd/MM/yyyy"));
+  if (query.materialCode) params.set("materialCode", query.materialCode);
+  if (query.operationCode) params.set("operationCode", query.operationCode);
+  if (query.gaugeCode) params.set("gaugeCode", query.gaugeCode);
+  if (query.shiftIds?.length) params.set("shiftIds", query.shiftIds.join(","));
+
+  const search = params.toString();
+  const response = await fetch(search ? `${path}?${search}` : path);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Request to ${path} failed: ${response.statusText}`);
+  }
+
+  return Array.isArray(body) ? body : [];
+}
+
+// ERP requests a batch keeps open at once, so that 10-40 gauges do not all hit the proxy together
+export const BATCH_REQUEST_LIMIT = 4;
+
+/**
+ * Run an async task per item with a limited number in flight
+ * @param items - Items to process
+ * @param limit - Tasks running at once
+ * @param task - Work for one item; a rejection rejects the whole run, so tasks report their own failures
+ * @returns Results in the order of the items
+ */
+export async function mapWithLimit<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Generate the PDF report on the server and save it in the browser
+ * @param request - Analysis results and the parameters they were produced for
+ */
+export async function downloadReport(request: ReportRequest): Promise<void> {
+  const response = await fetch("/api/generate-pdf", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || "Error generating PDF report");
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `spc-analysis-${format(new Date(), "yyyy-MM-dd")}.pdf`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.URL.revokeObjectURL(url);
+}
+
+/**
+ * Load a document the app saves under one of the /api settings routes
+ * @param path - Route path, e.g. "/api/rule-sets"
+ * @param what - What the document holds, for the error message
+ */
+async function fetchStore<T>(path: string, what: string): Promise<T> {
+  const response = await fetch(path);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Failed to load ${what}`);
+  }
+
+  return body as T;
+}
+
+/**
+ * Send a settings document, or part of one, to its /api route
+ * @param path - Route path, e.g. "/api/rule-sets"
+ * @param what - What the document holds, for the error message
+ * @param value - Document to send
+ * @param method - PUT to replace the document, PATCH to merge one entry into it
+ * @returns The document as stored
+ */
+async function saveStore<T>(path: string, what: string, value: unknown, method: "PUT" | "PATCH" = "PUT"): Promise<T> {
+  const response = await fetch(path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(value),
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Failed to save ${what}`);
+  }
+
+  return body as T;
+}
+
+/**
+ * Load the rule-set profiles and their material/operation assignments
+ */
+export async function fetchRuleSetConfig(): Promise<RuleSetConfig> {
+  return fetchStore("/api/rule-sets", "rule sets");
+}
+
+/**
+ * Save the custom rule-set profiles and assignments
+ * @param config - Profiles and assignments to store, built-in profiles are ignored by the server
+ * @returns The stored configuration including the built-in profiles
+ */
+export async function saveRuleSetConfig(config: RuleSetConfig): Promise<RuleSetConfig> {
+  return saveStore("/api/rule-sets", "rule sets", config);
+}
+
+/**
+ * Load the rule-set profile assigned to a material/operation
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ */
+export async function fetchAssignedRuleSet(materialCode: string, operationCode: string): Promise<RuleSetProfile> {
+  return resolveRuleSet(await fetchRuleSetConfig(), materialCode, operationCode);
+}
+
+/**
+ * Load the characteristic master (drawing nominals per material/operation/gauge)
+ */
+export async function fetchCharacteristicConfig(): Promise<CharacteristicConfig> {
+  return fetchStore("/api/characteristics", "characteristics");
+}
+
+/**
+ * Save the characteristic master
+ * @param config - Characteristics to store
+ */
+export async function saveCharacteristicConfig(config: CharacteristicConfig): Promise<CharacteristicConfig> {
+  return saveStore("/api/characteristics", "characteristics", config);
+}
+
+/**
+ * Load the drawing nominal of a material/operation/gauge from the characteristic master
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ * @param gaugeCode - Selected gauge
+ * @returns The nominal, or undefined when the characteristic is not in the master
+ */
+export async function fetchNominal(
+  materialCode: string,
+  operationCode: string,
+  gaugeCode: string
+): Promise<number | undefined> {
+  return resolveCharacteristic(await fetchCharacteristicConfig(), materialCode, operationCode, gaugeCode)?.nominal;
+}
+
+/**
+ * Load the frozen Phase I limit sets
+ */
+export async function fetchFrozenLimitConfig(): Promise<FrozenLimitConfig> {
+  return fetchStore("/api/control-limits", "frozen limits");
+}
+
+/**
+ * Save the frozen limit sets
+ * @param config - Limit sets to store
+ */
+export async function saveFrozenLimitConfig(config: FrozenLimitConfig): Promise<FrozenLimitConfig> {
+  return saveStore("/api/control-limits", "frozen limits", config);
+}
+
+/**
+ * Load the frozen limit set of a material/operation/gauge
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ * @param gaugeCode - Selected gauge
+ * @returns The limit set, or undefined when no baseline has been frozen
+ */
+export async function fetchFrozenLimits(
+  materialCode: string,
+  operationCode: string,
+  gaugeCode: string
+): Promise<FrozenLimitSet | undefined> {
+  return resolveFrozenLimits(await fetchFrozenLimitConfig(), materialCode, operationCode, gaugeCode);
+}
+
+/**
+ * Store a Phase I baseline's limits, replacing any earlier set for the same characteristic
+ * @param limitSet - Limits to freeze
+ */
+export async function freezeLimits(limitSet: FrozenLimitSet): Promise<FrozenLimitConfig> {
+  const config = await fetchFrozenLimitConfig();
+  const { materialCode, operationCode, gaugeCode } = limitSet;
+  const existing = resolveFrozenLimits(config, materialCode, operationCode, gaugeCode);
+  return saveFrozenLimitConfig({
+    limitSets: [...config.limitSets.filter((s) => s !== existing), limitSet],
+  });
+}
+
+/**
+ * Load the excluded points saved per characteristic
+ */
+export async function fetchExclusionConfig(): Promise<ExclusionConfig> {
+  return fetchStore("/api/exclusions", "exclusions");
+}
+
+/**
+ * Load the excluded points saved for a material/operation/gauge
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ * @param gaugeCode - Selected gauge
+ * @returns The saved exclusions, empty when none have been saved
+ */
+export async function fetchSavedExclusions(
+  materialCode: string,
+  operationCode: string,
+  gaugeCode: string
+): Promise<SavedExclusion[]> {
+  return resolveExclusionSet(await fetchExclusionConfig(), materialCode, operationCode, gaugeCode)?.exclusions ?? [];
+}
+
+/**
+ * Store a characteristic's excluded points, replacing its earlier set on the server so that other
+ * characteristics saved meanwhile are kept
+ * @param exclusionSet - Exclusions to save
+ */
+export async function saveExclusions(exclusionSet: ExclusionSet): Promise<ExclusionConfig> {
+  return saveStore("/api/exclusions", "exclusions", exclusionSet, "PATCH");
+}
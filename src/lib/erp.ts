@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Paths of the inspection ERP services proxied by the /api routes
+export const ERP_ENDPOINTS = {
+  shifts: "/api/commonappservices/getshiftdatalist",
+  materials: "/api/productionappservices/getspcmateriallist",
+  operations: "/api/productionappservices/getspcoperationlist",
+  gauges: "/api/productionappservices/getspcguagelist",
+  inspectionData: "/api/productionappservices/getspcpirinspectiondatalist",
+} as const;
+
+export class ErpError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message);
+    this.name = "ErpError";
+  }
+}
+
+// Filters accepted by the /api routes, either as query parameters or as a JSON body
+export interface ErpQuery {
+  fromDate?: string;
+  toDate?: string;
+  shiftIds?: Array<string | number>;
+  materialCode?: string;
+  operationCode?: string;
+  gaugeCode?: string;
+}
+
+type ErpResponse<T> = T[] | { success?: boolean; data?: T[]; message?: string };
+
+function getBaseUrl(): string {
+  const baseUrl = process.env.ERP_API_BASE_URL;
+  if (!baseUrl) {
+    throw new ErpError("ERP_API_BASE_URL is not configured", 500);
+  }
+  return baseUrl.replace(/\/+$/, "");
+}
+
+/**
+ * Read the ERP filters from a route request
+ * @param request - Incoming GET (query string) or POST (JSON body) request
+ */
+export async function readErpQuery(request: NextRequest): Promise<ErpQuery> {
+  if (request.method === "POST") {
+    try {
+      return (await request.json()) as ErpQuery;
+    } catch {
+      throw new ErpError("Request body must be valid JSON", 400);
+    }
+  }
+
+  const params = request.nextUrl.searchParams;
+  const shiftIds = params.get("shiftIds");
+  return {
+    fromDate: params.get("fromDate") ?? undefined,
+    toDate: params.get("toDate") ?? undefined,
+    shiftIds: shiftIds ? shiftIds.split(",") : undefined,
+    materialCode: params.get("materialCode") ?? undefined,
+    operationCode: params.get("operationCode") ?? undefined,
+    gaugeCode: params.get("gaugeCode") ?? undefined,
+  };
+}
+
+/**
+ * Fetch a list from the ERP, normalising the `{success, data}` and bare-array response shapes
+ * @param endpoint - ERP service path
+ * @param query - Filters forwarded to the ERP
+ * @returns The list returned by the ERP
+ */
+export async function fetchErpList<T>(endpoint: string, query: ErpQuery = {}): Promise<T[]> {
+  const params = new URLSearchParams();
+  if (query.fromDate) params.set("FromDate", query.fromDate);
+  if (query.toDate) params.set("ToDate", query.toDate);
+  if (query.materialCode) params.set("MaterialCode", query.materialCode);
+  if (query.operationCode) params.set("OperationCode", query.operationCode);
+  if (query.gaugeCode) params.set("GuageCode", query.gaugeCode);
+  if (query.shiftIds?.length) params.set("ShiftId", query.shiftIds.join(","));
+
+  const search = params.toString();
+  const response = await fetch(`${getBaseUrl()}${endpoint}${search ? `?${search}` : ""}`, {
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    throw new ErpError(`ERP request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const body: ErpResponse<T> | null = await response.json();
+  if (Array.isArray(body)) return body;
+  if (body?.success === false) {
+    throw new ErpError(body.message || "ERP request failed");
+  }
+  return body?.data ?? [];
+}
+
+/**
+ * Build the JSON error response for a failed proxy request
+ * @param error - Error thrown while handling the request
+ */
+export function erpErrorResponse(error: unknown): NextResponse<{ error: string }> {
+  console.error("ERP proxy error:", error);
+  if (error instanceof ErpError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  return NextResponse.json({ error: "Failed to reach the inspection ERP" }, { status: 502 });
+}
+
+/**
+ * Ensure the filters required by an ERP service are present
+ * @param query - Filters read from the request
+ * @param fields - Required filter names
+ */
+export function requireErpQuery(query: ErpQuery, fields: Array<keyof ErpQuery>): void {
+  const missing = fields.filter((field) => {
+    const value = query[field];
+    return Array.isArray(value) ? value.length === 0 : !value;
+  });
+  if (missing.length > 0) {
+    throw new ErpError(`Missing required parameters: ${missing.join(", ")}`, 400);
+  }
+}
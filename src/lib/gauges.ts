@@ -0,0 +1,13 @@
+import { ChartFamily, Gauge } from "@/types";
+
+// Go/no-go gauges (plug, ring, snap, thread gauges) report pass/fail rather than readings
+const ATTRIBUTE_GAUGE_PATTERN = /\b(PLUG|RING|SNAP|THREAD|PIN|FEELER|GO|NO[- ]?GO)\b/i;
+
+/**
+ * Chart family for a gauge, judged from its name
+ * @param gauge - Selected gauge
+ * @returns "attribute" for go/no-go gauges, "variables" otherwise
+ */
+export function gaugeChartFamily(gauge: Gauge | undefined): ChartFamily {
+  return gauge && ATTRIBUTE_GAUGE_PATTERN.test(gauge.GuageName) ? "attribute" : "variables";
+}
@@ -0,0 +1,801 @@
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, degrees, rgb } from "pdf-lib";
+import { CapabilityIndex, ChartKind, ChartPoint, ReportRequest } from "@/types";
+import { flaggedIndices } from "@/lib/spc/rules";
+import { runCheckLabels } from "@/lib/spc/ruleSets";
+import { CHART_TYPES, chartTitle, controlChartPanels } from "@/lib/spc/charts";
+import { formatPValue, pValueLabel } from "@/lib/spc/distributions";
+import { belowMinimumCpk } from "@/lib/spc/confidence";
+import { TARGET_SOURCE_LABELS } from "@/lib/spc/characteristics";
+import { specLimitsLabel } from "@/lib/spc/engine";
+import { limitSourceLabel } from "@/lib/spc/controlLimits";
+import { subgroupingLabel } from "@/lib/spc/subgroups";
+
+// A4 portrait, in PDF points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CHART_HEIGHT = 210;
+
+const COLORS = {
+  text: rgb(0.12, 0.16, 0.22),
+  muted: rgb(0.42, 0.45, 0.5),
+  heading: rgb(0.15, 0.39, 0.92),
+  grid: rgb(0.88, 0.89, 0.91),
+  border: rgb(0.8, 0.82, 0.85),
+  panel: rgb(0.97, 0.98, 0.99),
+  series: rgb(0.53, 0.52, 0.85),
+  range: rgb(0.51, 0.79, 0.62),
+  limit: rgb(0.86, 0.15, 0.15),
+  center: rgb(0.15, 0.39, 0.92),
+  target: rgb(0.09, 0.64, 0.29),
+  within: rgb(0.98, 0.45, 0.09),
+  overall: rgb(0.06, 0.09, 0.16),
+  excluded: rgb(0.61, 0.64, 0.69),
+  ewma: rgb(0.96, 0.62, 0.04),
+  cusum: rgb(0.05, 0.58, 0.53),
+};
+
+interface PlotCurve {
+  label: string;
+  points: ChartPoint[];
+  color: RGB;
+  dashed?: boolean;
+  flagged?: Set<number>; // Set on a plotted series such as the lower CUSUM: points drawn, red where flagged
+}
+
+interface ReferenceLine {
+  value: number;
+  label: string;
+  color: RGB;
+  dashed?: boolean;
+  span?: [number, number]; // x extent of a staged chart segment, labelled at its start
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+/**
+ * Replace characters the standard PDF fonts cannot encode (WinAnsi)
+ * @param text - Text to draw
+ */
+function sanitize(text: string): string {
+  return text
+    .replace(/X̄/g, "X-bar")
+    .replace(/λ/g, "lambda")
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+/**
+ * Format an axis tick with enough decimals for the axis span
+ * @param value - Tick value
+ * @param span - Distance between the first and last tick
+ */
+function formatTick(value: number, span: number): string {
+  const decimals = span > 0 ? Math.min(6, Math.max(0, Math.ceil(-Math.log10(span / 4)) + 1)) : 2;
+  return value.toFixed(decimals);
+}
+
+// Lays out report content top-down, starting a new page when the current one is full
+class ReportWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(private doc: PDFDocument, private fonts: Fonts) {
+    this.newPage();
+  }
+
+  newPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 20) this.newPage();
+  }
+
+  private drawText(text: string, x: number, y: number, size: number, options: { bold?: boolean; color?: RGB } = {}) {
+    this.page.drawText(sanitize(text), {
+      x,
+      y,
+      size,
+      font: options.bold ? this.fonts.bold : this.fonts.regular,
+      color: options.color ?? COLORS.text,
+    });
+  }
+
+  private textWidth(text: string, size: number, bold = false) {
+    return (bold ? this.fonts.bold : this.fonts.regular).widthOfTextAtSize(sanitize(text), size);
+  }
+
+  title(text: string, subtitle: string) {
+    this.drawText(text, MARGIN, this.y - 20, 20, { bold: true });
+    this.drawText(subtitle, MARGIN, this.y - 36, 10, { color: COLORS.muted });
+    this.y -= 50;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 1,
+      color: COLORS.border,
+    });
+    this.y -= 16;
+  }
+
+  heading(text: string) {
+    this.ensureSpace(40);
+    this.drawText(text, MARGIN, this.y - 14, 13, { bold: true, color: COLORS.heading });
+    this.y -= 24;
+  }
+
+  /**
+   * Label/value pairs laid out in a grid of boxed cells
+   */
+  keyValueGrid(rows: Array<[string, string]>, columns: number) {
+    const cellWidth = CONTENT_WIDTH / columns;
+    const cellHeight = 30;
+
+    for (let i = 0; i < rows.length; i += columns) {
+      this.ensureSpace(cellHeight);
+      rows.slice(i, i + columns).forEach(([label, value], column) => {
+        const x = MARGIN + column * cellWidth;
+        this.page.drawRectangle({
+          x: x + 2,
+          y: this.y - cellHeight + 2,
+          width: cellWidth - 4,
+          height: cellHeight - 4,
+          color: COLORS.panel,
+          borderColor: COLORS.border,
+          borderWidth: 0.5,
+        });
+        this.drawText(label, x + 8, this.y - 12, 7, { color: COLORS.muted });
+        this.drawText(value, x + 8, this.y - 23, 10, { bold: true });
+      });
+      this.y -= cellHeight;
+    }
+    this.y -= 10;
+  }
+
+  /**
+   * Label/value pairs as a two-column list with the value right-aligned
+   */
+  keyValueList(rows: Array<[string, string]>, highlight?: (value: string) => RGB | undefined) {
+    rows.forEach(([label, value]) => {
+      this.ensureSpace(18);
+      this.drawText(label, MARGIN, this.y - 12, 10, { color: COLORS.muted });
+      const width = this.textWidth(value, 10, true);
+      this.drawText(value, PAGE_WIDTH - MARGIN - width, this.y - 12, 10, {
+        bold: true,
+        color: highlight?.(value) ?? COLORS.text,
+      });
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y - 17 },
+        end: { x: PAGE_WIDTH - MARGIN, y: this.y - 17 },
+        thickness: 0.5,
+        color: COLORS.grid,
+      });
+      this.y -= 18;
+    });
+    this.y -= 10;
+  }
+
+  paragraph(text: string, size = 10) {
+    const words = sanitize(text).split(/\s+/);
+    let line = "";
+    const lines: string[] = [];
+    words.forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (this.textWidth(candidate, size) > CONTENT_WIDTH && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    if (line) lines.push(line);
+
+    lines.forEach((l) => {
+      this.ensureSpace(size + 4);
+      this.drawText(l, MARGIN, this.y - size, size);
+      this.y -= size + 4;
+    });
+    this.y -= 6;
+  }
+
+  /**
+   * Draw a chart frame with horizontal grid lines and y-axis ticks, returning the value-to-point mappers
+   */
+  private chartFrame(title: string, xDomain: [number, number], yDomain: [number, number], yLabel: string) {
+    this.ensureSpace(CHART_HEIGHT + 30);
+    this.drawText(title, MARGIN, this.y - 12, 11, { bold: true });
+    this.y -= 20;
+
+    const plot = {
+      left: MARGIN + 50,
+      right: PAGE_WIDTH - MARGIN - 50,
+      top: this.y - 6,
+      bottom: this.y - CHART_HEIGHT + 20,
+    };
+    const [xMin, xMax] = xDomain;
+    const [yMin, yMax] = yDomain;
+    const toX = (value: number) =>
+      plot.left + ((value - xMin) / (xMax - xMin || 1)) * (plot.right - plot.left);
+    const toY = (value: number) =>
+      plot.bottom + ((value - yMin) / (yMax - yMin || 1)) * (plot.top - plot.bottom);
+
+    const ticks = 5;
+    for (let i = 0; i <= ticks; i++) {
+      const value = yMin + ((yMax - yMin) * i) / ticks;
+      const y = toY(value);
+      this.page.drawLine({
+        start: { x: plot.left, y },
+        end: { x: plot.right, y },
+        thickness: 0.5,
+        color: COLORS.grid,
+      });
+      const label = formatTick(value, yMax - yMin);
+      this.drawText(label, plot.left - 4 - this.textWidth(label, 7), y - 2, 7, { color: COLORS.muted });
+    }
+    this.page.drawRectangle({
+      x: plot.left,
+      y: plot.bottom,
+      width: plot.right - plot.left,
+      height: plot.top - plot.bottom,
+      borderColor: COLORS.border,
+      borderWidth: 0.75,
+    });
+    this.page.drawText(sanitize(yLabel), {
+      x: MARGIN + 8,
+      y: plot.bottom + (plot.top - plot.bottom) / 2 - this.textWidth(yLabel, 8) / 2,
+      size: 8,
+      font: this.fonts.regular,
+      color: COLORS.muted,
+      rotate: degrees(90),
+    });
+
+    this.y -= CHART_HEIGHT;
+    return { plot, toX, toY };
+  }
+
+  private referenceLine(
+    plot: { left: number; right: number },
+    toX: (value: number) => number,
+    toY: (value: number) => number,
+    line: ReferenceLine
+  ) {
+    const y = toY(line.value);
+    const [left, right] = line.span ? line.span.map(toX) : [plot.left, plot.right];
+    this.page.drawLine({
+      start: { x: left, y },
+      end: { x: right, y },
+      thickness: 0.75,
+      color: line.color,
+      dashArray: line.dashed ? [3, 3] : undefined,
+    });
+    if (line.span) {
+      if (line.label) this.drawText(line.label, left + 2, y + 2, 6, { color: line.color });
+    } else {
+      this.drawText(line.label, plot.right + 4, y - 2, 7, { color: line.color });
+    }
+  }
+
+  /**
+   * Control chart: the series as a polyline with markers, plus horizontal reference lines
+   */
+  lineChart(
+    title: string,
+    points: ChartPoint[],
+    referenceLines: ReferenceLine[],
+    options: {
+      yLabel: string;
+      color: RGB;
+      flagged?: Set<number>;
+      excluded?: Set<number>;
+      xDomain?: [number, number];
+      curves?: PlotCurve[]; // Limits that change from point to point, labelled at their last point
+    }
+  ) {
+    if (points.length === 0) return;
+
+    const curves = options.curves ?? [];
+    const values = [
+      ...points.map((p) => p.y),
+      ...referenceLines.map((l) => l.value),
+      ...curves.flatMap((curve) => curve.points.map((p) => p.y)),
+    ];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const pad = (max - min) * 0.08 || Math.abs(max) * 0.01 || 1;
+    const xs = points.map((p) => p.x);
+    const { plot, toX, toY } = this.chartFrame(
+      title,
+      options.xDomain ?? [Math.min(...xs), Math.max(...xs)],
+      [min - pad, max + pad],
+      options.yLabel
+    );
+
+    referenceLines.forEach((line) => this.referenceLine(plot, toX, toY, line));
+    curves.forEach((curve) => {
+      curve.points.forEach((point, i) => {
+        if (i === 0) return;
+        this.page.drawLine({
+          start: { x: toX(curve.points[i - 1].x), y: toY(curve.points[i - 1].y) },
+          end: { x: toX(point.x), y: toY(point.y) },
+          thickness: 0.75,
+          color: curve.color,
+          dashArray: curve.dashed ? [3, 3] : undefined,
+        });
+      });
+      curve.points.forEach((point, i) => {
+        if (!curve.flagged) return;
+        this.page.drawCircle({
+          x: toX(point.x),
+          y: toY(point.y),
+          size: curve.flagged.has(i) ? 2.6 : 1.6,
+          color: options.excluded?.has(i) ? COLORS.excluded : curve.flagged.has(i) ? COLORS.limit : curve.color,
+        });
+      });
+      const last = curve.points[curve.points.length - 1];
+      if (last) this.drawText(curve.label, plot.right + 4, toY(last.y) - 2, 7, { color: curve.color });
+    });
+
+    points.forEach((point, i) => {
+      if (i > 0) {
+        this.page.drawLine({
+          start: { x: toX(points[i - 1].x), y: toY(points[i - 1].y) },
+          end: { x: toX(point.x), y: toY(point.y) },
+          thickness: 1,
+          color: options.color,
+        });
+      }
+    });
+    points.forEach((point, i) => {
+      const isFlagged = options.flagged?.has(i);
+      this.page.drawCircle({
+        x: toX(point.x),
+        y: toY(point.y),
+        size: isFlagged ? 2.6 : 1.6,
+        color: options.excluded?.has(i) ? COLORS.excluded : isFlagged ? COLORS.limit : options.color,
+      });
+    });
+
+    // X-axis: label roughly ten samples
+    const step = Math.max(1, Math.ceil(points.length / 10));
+    points.forEach((point, i) => {
+      if (i % step !== 0 && i !== points.length - 1) return;
+      const label = String(point.x);
+      this.drawText(label, toX(point.x) - this.textWidth(label, 7) / 2, plot.bottom - 10, 7, {
+        color: COLORS.muted,
+      });
+    });
+    this.y -= 6;
+  }
+
+  /**
+   * Histogram: bars between bin edges, plus vertical specification lines and overlaid curves
+   */
+  histogram(
+    title: string,
+    counts: number[],
+    binEdges: number[],
+    verticalLines: ReferenceLine[],
+    curves: PlotCurve[] = []
+  ) {
+    if (counts.length === 0 || binEdges.length !== counts.length + 1) return;
+
+    const curvePoints = curves.flatMap((curve) => curve.points);
+    const xValues = [...binEdges, ...verticalLines.map((l) => l.value), ...curvePoints.map((p) => p.x)];
+    const xMin = Math.min(...xValues);
+    const xMax = Math.max(...xValues);
+    const xPad = (xMax - xMin) * 0.04;
+    const { plot, toX, toY } = this.chartFrame(
+      title,
+      [xMin - xPad, xMax + xPad],
+      [0, Math.max(...counts, ...curvePoints.map((p) => p.y), 1) * 1.1],
+      "Frequency"
+    );
+
+    counts.forEach((count, i) => {
+      if (count === 0) return;
+      this.page.drawRectangle({
+        x: toX(binEdges[i]),
+        y: plot.bottom,
+        width: toX(binEdges[i + 1]) - toX(binEdges[i]),
+        height: toY(count) - plot.bottom,
+        color: COLORS.series,
+        borderColor: rgb(1, 1, 1),
+        borderWidth: 0.5,
+      });
+    });
+
+    curves.forEach((curve, c) => {
+      curve.points.forEach((point, i) => {
+        if (i === 0) return;
+        this.page.drawLine({
+          start: { x: toX(curve.points[i - 1].x), y: toY(curve.points[i - 1].y) },
+          end: { x: toX(point.x), y: toY(point.y) },
+          thickness: 1,
+          color: curve.color,
+          dashArray: curve.dashed ? [4, 2] : undefined,
+        });
+      });
+      this.drawText(curve.label, plot.right + 4, plot.top - 8 - c * 10, 7, { color: curve.color });
+    });
+
+    verticalLines.forEach((line) => {
+      const x = toX(line.value);
+      this.page.drawLine({
+        start: { x, y: plot.bottom },
+        end: { x, y: plot.top },
+        thickness: 1,
+        color: line.color,
+        dashArray: line.dashed ? [3, 3] : undefined,
+      });
+      this.drawText(line.label, x - this.textWidth(line.label, 7) / 2, plot.top + 3, 7, { color: line.color });
+    });
+
+    const span = xMax - xMin;
+    [binEdges[0], binEdges[binEdges.length - 1]].forEach((edge) => {
+      const label = formatTick(edge, span);
+      this.drawText(label, toX(edge) - this.textWidth(label, 7) / 2, plot.bottom - 10, 7, {
+        color: COLORS.muted,
+      });
+    });
+    this.y -= 6;
+  }
+
+  /**
+   * Stamp page numbers and the generation time on every page
+   */
+  footer(generatedAt: string) {
+    const pages = this.doc.getPages();
+    pages.forEach((page, i) => {
+      const text = `Generated ${generatedAt}  -  Page ${i + 1} of ${pages.length}`;
+      page.drawText(sanitize(text), {
+        x: PAGE_WIDTH - MARGIN - this.textWidth(text, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font: this.fonts.regular,
+        color: COLORS.muted,
+      });
+    });
+  }
+}
+
+// Sample numbers of a violation, shortened so they fit beside the rule description
+function formatSamples(indices: number[]): string {
+  const samples = indices.map((i) => i + 1);
+  return samples.length > 6
+    ? `Samples ${samples[0]}-${samples[samples.length - 1]} (${samples.length})`
+    : `Samples ${samples.join(", ")}`;
+}
+
+function statusColor(value: string): RGB | undefined {
+  const normalized = value.toLowerCase();
+  if (normalized.includes("yes") || normalized.includes("detected") || normalized.includes("impossible")) {
+    return normalized === "not detected" ? COLORS.target : COLORS.limit;
+  }
+  if (normalized === "no" || normalized === "none") return COLORS.target;
+  return undefined;
+}
+
+/**
+ * Build the SPC analysis report as a PDF document
+ * @param request - Analysis results and the parameters they were produced for
+ * @returns PDF file contents
+ */
+export async function buildSpcReport({ analysisData, parameters }: ReportRequest): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`SPC Analysis - ${sanitize(parameters.material)}`);
+  doc.setSubject("Statistical Process Control analysis report");
+  doc.setProducer("SPC Data Visualizer");
+
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+  const generatedAt = new Date().toISOString().replace("T", " ").slice(0, 16) + " UTC";
+  const { metrics, controlCharts, distribution, ssAnalysis, processInterpretation } = analysisData;
+  const writer = new ReportWriter(doc, fonts);
+  const runLabels = runCheckLabels(analysisData.ruleSet, controlCharts.chartType);
+
+  writer.title("SPC Analysis Report", "Statistical Process Control");
+
+  writer.heading("Analysis Parameters");
+  writer.keyValueList([
+    ["Part", parameters.material],
+    ["Operation", parameters.operation],
+    ["Gauge", parameters.gauge],
+    ["Date Range", `${parameters.startDate} - ${parameters.endDate}`],
+    ["Shifts", parameters.shifts?.length ? parameters.shifts.join(", ") : "All"],
+    ["Chart Type", CHART_TYPES[controlCharts.chartType].label],
+    [controlCharts.chartType === "i-mr" ? "Reading Order" : "Subgroups", subgroupingLabel(analysisData.subgrouping)],
+    ["Control Limits", limitSourceLabel(controlCharts.limitSource)],
+    ...(analysisData.stages
+      ? [["Stages", analysisData.stages.map(({ stage }) => stage).join(", ")] as [string, string]]
+      : []),
+    ["Run Rules", analysisData.ruleSet.name],
+  ]);
+
+  if (analysisData.specChange) {
+    writer.heading("Specification Changes");
+    writer.paragraph(analysisData.specChange.notice);
+    writer.keyValueList(
+      analysisData.specChange.revisions.map((revision) => {
+        const { capability } = revision;
+        const indices = capability
+          ? ([["Cp", capability.cp], ["Cpk", capability.cpk], ["Pp", capability.pp], ["Ppk", capability.ppk]] as const)
+              .filter(([, value]) => value !== undefined)
+              .map(([label, value]) => `${label} ${value}`)
+              .join(", ")
+          : "too few readings for capability";
+        const dates = revision.startDate ? `, ${revision.startDate} - ${revision.endDate}` : "";
+        return [
+          specLimitsLabel(revision.lsl, revision.usl) + (revision.latest ? " (latest)" : ""),
+          `${revision.count} readings${dates}; ${indices}`,
+        ];
+      })
+    );
+  }
+
+  writer.heading("Process Metrics");
+  writer.keyValueGrid(
+    [
+      ["X-Bar", metrics.xBar],
+      ["Std Dev Overall", metrics.stdDevOverall],
+      ["Std Dev Within", metrics.stdDevWithin],
+      metrics.avgStdDev !== undefined
+        ? ["Avg Std Dev", metrics.avgStdDev]
+        : [controlCharts.chartType === "i-mr" ? "Avg Moving Range" : "Avg Range", metrics.avgRange],
+      ["Cp", metrics.cp],
+      ["Cpu", metrics.cpu],
+      ["Cpl", metrics.cpl],
+      ["Cpk", metrics.cpk],
+      ["Pp", metrics.pp],
+      ["Ppu", metrics.ppu],
+      ["Ppl", metrics.ppl],
+      ["Ppk", metrics.ppk],
+      ["Cpm", metrics.cpm],
+      ["Cpkm", metrics.cpkm],
+      ["LSL", metrics.lsl],
+      ["USL", metrics.usl],
+      ["Target", metrics.target],
+      ["Target Source", metrics.targetSource && TARGET_SOURCE_LABELS[metrics.targetSource]],
+    ]
+      // One-sided specifications have no Cp, Pp or Cpm and only one limit
+      .filter(([, value]) => value !== undefined)
+      .map(([label, value]) => [String(label), String(value)]),
+    5
+  );
+
+  const { confidence } = metrics;
+  const indices = ([
+    ["Cp", "cp"], ["Cpu", "cpu"], ["Cpl", "cpl"], ["Cpk", "cpk"],
+    ["Pp", "pp"], ["Ppu", "ppu"], ["Ppl", "ppl"], ["Ppk", "ppk"],
+  ] as Array<[string, CapabilityIndex]>).flatMap(([label, index]) => {
+    const interval = confidence.intervals[index];
+    return interval ? [{ label, index, interval }] : [];
+  });
+  writer.heading(`Confidence Intervals (${Math.round(confidence.level * 100)}%)`);
+  writer.keyValueGrid(
+    indices.map(({ label, interval }) => [label, `${interval.lower} to ${interval.upper}`]),
+    4
+  );
+  const belowMinimum = indices.filter(({ index }) => belowMinimumCpk(confidence, index));
+  writer.paragraph(
+    belowMinimum.length
+      ? `Lower bound of ${belowMinimum.map(({ label }) => label).join(" and ")} is below the minimum Cpk of ${confidence.minimumCpk}.`
+      : `Lower bounds of Cpk and Ppk meet the minimum Cpk of ${confidence.minimumCpk}.`
+  );
+
+  writer.heading("Out of Specification");
+  writer.keyValueGrid(
+    ([
+      ["Observed", metrics.ppm.observed],
+      ["Expected Within", metrics.ppm.expectedWithin],
+      ["Expected Overall", metrics.ppm.expectedOverall],
+    ] as const).flatMap(([label, ppm]): Array<[string, string]> => [
+      [`${label} PPM < LSL`, metrics.lsl !== undefined ? String(ppm.belowLsl) : "-"],
+      [`${label} PPM > USL`, metrics.usl !== undefined ? String(ppm.aboveUsl) : "-"],
+      [`${label} PPM Total`, String(ppm.total)],
+      [`${label} % Out of Spec`, (ppm.total / 10_000).toFixed(4)],
+    ]),
+    4
+  );
+  writer.keyValueGrid(
+    ([
+      ["Within", metrics.sigmaLevel.within],
+      ["Overall", metrics.sigmaLevel.overall],
+    ] as const).flatMap(([label, sigma]): Array<[string, string]> => [
+      [`Z.LSL (${label})`, String(sigma.zLsl ?? "-")],
+      [`Z.USL (${label})`, String(sigma.zUsl ?? "-")],
+      [`Z.Bench (${label})`, String(sigma.zBench)],
+    ]),
+    3
+  );
+
+  const { capability } = analysisData;
+  writer.heading("Capability Model");
+  writer.keyValueGrid(
+    [
+      ["Distribution", capability.selected.label],
+      ["AD p-value", formatPValue(capability.selected)],
+      ["0.135th Percentile", String(capability.pLower)],
+      ["Median", String(capability.median)],
+      ["99.865th Percentile", String(capability.pUpper)],
+      ["Pp (Percentile)", capability.pp],
+      ["Ppu (Percentile)", capability.ppu],
+      ["Ppl (Percentile)", capability.ppl],
+      ["Ppk (Percentile)", capability.ppk],
+    ]
+      .filter(([, value]) => value !== undefined)
+      .map(([label, value]) => [String(label), String(value)]),
+    5
+  );
+
+  writer.heading("Decision Remark");
+  writer.paragraph(processInterpretation.decisionRemark, 12);
+
+  writer.newPage();
+  writer.heading("Control Charts");
+  const panelColors: Partial<Record<ChartKind, RGB>> = { xBar: COLORS.series, ewma: COLORS.ewma, cusum: COLORS.cusum };
+  controlChartPanels(controlCharts).forEach((panel) => {
+    writer.lineChart(
+      panel.title,
+      panel.data,
+      panel.limitCurves
+        ? []
+        : panel.segments
+        ? panel.segments.flatMap(({ label, sizeLabel, from, to, ucl, center, lcl }): ReferenceLine[] => [
+            { value: ucl, label: sizeLabel ?? "", color: COLORS.limit, dashed: true, span: [from, to] },
+            { value: center, label: label ?? "", color: COLORS.center, span: [from, to] },
+            { value: lcl, label: "", color: COLORS.limit, dashed: true, span: [from, to] },
+          ])
+        : [
+            { value: panel.ucl, label: "UCL", color: COLORS.limit, dashed: true },
+            { value: panel.center, label: panel.centerLabel, color: COLORS.center },
+            { value: panel.lcl, label: "LCL", color: COLORS.limit, dashed: true },
+          ],
+      {
+        yLabel: panel.yLabel,
+        color: panelColors[panel.kind] ?? COLORS.range,
+        flagged: panel.flagged ?? flaggedIndices(analysisData.ruleViolations, panel.kind),
+        excluded: panel.excluded,
+        xDomain: panel.xDomain,
+        curves: panel.limitCurves
+          ? [
+              { label: "UCL", points: panel.limitCurves.ucl, color: COLORS.limit, dashed: true },
+              { label: panel.centerLabel, points: panel.limitCurves.center, color: COLORS.center },
+              { label: "LCL", points: panel.limitCurves.lcl, color: COLORS.limit, dashed: true },
+            ]
+          : panel.lower && [
+              {
+                label: panel.lower.name,
+                points: panel.lower.data,
+                color: panelColors[panel.kind] ?? COLORS.range,
+                dashed: true,
+                flagged: panel.lower.flagged,
+              },
+            ],
+      }
+    );
+  });
+
+  if (analysisData.stages) {
+    writer.heading("Capability by Stage");
+    writer.keyValueList(
+      analysisData.stages.map((stage) => [
+        stage.stage,
+        [
+          `${stage.readings} readings`,
+          `X-Bar ${stage.xBar}`,
+          ...([["Cp", stage.cp], ["Cpk", stage.cpk], ["Pp", stage.pp], ["Ppk", stage.ppk]] as const)
+            .filter(([, value]) => value !== undefined)
+            .map(([label, value]) => `${label} ${value}`),
+        ].join(", "),
+      ])
+    );
+  }
+
+  if (controlCharts.cusum?.signals.length) {
+    writer.heading("CUSUM Signals");
+    writer.paragraph("Each shift dated back to the sample where the sum last left zero, with the mean since then.");
+    writer.keyValueList(
+      controlCharts.cusum.signals.map(({ side, sample, changePoint, changeDate, mean }) => [
+        `${side === "upper" ? "Upward" : "Downward"} shift signalled at sample ${sample}`,
+        `From sample ${changePoint}${changeDate ? ` (${changeDate})` : ""}, new mean ${mean}`,
+      ])
+    );
+  }
+
+  if (analysisData.exclusions.length) {
+    writer.heading("Excluded Points");
+    writer.paragraph("Left out of the control limits, indices and run rules; drawn in grey on the charts.");
+    writer.keyValueList(
+      analysisData.exclusions.map(({ sample, reason, excludedAt }) => [
+        `Sample ${sample} (${controlCharts.xBarData[sample - 1].y.toFixed(4)})`,
+        `${reason} - ${excludedAt.replace("T", " ").slice(0, 16)} UTC`,
+      ])
+    );
+  }
+
+  writer.heading("Run Rule Violations");
+  if (analysisData.ruleViolations.length === 0) {
+    writer.paragraph(`No run rule violations detected (${analysisData.ruleSet.name}).`);
+  } else {
+    writer.keyValueList(
+      analysisData.ruleViolations.map((violation) => [
+        `${chartTitle(violation.chart, controlCharts.chartType)} - Rule ${violation.ruleId}: ${violation.description}`,
+        formatSamples(violation.indices),
+      ])
+    );
+  }
+
+  writer.newPage();
+  writer.heading("Distribution");
+  writer.histogram(
+    "Histogram",
+    distribution.data.map((bin) => bin.y),
+    distribution.stats.binEdges,
+    [
+      { value: metrics.lsl, label: "LSL", color: COLORS.limit },
+      { value: metrics.usl, label: "USL", color: COLORS.limit },
+      { value: distribution.stats.target, label: "Target", color: COLORS.target, dashed: true },
+    ].filter((line): line is ReferenceLine => line.value !== undefined),
+    [
+      {
+        label: "Within",
+        points: distribution.curve.map(({ x, within }) => ({ x, y: within })),
+        color: COLORS.within,
+      },
+      {
+        label: "Overall",
+        points: distribution.curve.map(({ x, overall }) => ({ x, y: overall })),
+        color: COLORS.overall,
+        dashed: true,
+      },
+    ]
+  );
+  writer.paragraph(
+    `${distribution.data.length} bins of width ${distribution.stats.binWidth}, ` +
+      `edges ${distribution.stats.binEdges[0]} to ${distribution.stats.binEdges[distribution.stats.binEdges.length - 1]}.`,
+    9
+  );
+
+  writer.heading(analysisData.normality.rejected ? "Normality Tests - Normality Rejected" : "Normality Tests");
+  writer.keyValueList(
+    analysisData.normality.tests.map((test) => [
+      test.label,
+      `${test.statistic.toFixed(3)} (${pValueLabel(test)})`,
+    ])
+  );
+
+  writer.heading("3S Analysis");
+  writer.keyValueList(
+    [
+      ["Process Shift", ssAnalysis.processShift],
+      ["Process Spread", ssAnalysis.processSpread],
+      ["Special Cause Present", ssAnalysis.specialCausePresent],
+      ["Points Outside Limits", ssAnalysis.pointsOutsideLimits],
+      [runLabels.rangePointsOutsideLimits, ssAnalysis.rangePointsOutsideLimits],
+      [runLabels.consecutivePointsRun, ssAnalysis.consecutivePointsRun],
+      [runLabels.consecutiveTrend, ssAnalysis.consecutiveTrend],
+    ],
+    statusColor
+  );
+
+  writer.heading("Process Interpretation");
+  writer.keyValueList([
+    ["Decision Remark", processInterpretation.decisionRemark],
+    ["Process Potential", processInterpretation.processPotential],
+    ["Process Performance", processInterpretation.processPerformance],
+    ["Process Stability", processInterpretation.processStability],
+    ["Process Shift", processInterpretation.processShift],
+    ["Long-term Centering", processInterpretation.longTermCentered],
+  ]);
+
+  writer.footer(generatedAt);
+  return doc.save();
+}
@@ -0,0 +1,252 @@
+import {
+  AttributeAnalysisData, AttributeChartType, AttributeGrouping, AttributePoint, InspectionData, RuleSetProfile
+} from "@/types";
+import { evaluateRules } from "./rules";
+import { BUILT_IN_RULE_SETS, DEFAULT_RULE_SET_ID, ruleDefinitions } from "./ruleSets";
+import { round } from "./statistics";
+import { parseLimit } from "./engine";
+import { ATTRIBUTE_CHART_TYPES } from "./charts";
+import { toDay } from "./dates";
+
+export interface AttributeOptions {
+  chartType?: AttributeChartType;
+  grouping?: AttributeGrouping;
+  // Results per subgroup when grouping consecutive results
+  sampleSize?: number;
+  ruleSet?: RuleSetProfile;
+}
+
+// One inspected unit or lot, as read from an inspection row
+interface AttributeResult {
+  date?: string;
+  inspected: number;
+  defectives?: number; // Unknown for a lot that reports only its defects
+  defects: number;
+}
+
+interface AttributeSubgroup extends AttributeResult {
+  label: string;
+  defectives: number;
+}
+
+const PASS_RESULTS = /^(ok|pass(ed)?|go|accept(ed)?|good)$/i;
+const FAIL_RESULTS = /^(nok|not ok|ng|no[ -]?go|fail(ed)?|reject(ed)?|bad)$/i;
+
+function toCount(value: string | number | undefined): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const count = Number(value);
+  return Number.isFinite(count) && count >= 0 ? count : null;
+}
+
+/**
+ * Read pass/fail results from inspection rows. Rows with counts are taken as lots, whose defectives stay unknown
+ * when only a DefectCount is given; otherwise each row is one unit, failed when its result reads NG / NOT OK / FAIL,
+ * or when a numeric reading falls outside the specification. Rows that fit none of these are skipped.
+ * @param inspectionData - Raw inspection data from API
+ */
+export function parseAttributeResults(inspectionData: InspectionData[]): AttributeResult[] {
+  const results: AttributeResult[] = [];
+
+  inspectionData.forEach((row) => {
+    const date = toDay(row.InspectionDate);
+    const inspectedQty = toCount(row.InspectedQty);
+    const defectiveQty = toCount(row.DefectiveQty);
+    const defectCount = toCount(row.DefectCount);
+
+    if (inspectedQty !== null && (defectiveQty !== null || defectCount !== null)) {
+      if (inspectedQty === 0) return;
+      results.push({
+        date,
+        inspected: inspectedQty,
+        defectives: defectiveQty === null ? undefined : Math.min(defectiveQty, inspectedQty),
+        defects: defectCount ?? defectiveQty ?? 0,
+      });
+      return;
+    }
+
+    const result = String(row.ActualSpecification ?? "").trim();
+    let failed: boolean;
+    if (PASS_RESULTS.test(result)) {
+      failed = false;
+    } else if (FAIL_RESULTS.test(result)) {
+      failed = true;
+    } else {
+      const value = parseFloat(result);
+      // A reading checked against a one-sided specification only fails on the limit it has
+      const lsl = parseLimit(row.FromSpecification);
+      const usl = parseLimit(row.ToSpecification);
+      if (isNaN(value) || (lsl === undefined && usl === undefined)) return;
+      failed = (lsl !== undefined && value < lsl) || (usl !== undefined && value > usl);
+    }
+
+    results.push({
+      date,
+      inspected: 1,
+      defectives: failed ? 1 : 0,
+      defects: defectCount ?? (failed ? 1 : 0),
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Group results into subgroups, dropping an incomplete trailing subgroup
+ */
+function groupResults(results: AttributeResult[], grouping: AttributeGrouping, sampleSize: number): AttributeSubgroup[] {
+  const subgroups: AttributeSubgroup[] = [];
+
+  if (grouping === "date") {
+    const byDate = new Map<string, AttributeSubgroup>();
+    results.forEach((result) => {
+      if (!result.date) return;
+      const subgroup = byDate.get(result.date) ?? { label: result.date, inspected: 0, defectives: 0, defects: 0 };
+      subgroup.inspected += result.inspected;
+      subgroup.defectives += result.defectives ?? 0;
+      subgroup.defects += result.defects;
+      byDate.set(result.date, subgroup);
+    });
+    return [...byDate.values()].sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  // Rows that report lot quantities are subgroups already; single units are pooled into subgroups of sampleSize
+  if (results.some((r) => r.inspected > 1)) {
+    return results.map((lot, i) => ({ ...lot, defectives: lot.defectives ?? 0, label: String(i + 1) }));
+  }
+
+  for (let i = 0; i + sampleSize <= results.length; i += sampleSize) {
+    const group = results.slice(i, i + sampleSize);
+    subgroups.push({
+      label: String(subgroups.length + 1),
+      inspected: sampleSize,
+      defectives: group.reduce((sum, r) => sum + (r.defectives ?? 0), 0),
+      defects: group.reduce((sum, r) => sum + r.defects, 0),
+    });
+  }
+  return subgroups;
+}
+
+/**
+ * Calculate an attribute control chart (p, np, c or u) from go/no-go inspection results.
+ * Limits are 3-sigma binomial (p, np) or Poisson (c, u) limits, per subgroup when the sizes differ,
+ * and the run rules are evaluated on the standardised points so that stepped limits are handled.
+ * @param inspectionData - Raw inspection data from API
+ * @param options - Chart type, subgrouping and run rule set
+ * @returns Attribute analysis data or throws error if invalid
+ */
+export function calculateAttributeAnalysis(
+  inspectionData: InspectionData[],
+  {
+    chartType = "p",
+    grouping = "subgroup",
+    sampleSize = 50,
+    ruleSet = BUILT_IN_RULE_SETS.find((p) => p.id === DEFAULT_RULE_SET_ID)!,
+  }: AttributeOptions = {}
+): AttributeAnalysisData {
+  if (grouping === "subgroup" && !(Number.isInteger(sampleSize) && sampleSize >= 1)) {
+    throw new Error("Subgroup size must be a whole number of at least 1");
+  }
+
+  const results = parseAttributeResults(inspectionData);
+  if (results.length === 0) {
+    throw new Error("No pass/fail results found for the selected gauge");
+  }
+  // Defects say nothing about how many units were defective, so such lots can only go on c and u charts
+  const defectsOnly = results.filter((r) => r.defectives === undefined).length;
+  if ((chartType === "p" || chartType === "np") && defectsOnly > 0) {
+    throw new Error(
+      `${defectsOnly} ${defectsOnly === 1 ? "lot reports" : "lots report"} a DefectCount without a DefectiveQty; ` +
+        `${ATTRIBUTE_CHART_TYPES[chartType].label}s need DefectiveQty, use a c or u chart instead`
+    );
+  }
+  if (grouping === "date" && !results.some((r) => r.date)) {
+    throw new Error("Inspection dates are not available, group results by subgroup size instead");
+  }
+
+  const subgroups = groupResults(results, grouping, sampleSize);
+  if (subgroups.length < 2) {
+    throw new Error("Insufficient data: at least 2 complete subgroups are needed");
+  }
+
+  const sizes = subgroups.map((s) => s.inspected);
+  const constantSize = sizes.every((n) => n === sizes[0]);
+  if ((chartType === "np" || chartType === "c") && !constantSize) {
+    throw new Error(
+      `${ATTRIBUTE_CHART_TYPES[chartType].label}s need a constant subgroup size, use a ${chartType === "np" ? "p" : "u"} chart instead`
+    );
+  }
+
+  const inspected = sizes.reduce((sum, n) => sum + n, 0);
+  const defectives = subgroups.reduce((sum, s) => sum + s.defectives, 0);
+  const defects = subgroups.reduce((sum, s) => sum + s.defects, 0);
+  const averageSampleSize = inspected / subgroups.length;
+  const pBar = defectives / inspected;
+  const uBar = defects / inspected;
+
+  // Center line and 3-sigma limits for each subgroup
+  const center = {
+    p: pBar,
+    np: pBar * averageSampleSize,
+    c: defects / subgroups.length,
+    u: uBar,
+  }[chartType];
+
+  const sigmas: number[] = [];
+  const points: AttributePoint[] = subgroups.map((subgroup, i) => {
+    const n = subgroup.inspected;
+    const count = chartType === "p" || chartType === "np" ? subgroup.defectives : subgroup.defects;
+    const y = chartType === "p" || chartType === "u" ? count / n : count;
+    const sigma = {
+      p: Math.sqrt((pBar * (1 - pBar)) / n),
+      np: Math.sqrt(n * pBar * (1 - pBar)),
+      c: Math.sqrt(center),
+      u: Math.sqrt(uBar / n),
+    }[chartType];
+    const ucl = center + 3 * sigma;
+    sigmas.push(sigma);
+
+    return {
+      x: i + 1,
+      y,
+      label: subgroup.label,
+      sampleSize: n,
+      count,
+      ucl: chartType === "p" ? Math.min(ucl, 1) : ucl,
+      lcl: Math.max(0, center - 3 * sigma),
+    };
+  });
+
+  // Standardise against each point's own sigma so the zone rules work with stepped limits.
+  // A floored LCL of 0 cannot be crossed, and a standardised point can only pass -3 when the LCL is above 0.
+  const standardized = points.map((point, i) => (sigmas[i] > 0 ? (point.y - center) / sigmas[i] : 0));
+  const ruleViolations = evaluateRules(
+    "attribute",
+    { values: standardized, center: 0, ucl: 3, lcl: -3 },
+    ruleDefinitions(ruleSet)
+  );
+
+  return {
+    chartType,
+    grouping,
+    points: points.map((point) => ({
+      ...point,
+      y: round(point.y, 6),
+      ucl: round(point.ucl, 6),
+      lcl: round(point.lcl, 6),
+    })),
+    metrics: {
+      subgroups: subgroups.length,
+      inspected,
+      defectives,
+      defects,
+      averageSampleSize: round(averageSampleSize, 2),
+      center: round(center, 6),
+      ...(defectsOnly === 0 ? { percentDefective: round(pBar * 100, 3) } : {}),
+      ppm: Math.round((chartType === "c" || chartType === "u" ? uBar : pBar) * 1_000_000),
+    },
+    constantLimits: constantSize,
+    processStability: ruleViolations.length === 0 ? "Stable" : "Unstable",
+    ruleViolations,
+    ruleSet,
+  };
+}
@@ -0,0 +1,63 @@
+import { AnalysisData, CapabilityRating, Gauge, GaugeCapability } from "@/types";
+
+// Below this Cpk a characteristic is not capable whatever the customer minimum
+const NOT_CAPABLE_CPK = 1;
+
+export const CAPABILITY_RATINGS: Record<CapabilityRating, { label: string; description: string }> = {
+  green: { label: "Capable", description: "Cpk at or above the minimum" },
+  amber: { label: "Marginal", description: "Cpk from 1.00 up to the minimum" },
+  red: { label: "Not Capable", description: "Cpk below 1.00" },
+};
+
+export type CapabilitySortKey = Exclude<keyof GaugeCapability, "gaugeCode" | "rating" | "error">;
+
+/**
+ * Red/amber/green rating of a Cpk
+ * @param cpk - Cpk of the characteristic
+ * @param minimumCpk - Customer minimum, e.g. 1.33
+ */
+export function capabilityRating(cpk: number, minimumCpk: number): CapabilityRating {
+  if (cpk < NOT_CAPABLE_CPK) return "red";
+  return cpk < minimumCpk ? "amber" : "green";
+}
+
+/**
+ * One row of the batch capability summary from a gauge's analysis
+ * @param gauge - Analysed gauge
+ * @param analysisData - Engine result for the gauge
+ */
+export function summarizeGaugeCapability(gauge: Gauge, analysisData: AnalysisData): GaugeCapability {
+  const { metrics, processInterpretation } = analysisData;
+  return {
+    gaugeCode: gauge.GuageCode,
+    gaugeName: gauge.GuageName,
+    readings: metrics.readings,
+    xBar: metrics.xBar,
+    cp: metrics.cp,
+    cpk: metrics.cpk,
+    pp: metrics.pp,
+    ppk: metrics.ppk,
+    ppm: Math.round(metrics.ppm.expectedOverall.total),
+    stability: processInterpretation.processStability,
+    rating: capabilityRating(metrics.cpk, metrics.confidence.minimumCpk),
+  };
+}
+
+/**
+ * Sort the batch summary by a column; gauges without the value, such as those that failed, stay at the end
+ * @param rows - Summary rows
+ * @param key - Column to sort by
+ * @param direction - Ascending or descending
+ */
+export function sortGaugeCapabilities(
+  rows: GaugeCapability[],
+  key: CapabilitySortKey,
+  direction: "asc" | "desc"
+): GaugeCapability[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const [x, y] = [a[key], b[key]];
+    if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+    return sign * (typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y)));
+  });
+}
@@ -0,0 +1,56 @@
+import { Characteristic, CharacteristicConfig, TargetSource } from "@/types";
+
+/**
+ * Find the characteristic master entry for a material/operation/gauge
+ * @param config - Stored characteristic master
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ * @param gaugeCode - Selected gauge
+ */
+export function resolveCharacteristic(
+  config: CharacteristicConfig,
+  materialCode?: string,
+  operationCode?: string,
+  gaugeCode?: string
+): Characteristic | undefined {
+  return config.characteristics.find(
+    (c) => c.materialCode === materialCode && c.operationCode === operationCode && c.gaugeCode === gaugeCode
+  );
+}
+
+/**
+ * Check a characteristic master before it is stored
+ * @param config - Master to validate
+ * @returns Problems found, empty when the master is valid
+ */
+export function validateCharacteristicConfig(config: CharacteristicConfig): string[] {
+  if (!Array.isArray(config?.characteristics)) {
+    return ["characteristics must be an array"];
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  config.characteristics.forEach((c) => {
+    if (!c.materialCode || !c.operationCode || !c.gaugeCode) {
+      errors.push("Every characteristic needs a material, operation and gauge code");
+      return;
+    }
+    if (typeof c.nominal !== "number" || !isFinite(c.nominal)) {
+      errors.push(`${c.materialCode} / ${c.operationCode} / ${c.gaugeCode}: nominal must be a number`);
+    }
+    const key = [c.materialCode, c.operationCode, c.gaugeCode].join("|");
+    if (keys.has(key)) {
+      errors.push(`${c.materialCode} / ${c.operationCode} / ${c.gaugeCode} is listed more than once`);
+    }
+    keys.add(key);
+  });
+
+  return errors;
+}
+
+// Shown next to the target so an assumed midpoint is not mistaken for the drawing nominal
+export const TARGET_SOURCE_LABELS: Record<TargetSource, string> = {
+  master: "Characteristic master",
+  "inspection-data": "Inspection data",
+  midpoint: "Tolerance midpoint",
+};
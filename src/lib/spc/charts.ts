@@ -0,0 +1,206 @@
+import { AttributeChartType, ChartKind, ChartPoint, ChartType, ControlChartLimits, ControlCharts } from "@/types";
+import { ewmaSignalDescription } from "./ewma";
+import { cusumSignalDescription } from "./cusum";
+
+export const CHART_TYPES: Record<ChartType, { label: string; description: string }> = {
+  "xbar-r": { label: "X-Bar & R", description: "Subgroup means with subgroup ranges" },
+  "xbar-s": { label: "X-Bar & S", description: "Subgroup means with subgroup standard deviations, for subgroups above about 10" },
+  "i-mr": { label: "I-MR", description: "Individual readings with moving ranges, for one reading per sample" },
+};
+
+export const ATTRIBUTE_CHART_TYPES: Record<AttributeChartType, { label: string; description: string }> = {
+  p: { label: "p Chart", description: "Fraction defective, subgroup sizes may vary" },
+  np: { label: "np Chart", description: "Number defective, constant subgroup size" },
+  c: { label: "c Chart", description: "Defects per subgroup, constant subgroup size" },
+  u: { label: "u Chart", description: "Defects per unit, subgroup sizes may vary" },
+};
+
+export const CHART_TITLES: Record<ChartKind, string> = {
+  xBar: "X-Bar Chart",
+  range: "Range Chart",
+  stdDev: "S Chart",
+  attribute: "Attribute Chart",
+  ewma: "EWMA Chart",
+  cusum: "CUSUM Chart",
+};
+
+function isAttributeChart(chartType: ChartType | AttributeChartType): chartType is AttributeChartType {
+  return chartType in ATTRIBUTE_CHART_TYPES;
+}
+
+const INDIVIDUALS_TITLES: Partial<Record<ChartKind, string>> = {
+  xBar: "Individuals",
+  range: "Moving Range",
+};
+
+/**
+ * Title of one chart as plotted for a chart type
+ * @param kind - Chart the title is for
+ * @param chartType - Selected variables chart pair or attribute chart
+ */
+export function chartTitle(kind: ChartKind, chartType: ChartType | AttributeChartType): string {
+  if (isAttributeChart(chartType)) return ATTRIBUTE_CHART_TYPES[chartType].label;
+  return (chartType === "i-mr" ? INDIVIDUALS_TITLES[kind] : undefined) ?? CHART_TITLES[kind];
+}
+
+/**
+ * Charts drawn beside the Shewhart charts that raise a single signal of their own instead of the run rules
+ * @param charts - Control chart data from the engine
+ */
+export function signalCharts(charts: ControlCharts): Array<{ chart: ChartKind; description: string }> {
+  return [
+    ...(charts.ewma ? [{ chart: "ewma" as const, description: ewmaSignalDescription(charts.ewma) }] : []),
+    ...(charts.cusum ? [{ chart: "cusum" as const, description: cusumSignalDescription(charts.cusum) }] : []),
+  ];
+}
+
+// One plotted chart with its center line and control limits
+export interface ControlChartPanel {
+  kind: ChartKind;
+  title: string;
+  data: ChartPoint[];
+  ucl: number;
+  center: number;
+  lcl: number;
+  centerLabel: string;
+  yLabel: string;
+  xDomain: [number, number]; // Sample range shared by the charts so their points line up
+  excluded: Set<number>; // Positions in data left out of the analysis
+  segments?: PanelSegment[]; // Staged charts and varying subgroup sizes: limits per run of samples, drawn as steps
+  limitCurves?: { ucl: ChartPoint[]; center: ChartPoint[]; lcl: ChartPoint[] }; // EWMA: limits of every point
+  // CUSUM: flags split by side, with C+ in data and C- drawn below zero as a second series
+  flagged?: Set<number>;
+  lower?: { name: string; data: ChartPoint[]; flagged: Set<number> };
+}
+
+// Charts whose limits come straight from the Shewhart control limits
+type LimitChartKind = "xBar" | "range" | "stdDev";
+
+export interface PanelSegment {
+  label?: string; // Stage name, on the first segment of each stage
+  sizeLabel?: string; // e.g. "n=3", on segments of subgroups short of the sample size
+  from: number; // x extent, half a sample either side of the segment's points
+  to: number;
+  ucl: number;
+  center: number;
+  lcl: number;
+}
+
+function panelLimits(kind: LimitChartKind, limits: ControlChartLimits) {
+  if (kind === "xBar") return { ucl: limits.xBarUcl, center: limits.xBarMean, lcl: limits.xBarLcl };
+  if (kind === "range") return { ucl: limits.rangeUcl, center: limits.rangeMean, lcl: limits.rangeLcl };
+  return { ucl: limits.sUcl ?? 0, center: limits.sMean ?? 0, lcl: limits.sLcl ?? 0 };
+}
+
+/**
+ * Charts plotted for a chart type, in display order
+ * @param chartType - Selected variables chart pair or attribute chart
+ */
+export function chartKinds(chartType: ChartType | AttributeChartType): ChartKind[] {
+  if (isAttributeChart(chartType)) return ["attribute"];
+  return chartType === "xbar-s" ? ["xBar", "stdDev"] : ["xBar", "range"];
+}
+
+/**
+ * Lay out the engine's control chart data as the panels every view draws
+ * @param charts - Control chart data from the engine
+ */
+export function controlChartPanels(charts: ControlCharts): ControlChartPanel[] {
+  const { limits, chartType } = charts;
+  const individuals = chartType === "i-mr";
+  const xDomain: [number, number] = [1, Math.max(1, charts.xBarData.length)];
+  const excludedXBar = new Set(charts.excludedIndices.xBar);
+  const excludedDispersion = new Set(charts.excludedIndices.dispersion);
+  const segments = (kind: LimitChartKind) =>
+    charts.segments?.map(({ stage, subgroupSize, from, to, limits: segmentLimits }, i, all) => ({
+      label: stage !== undefined && stage !== all[i - 1]?.stage ? stage : undefined,
+      sizeLabel: subgroupSize !== undefined && subgroupSize !== charts.subgroupSize ? `n=${subgroupSize}` : undefined,
+      from: Math.max(xDomain[0], from - 0.5),
+      to: Math.min(xDomain[1], to + 0.5),
+      ...panelLimits(kind, segmentLimits),
+    }));
+  const panels: Record<LimitChartKind, ControlChartPanel> = {
+    xBar: {
+      kind: "xBar",
+      title: chartTitle("xBar", chartType),
+      data: charts.xBarData,
+      ...panelLimits("xBar", limits),
+      centerLabel: individuals ? "X" : "X-Bar",
+      yLabel: "Value",
+      xDomain,
+      excluded: excludedXBar,
+      segments: segments("xBar"),
+    },
+    range: {
+      kind: "range",
+      title: chartTitle("range", chartType),
+      data: charts.rangeData,
+      ...panelLimits("range", limits),
+      centerLabel: individuals ? "MR-Bar" : "R-Bar",
+      yLabel: individuals ? "Moving Range" : "Range",
+      xDomain,
+      excluded: excludedDispersion,
+      segments: segments("range"),
+    },
+    stdDev: {
+      kind: "stdDev",
+      title: chartTitle("stdDev", chartType),
+      data: charts.sData ?? [],
+      ...panelLimits("stdDev", limits),
+      centerLabel: "S-Bar",
+      yLabel: "Std Dev",
+      xDomain,
+      excluded: excludedDispersion,
+      segments: segments("stdDev"),
+    },
+  };
+
+  const dispersion = charts.chartType === "xbar-s" ? panels.stdDev : panels.range;
+  const companions: ControlChartPanel[] = [];
+
+  // The EWMA chart follows the chart of the means it smooths
+  if (charts.ewma) {
+    const { data, lambda, width } = charts.ewma;
+    const curve = (key: "ucl" | "center" | "lcl") => data.map((point) => ({ x: point.x, y: point[key] }));
+    companions.push({
+      kind: "ewma",
+      title: `${chartTitle("ewma", chartType)} (λ = ${lambda}, L = ${width})`,
+      data,
+      ucl: data[data.length - 1]?.ucl ?? limits.xBarUcl,
+      center: limits.xBarMean,
+      lcl: data[data.length - 1]?.lcl ?? limits.xBarLcl,
+      centerLabel: individuals ? "X" : "X-Bar",
+      yLabel: "EWMA",
+      xDomain,
+      excluded: excludedXBar,
+      limitCurves: { ucl: curve("ucl"), center: curve("center"), lcl: curve("lcl") },
+    });
+  }
+
+  // CUSUM in sigma units: C+ above zero, C- mirrored below it, against the decision interval ±h
+  if (charts.cusum) {
+    const { data, k, h } = charts.cusum;
+    const beyond = (value: (i: number) => number) =>
+      new Set(data.flatMap((_, i) => (!excludedXBar.has(i) && value(i) > h ? [i] : [])));
+    companions.push({
+      kind: "cusum",
+      title: `${chartTitle("cusum", chartType)} (k = ${k}, h = ${h})`,
+      data: data.map(({ x, y }) => ({ x, y })),
+      ucl: h,
+      center: 0,
+      lcl: -h,
+      centerLabel: "0",
+      yLabel: "C+",
+      xDomain,
+      excluded: excludedXBar,
+      flagged: beyond((i) => data[i].y),
+      lower: {
+        name: "C-",
+        data: data.map(({ x, lower }) => ({ x, y: -lower })),
+        flagged: beyond((i) => data[i].lower),
+      },
+    });
+  }
+
+  return [panels.xBar, ...companions, dispersion];
+}
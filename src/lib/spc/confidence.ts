@@ -0,0 +1,83 @@
+import { CapabilityConfidence, CapabilityIndex, ChartType, ConfidenceInterval } from "@/types";
+import { ControlChartConstants } from "./constants";
+import { chiSquareQuantile, normalQuantile, round } from "./statistics";
+
+// Confidence levels offered for the capability intervals
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+// Minimum Cpk most customers ask for, used when none is given
+export const DEFAULT_MINIMUM_CPK = 1.33;
+
+/**
+ * Effective degrees of freedom of the within-subgroup sigma estimate (Patnaik's approximation),
+ * from the variance of R-bar / d2, MR-bar / d2 or S-bar / c4. Overlapping moving ranges are
+ * treated as independent, which overstates the degrees of freedom a little.
+ * @param chartType - Chart pair the sigma was estimated from
+ * @param count - Number of ranges or standard deviations averaged
+ * @param constants - Constants for the subgroup size or moving range span
+ */
+export function withinDegreesOfFreedom(chartType: ChartType, count: number, constants: ControlChartConstants): number {
+  if (chartType === "xbar-s") {
+    const c4Squared = constants.c4 * constants.c4;
+    return (count * c4Squared) / (2 * (1 - c4Squared));
+  }
+  return (count * constants.d2 * constants.d2) / (2 * constants.d3 * constants.d3);
+}
+
+/**
+ * Two-sided confidence intervals for the capability indices: chi-square intervals for Cp and Pp,
+ * Bissell's normal approximation for the one-sided indices and Cpk / Ppk
+ * @param indices - Point estimates, without the indices a one-sided specification does not have
+ * @param sampleSize - Number of readings
+ * @param withinDf - Degrees of freedom of the within sigma
+ * @param confidenceLevel - Confidence level, e.g. 0.95
+ */
+export function capabilityIntervals(
+  indices: Partial<Record<CapabilityIndex, number>>,
+  sampleSize: number,
+  withinDf: number,
+  confidenceLevel: number
+): Partial<Record<CapabilityIndex, ConfidenceInterval>> {
+  const alpha = 1 - confidenceLevel;
+  const z = normalQuantile(1 - alpha / 2);
+
+  const spreadInterval = (value: number, df: number): ConfidenceInterval => ({
+    lower: round(value * Math.sqrt(chiSquareQuantile(alpha / 2, df) / df), 2),
+    upper: round(value * Math.sqrt(chiSquareQuantile(1 - alpha / 2, df) / df), 2),
+  });
+  const locationInterval = (value: number, df: number): ConfidenceInterval => {
+    const halfWidth = z * Math.sqrt(1 / (9 * sampleSize) + (value * value) / (2 * df));
+    return { lower: round(value - halfWidth, 2), upper: round(value + halfWidth, 2) };
+  };
+
+  const overallDf = sampleSize - 1;
+  const intervals: Record<CapabilityIndex, (value: number) => ConfidenceInterval> = {
+    cp: (value) => spreadInterval(value, withinDf),
+    cpu: (value) => locationInterval(value, withinDf),
+    cpl: (value) => locationInterval(value, withinDf),
+    cpk: (value) => locationInterval(value, withinDf),
+    pp: (value) => spreadInterval(value, overallDf),
+    ppu: (value) => locationInterval(value, overallDf),
+    ppl: (value) => locationInterval(value, overallDf),
+    ppk: (value) => locationInterval(value, overallDf),
+  };
+  return Object.fromEntries(
+    Object.entries(indices)
+      .filter(([, value]) => value !== undefined)
+      .map(([index, value]) => [index, intervals[index as CapabilityIndex](value!)])
+  );
+}
+
+// Indices whose lower bound is checked against the customer's minimum Cpk
+const MINIMUM_CHECKED: CapabilityIndex[] = ["cpk", "ppk"];
+
+/**
+ * Whether the lower confidence bound of Cpk or Ppk falls below the customer's minimum
+ * @param confidence - Intervals from the engine
+ * @param index - Index to check
+ */
+export function belowMinimumCpk(confidence: CapabilityConfidence, index: CapabilityIndex): boolean {
+  const interval = confidence.intervals[index];
+  return MINIMUM_CHECKED.includes(index) && interval !== undefined && interval.lower < confidence.minimumCpk;
+}
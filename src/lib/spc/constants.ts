@@ -0,0 +1,95 @@
+import { logGamma } from "./statistics";
+
+export interface ControlChartConstants {
+  n: number;
+  // Bias correction factors
+  d2: number;
+  d3: number;
+  c4: number;
+  // X-bar limits from sigma, R-bar and S-bar
+  A: number;
+  A2: number;
+  A3: number;
+  // S chart limits from S-bar and from sigma
+  B3: number;
+  B4: number;
+  B5: number;
+  B6: number;
+  // R chart limits from sigma and from R-bar
+  D1: number;
+  D2: number;
+  D3: number;
+  D4: number;
+  // Individuals limits from the average moving range
+  E2: number;
+}
+
+export const MIN_SUBGROUP_SIZE = 2;
+export const MAX_SUBGROUP_SIZE = 25;
+
+// Mean (d2) and standard deviation (d3) of the relative range for n = 2..25, ASTM E2587 / AIAG SPC manual
+const D2_VALUES = [
+  1.128, 1.693, 2.059, 2.326, 2.534, 2.704, 2.847, 2.970, 3.078, 3.173, 3.258, 3.336,
+  3.407, 3.472, 3.532, 3.588, 3.640, 3.689, 3.735, 3.778, 3.819, 3.858, 3.895, 3.931,
+];
+const D3_VALUES = [
+  0.853, 0.888, 0.880, 0.864, 0.848, 0.833, 0.820, 0.808, 0.797, 0.787, 0.778, 0.770,
+  0.763, 0.756, 0.750, 0.744, 0.739, 0.734, 0.729, 0.724, 0.720, 0.716, 0.712, 0.708,
+];
+
+/**
+ * c4 = E[s] / sigma for a normal sample of size n
+ * @param n - Subgroup size
+ */
+function calculateC4(n: number): number {
+  return Math.sqrt(2 / (n - 1)) * Math.exp(logGamma(n / 2) - logGamma((n - 1) / 2));
+}
+
+/**
+ * Derive every chart factor from d2, d3 and c4, the way the published tables are built
+ * @param n - Subgroup size
+ */
+function buildConstants(n: number): ControlChartConstants {
+  const d2 = D2_VALUES[n - MIN_SUBGROUP_SIZE];
+  const d3 = D3_VALUES[n - MIN_SUBGROUP_SIZE];
+  const c4 = calculateC4(n);
+  const sqrtN = Math.sqrt(n);
+  const sSpread = 3 * Math.sqrt(1 - c4 * c4);
+
+  return {
+    n,
+    d2,
+    d3,
+    c4,
+    A: 3 / sqrtN,
+    A2: 3 / (d2 * sqrtN),
+    A3: 3 / (c4 * sqrtN),
+    B3: Math.max(0, 1 - sSpread / c4),
+    B4: 1 + sSpread / c4,
+    B5: Math.max(0, c4 - sSpread),
+    B6: c4 + sSpread,
+    D1: Math.max(0, d2 - 3 * d3),
+    D2: d2 + 3 * d3,
+    D3: Math.max(0, 1 - (3 * d3) / d2),
+    D4: 1 + (3 * d3) / d2,
+    E2: 3 / d2,
+  };
+}
+
+// The single table of control chart constants, subgroup sizes 2 to 25
+export const controlChartConstants: Record<number, ControlChartConstants> = Object.fromEntries(
+  Array.from({ length: MAX_SUBGROUP_SIZE - MIN_SUBGROUP_SIZE + 1 }, (_, i) => {
+    const n = MIN_SUBGROUP_SIZE + i;
+    return [n, buildConstants(n)];
+  })
+);
+
+/**
+ * Constants for a subgroup size. Individuals (n = 1) use the n = 2 row, since their
+ * ranges are moving ranges of two consecutive readings.
+ * @param sampleSize - Subgroup size, 1 to 25
+ * @returns Constants, or undefined when the size is outside the table
+ */
+export function getControlChartConstants(sampleSize: number): ControlChartConstants | undefined {
+  return controlChartConstants[sampleSize === 1 ? MIN_SUBGROUP_SIZE : sampleSize];
+}
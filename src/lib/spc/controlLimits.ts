@@ -0,0 +1,88 @@
+import { ControlChartLimits, ControlLimitSource, FrozenLimitConfig, FrozenLimitSet, LimitPhase } from "@/types";
+import { CHART_TYPES } from "./charts";
+import { MAX_SUBGROUP_SIZE } from "./constants";
+
+export const LIMIT_PHASES: Record<LimitPhase, { label: string; description: string }> = {
+  "phase-1": { label: "Phase I (Calculate)", description: "Control limits calculated from the selected data" },
+  "phase-2": { label: "Phase II (Frozen)", description: "Selected data monitored against the frozen baseline limits" },
+};
+
+/**
+ * Find the frozen limit set of a material/operation/gauge
+ * @param config - Stored frozen limits
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ * @param gaugeCode - Selected gauge
+ */
+export function resolveFrozenLimits(
+  config: FrozenLimitConfig,
+  materialCode?: string,
+  operationCode?: string,
+  gaugeCode?: string
+): FrozenLimitSet | undefined {
+  return config.limitSets.find(
+    (s) => s.materialCode === materialCode && s.operationCode === operationCode && s.gaugeCode === gaugeCode
+  );
+}
+
+const REQUIRED_LIMITS: Array<keyof ControlChartLimits> = [
+  "xBarUcl", "xBarMean", "xBarLcl", "rangeUcl", "rangeMean", "rangeLcl",
+];
+const S_LIMITS: Array<keyof ControlChartLimits> = ["sUcl", "sMean", "sLcl"];
+
+/**
+ * Check frozen limits before they are stored
+ * @param config - Limit sets to validate
+ * @returns Problems found, empty when every set is valid
+ */
+export function validateFrozenLimitConfig(config: FrozenLimitConfig): string[] {
+  if (!Array.isArray(config?.limitSets)) {
+    return ["limitSets must be an array"];
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  config.limitSets.forEach((set) => {
+    if (!set.materialCode || !set.operationCode || !set.gaugeCode) {
+      errors.push("Every limit set needs a material, operation and gauge code");
+      return;
+    }
+    const name = `${set.materialCode} / ${set.operationCode} / ${set.gaugeCode}`;
+    if (!(set.chartType in CHART_TYPES)) {
+      errors.push(`${name}: unknown chart type ${set.chartType}`);
+      return;
+    }
+    if (!Number.isInteger(set.subgroupSize) || set.subgroupSize < 1 || set.subgroupSize > MAX_SUBGROUP_SIZE) {
+      errors.push(`${name}: subgroup size must be between 1 and ${MAX_SUBGROUP_SIZE}`);
+    }
+    const required = set.chartType === "xbar-s" ? [...REQUIRED_LIMITS, ...S_LIMITS] : REQUIRED_LIMITS;
+    if (required.some((key) => typeof set.limits?.[key] !== "number" || !isFinite(set.limits[key]!))) {
+      errors.push(`${name}: every control limit must be a number`);
+    } else if (set.limits.xBarLcl > set.limits.xBarUcl) {
+      errors.push(`${name}: LCL must not exceed UCL`);
+    }
+    if (!set.baselineStart || !set.baselineEnd || !set.frozenAt) {
+      errors.push(`${name}: baseline dates are required`);
+    }
+    if (set.exclusions?.some((e) => !Number.isInteger(e.sample) || !e.reason?.trim())) {
+      errors.push(`${name}: every excluded point needs a sample number and a reason`);
+    }
+    const key = [set.materialCode, set.operationCode, set.gaugeCode].join("|");
+    if (keys.has(key)) {
+      errors.push(`${name} has more than one limit set`);
+    }
+    keys.add(key);
+  });
+
+  return errors;
+}
+
+/**
+ * Describe where the plotted control limits came from, e.g. "Phase II: frozen limits from baseline ..."
+ * @param source - Limit source reported by the engine
+ */
+export function limitSourceLabel(source: ControlLimitSource): string {
+  if (source.phase === "phase-1") return "Phase I: limits calculated from this data";
+  const frozenOn = source.frozenAt ? `, frozen ${source.frozenAt.slice(0, 10)}` : "";
+  return `Phase II: frozen limits from baseline ${source.baselineStart} to ${source.baselineEnd}${frozenOn}`;
+}
@@ -0,0 +1,88 @@
+import { CusumChart, CusumOptions, CusumSignal, RuleViolation } from "@/types";
+import { round } from "./statistics";
+
+// Reference value and decision interval commonly used to catch shifts of about one sigma
+export const DEFAULT_CUSUM: CusumOptions = { k: 0.5, h: 5 };
+
+/**
+ * Describe a CUSUM signal with its parameters, e.g. "CUSUM (k = 0.5, h = 5) beyond the decision interval"
+ * @param options - CUSUM reference value and decision interval
+ */
+export function cusumSignalDescription({ k, h }: CusumOptions): string {
+  return `CUSUM (k = ${k}, h = ${h}) beyond the decision interval`;
+}
+
+/**
+ * Tabular CUSUM of the plotted means, each standardised by the sigma of its own mean so that k and h stay in
+ * sigma units for differing subgroup sizes:
+ * C+_i = max(0, z_i - k + C+_i-1), C-_i = max(0, -z_i - k + C-_i-1), with a signal once either passes h.
+ * This is the same decision as a V-mask with lead distance h / k on the plain cumulative sum. The sums carry on
+ * after a signal, so a sustained shift stays flagged until the process returns.
+ * @param values - Subgroup means, or individual readings, in sample order
+ * @param kept - Whether each value takes part in the analysis; an excluded sample carries the sums forward
+ * @param options - CUSUM reference value and decision interval, in sigma of the plotted mean
+ * @param centerAt - Center line at a sample number
+ * @param sigmaAt - Standard deviation of the plotted mean at a sample number
+ * @param restartsAt - Whether the sums start again from zero at a sample number, e.g. a new stage
+ * @param dateAt - Inspection date of a sample, used to date the change points
+ * @returns The chart with each signal dated back to its change point, and one violation per point beyond h
+ */
+export function calculateCusum(
+  values: number[],
+  kept: boolean[],
+  options: CusumOptions,
+  centerAt: (sample: number) => number,
+  sigmaAt: (sample: number) => number,
+  restartsAt: (sample: number) => boolean,
+  dateAt: (sample: number) => string | undefined
+): { chart: CusumChart; violations: RuleViolation[] } {
+  const { k, h } = options;
+  if (!(k >= 0)) throw new Error("CUSUM reference value k must not be negative");
+  if (!(h > 0)) throw new Error("CUSUM decision interval h must be above 0");
+
+  let upper = 0;
+  let lower = 0;
+  // First sample of the current run of non-zero sums on each side
+  let upperStart = 1;
+  let lowerStart = 1;
+  const signals: CusumSignal[] = [];
+
+  // The new mean is the average of the kept means since the change point, the same as center + σ(k + C / N)
+  const signal = (side: CusumSignal["side"], sample: number, changePoint: number) => {
+    const since = values.slice(changePoint - 1, sample).filter((_, i) => kept[changePoint - 1 + i]);
+    signals.push({
+      side,
+      sample,
+      changePoint,
+      changeDate: dateAt(changePoint),
+      mean: round(since.reduce((sum, value) => sum + value, 0) / since.length, 4),
+    });
+  };
+
+  const data = values.map((value, i) => {
+    const sample = i + 1;
+    if (i === 0 || restartsAt(sample)) {
+      upper = 0;
+      lower = 0;
+    }
+    if (kept[i]) {
+      const sigma = sigmaAt(sample);
+      const z = sigma > 0 ? (value - centerAt(sample)) / sigma : 0;
+      const [wasUpper, wasLower] = [upper, lower];
+      upper = Math.max(0, upper + z - k);
+      lower = Math.max(0, lower - z - k);
+      if (upper > 0 && wasUpper === 0) upperStart = sample;
+      if (lower > 0 && wasLower === 0) lowerStart = sample;
+      if (upper > h && wasUpper <= h) signal("upper", sample, upperStart);
+      if (lower > h && wasLower <= h) signal("lower", sample, lowerStart);
+    }
+    return { x: sample, y: upper, lower };
+  });
+
+  const description = cusumSignalDescription(options);
+  const violations = data.flatMap(({ y, lower: lowerSum }, i): RuleViolation[] =>
+    kept[i] && (y > h || lowerSum > h) ? [{ ruleId: 1, chart: "cusum", description, indices: [i] }] : []
+  );
+
+  return { chart: { k, h, data, signals }, violations };
+}
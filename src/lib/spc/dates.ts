@@ -0,0 +1,44 @@
+/**
+ * Calendar day of an ERP timestamp, accepting dd/MM/yyyy and ISO formats. The day is the one written in the
+ * timestamp, never shifted through UTC, so night-shift readings stay on their own day.
+ * @param value - Timestamp from the inspection row
+ * @returns yyyy-MM-dd, or undefined when it cannot be read
+ */
+export function toDay(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const dmy = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, "0")}-${dmy[1].padStart(2, "0")}`;
+  const ymd = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (ymd) return `${ymd[1]}-${ymd[2].padStart(2, "0")}-${ymd[3].padStart(2, "0")}`;
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return undefined;
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/**
+ * Monday of the ISO week that contains a day
+ * @param day - yyyy-MM-dd
+ * @returns yyyy-MM-dd
+ */
+export function weekStart(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Time of an ERP timestamp, accepting dd/MM/yyyy HH:mm[:ss] and ISO formats; a bare date is midnight
+ * @param value - Timestamp from the inspection row
+ * @returns Milliseconds since the epoch, or undefined when it cannot be read
+ */
+export function toTimestamp(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const dmy = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dmy) {
+    const [, day, month, year, hours = "0", minutes = "0", seconds = "0"] = dmy;
+    return Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  }
+  const parsed = new Date(value).getTime();
+  return isNaN(parsed) ? undefined : parsed;
+}
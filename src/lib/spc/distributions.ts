@@ -0,0 +1,428 @@
+import { DistributionCapability, DistributionFit, DistributionName } from "@/types";
+import {
+  calculateMean, calculateStdDev, digamma, nearerLimitIndex, normalCdf, normalQuantile, regularizedGammaP, round,
+  roundOptional, trigamma
+} from "./statistics";
+
+// A fitted model: its Anderson-Darling result plus the CDF and quantile function used for capability
+export interface DistributionModel {
+  fit: DistributionFit;
+  cdf: (x: number) => number;
+  quantile: (p: number) => number;
+}
+
+// Normality is accepted at the usual 5% level, other models are only tried when it is rejected
+export const NORMALITY_ALPHA = 0.05;
+
+// Percentiles spanning the same 99.73% of the process as +/- 3 sigma of a normal
+const LOWER_PERCENTILE = 0.00135;
+const UPPER_PERCENTILE = 0.99865;
+
+// Guards the capability ratios against a zero spread
+const MIN_SPREAD = 0.000001;
+
+// Anderson-Darling critical values for the Weibull with both parameters estimated (Stephens 1977)
+const WEIBULL_AD_TABLE = [
+  { p: 0.25, aStar: 0.474 },
+  { p: 0.1, aStar: 0.637 },
+  { p: 0.05, aStar: 0.757 },
+  { p: 0.025, aStar: 0.877 },
+  { p: 0.01, aStar: 1.038 },
+];
+
+/**
+ * Anderson-Darling statistic of sorted data against a fitted CDF
+ * @param sorted - Data in ascending order
+ * @param cdf - Fitted cumulative distribution
+ */
+export function andersonDarling(sorted: number[], cdf: (x: number) => number): number {
+  const n = sorted.length;
+  const probabilities = sorted.map((x) => Math.min(Math.max(cdf(x), 1e-12), 1 - 1e-12));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (2 * i + 1) * (Math.log(probabilities[i]) + Math.log(1 - probabilities[n - 1 - i]));
+  }
+  return -n - sum / n;
+}
+
+/**
+ * p-value of an Anderson-Darling statistic for a normal with estimated mean and variance
+ * (D'Agostino & Stephens 1986)
+ * @param a2 - Anderson-Darling statistic
+ * @param n - Sample size
+ */
+export function normalAdPValue(a2: number, n: number): number {
+  const aStar = a2 * (1 + 0.75 / n + 2.25 / (n * n));
+  let p: number;
+  if (aStar >= 0.6) p = Math.exp(1.2937 - 5.709 * aStar + 0.0186 * aStar * aStar);
+  else if (aStar >= 0.34) p = Math.exp(0.9177 - 4.279 * aStar - 1.38 * aStar * aStar);
+  else if (aStar >= 0.2) p = 1 - Math.exp(-8.318 + 42.796 * aStar - 59.938 * aStar * aStar);
+  else p = 1 - Math.exp(-13.436 + 101.14 * aStar - 223.73 * aStar * aStar);
+  return Math.min(Math.max(p, 0), 1);
+}
+
+/**
+ * p-value from a table of critical values, interpolated on log p
+ * @returns p-value, with a bound when the statistic lies outside the table
+ */
+function tabulatedPValue(
+  aStar: number,
+  table: { p: number; aStar: number }[]
+): Pick<DistributionFit, "pValue" | "pValueBound"> {
+  if (aStar <= table[0].aStar) return { pValue: table[0].p, pValueBound: "above" };
+  const last = table[table.length - 1];
+  if (aStar >= last.aStar) return { pValue: last.p, pValueBound: "below" };
+
+  const i = table.findIndex((row) => row.aStar > aStar);
+  const [a, b] = [table[i - 1], table[i]];
+  const t = (aStar - a.aStar) / (b.aStar - a.aStar);
+  return { pValue: Math.exp(Math.log(a.p) + t * (Math.log(b.p) - Math.log(a.p))) };
+}
+
+/**
+ * Normal model fitted after a monotone transformation; the normal itself uses the identity
+ */
+function transformedNormal(
+  fit: Pick<DistributionFit, "distribution" | "label" | "parameters">,
+  sorted: number[],
+  transform: (x: number) => number,
+  inverse: (y: number) => number
+): DistributionModel | null {
+  const transformed = sorted.map(transform);
+  if (!transformed.every(isFinite)) return null;
+  const mean = calculateMean(transformed) ?? 0;
+  const stdDev = calculateStdDev(transformed, mean) || MIN_SPREAD;
+
+  const cdf = (x: number) => normalCdf((transform(x) - mean) / stdDev);
+  const adStatistic = andersonDarling(sorted, cdf);
+
+  return {
+    fit: {
+      ...fit,
+      parameters: { ...fit.parameters, mean, stdDev },
+      adStatistic,
+      pValue: normalAdPValue(adStatistic, sorted.length),
+    },
+    cdf,
+    quantile: (p) => inverse(mean + normalQuantile(p) * stdDev),
+  };
+}
+
+const safeLog = (x: number) => (x > 0 ? Math.log(x) : -Infinity);
+
+/**
+ * Find a root of an increasing function by bisection
+ */
+function bisect(f: (x: number) => number, lo: number, hi: number, iterations = 200): number {
+  for (let i = 0; i < iterations; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) < 0) lo = mid;
+    else hi = mid;
+    if (hi - lo <= 1e-12 * Math.abs(hi)) break;
+  }
+  return (lo + hi) / 2;
+}
+
+function fitWeibull(sorted: number[]): DistributionModel | null {
+  // Work on data scaled by its maximum so that x^shape stays finite for steep shapes
+  const max = sorted[sorted.length - 1];
+  const scaled = sorted.map((x) => x / max);
+  const logs = scaled.map(Math.log);
+  const meanLog = calculateMean(logs) ?? 0;
+
+  // Maximum likelihood equation for the shape, increasing in the shape
+  const score = (k: number) => {
+    let sumW = 0;
+    let sumWLog = 0;
+    scaled.forEach((x, i) => {
+      const w = Math.pow(x, k);
+      sumW += w;
+      sumWLog += w * logs[i];
+    });
+    return sumWLog / sumW - 1 / k - meanLog;
+  };
+
+  let hi = 1;
+  while (score(hi) < 0 && hi < 1e5) hi *= 2;
+  if (score(hi) < 0) return null;
+  const shape = bisect(score, 1e-3, hi);
+  const scale = max * Math.pow(calculateMean(scaled.map((x) => Math.pow(x, shape))) ?? 1, 1 / shape);
+
+  const cdf = (x: number) => (x <= 0 ? 0 : 1 - Math.exp(-Math.pow(x / scale, shape)));
+  const adStatistic = andersonDarling(sorted, cdf);
+
+  return {
+    fit: {
+      distribution: "weibull",
+      label: "Weibull",
+      parameters: { shape, scale },
+      adStatistic,
+      ...tabulatedPValue(adStatistic * (1 + 0.2 / Math.sqrt(sorted.length)), WEIBULL_AD_TABLE),
+    },
+    cdf,
+    quantile: (p) => scale * Math.pow(-Math.log(1 - p), 1 / shape),
+  };
+}
+
+function fitGamma(sorted: number[]): DistributionModel | null {
+  const mean = calculateMean(sorted) ?? 0;
+  const s = Math.log(mean) - (calculateMean(sorted.map(Math.log)) ?? 0);
+  if (!(s > 0)) return null;
+
+  // Maximum likelihood shape: closed-form start, then Newton steps on log(k) - digamma(k) = s
+  let shape = (3 - s + Math.sqrt((s - 3) * (s - 3) + 24 * s)) / (12 * s);
+  for (let i = 0; i < 50; i++) {
+    const step = (Math.log(shape) - digamma(shape) - s) / (1 / shape - trigamma(shape));
+    const next = shape - step;
+    shape = next > 0 ? next : shape / 2;
+    if (Math.abs(step) < 1e-10 * shape) break;
+  }
+  const scale = mean / shape;
+
+  const cdf = (x: number) => regularizedGammaP(shape, x / scale);
+  const adStatistic = andersonDarling(sorted, cdf);
+
+  return {
+    fit: {
+      distribution: "gamma",
+      label: "Gamma",
+      parameters: { shape, scale },
+      adStatistic,
+      // Critical values with an estimated shape are close to the normal case (D'Agostino & Stephens, table 4.21)
+      pValue: normalAdPValue(adStatistic, sorted.length),
+    },
+    cdf,
+    quantile: (p) => {
+      let hi = mean;
+      while (cdf(hi) < p) hi *= 2;
+      return bisect((x) => cdf(x) - p, 0, hi);
+    },
+  };
+}
+
+function fitBoxCox(sorted: number[]): DistributionModel | null {
+  const logs = sorted.map(Math.log);
+  const sumLog = logs.reduce((sum, value) => sum + value, 0);
+  const n = sorted.length;
+  const boxCox = (x: number, lambda: number) =>
+    lambda === 0 ? safeLog(x) : x > 0 ? (Math.pow(x, lambda) - 1) / lambda : -Infinity;
+
+  // Profile log-likelihood over lambda in [-5, 5]
+  let lambda = 1;
+  let best = -Infinity;
+  for (let i = -500; i <= 500; i++) {
+    const candidate = i / 100;
+    const transformed = sorted.map((x) => boxCox(x, candidate));
+    const mean = calculateMean(transformed) ?? 0;
+    const variance = transformed.reduce((sum, y) => sum + (y - mean) ** 2, 0) / n;
+    const likelihood = -(n / 2) * Math.log(variance) + (candidate - 1) * sumLog;
+    if (isFinite(likelihood) && likelihood > best) {
+      best = likelihood;
+      lambda = candidate;
+    }
+  }
+
+  return transformedNormal(
+    { distribution: "box-cox", label: `Box-Cox (λ = ${lambda.toFixed(2)})`, parameters: { lambda } },
+    sorted,
+    (x) => boxCox(x, lambda),
+    (y) => {
+      if (lambda === 0) return Math.exp(y);
+      const base = lambda * y + 1;
+      return base > 0 ? Math.pow(base, 1 / lambda) : lambda > 0 ? 0 : Infinity;
+    }
+  );
+}
+
+/**
+ * Empirical quantile with linear interpolation between order statistics
+ */
+function empiricalQuantile(sorted: number[], p: number): number {
+  const h = Math.min(Math.max(p * sorted.length - 0.5, 0), sorted.length - 1);
+  const i = Math.floor(h);
+  return sorted[i] + (h - i) * ((sorted[Math.min(i + 1, sorted.length - 1)]) - sorted[i]);
+}
+
+/**
+ * Johnson transformation for one quantile spacing z (Slifker & Shapiro 1980):
+ * SU for long tails, SB for bounded data, SL (lognormal) between them
+ */
+function johnsonCandidate(sorted: number[], z: number): DistributionModel | null {
+  const [xm3, xm1, x1, x3] = [-3 * z, -z, z, 3 * z].map((q) => empiricalQuantile(sorted, normalCdf(q)));
+  const m = x3 - x1;
+  const n = xm1 - xm3;
+  const p = x1 - xm1;
+  if (m <= 0 || n <= 0 || p <= 0) return null;
+  const ratio = (m * n) / (p * p);
+  const mid = (x1 + xm1) / 2;
+
+  if (Math.abs(ratio - 1) < 0.01) {
+    const mp = m / p;
+    if (mp <= 1) return null;
+    const eta = (2 * z) / Math.log(mp);
+    const gamma = eta * Math.log((mp - 1) / (p * Math.sqrt(mp)));
+    const epsilon = mid - (p / 2) * ((mp + 1) / (mp - 1));
+    return transformedNormal(
+      { distribution: "johnson", label: "Johnson SL", parameters: { gamma, eta, epsilon } },
+      sorted,
+      (x) => gamma + eta * safeLog(x - epsilon),
+      (y) => epsilon + Math.exp((y - gamma) / eta)
+    );
+  }
+
+  if (ratio > 1) {
+    const mp = m / p;
+    const np = n / p;
+    const eta = (2 * z) / Math.acosh(0.5 * (mp + np));
+    const gamma = eta * Math.asinh((np - mp) / (2 * Math.sqrt(mp * np - 1)));
+    const lambda = (2 * p * Math.sqrt(mp * np - 1)) / ((mp + np - 2) * Math.sqrt(mp + np + 2));
+    const epsilon = mid + (p * (np - mp)) / (2 * (mp + np - 2));
+    return transformedNormal(
+      { distribution: "johnson", label: "Johnson SU", parameters: { gamma, eta, lambda, epsilon } },
+      sorted,
+      (x) => gamma + eta * Math.asinh((x - epsilon) / lambda),
+      (y) => epsilon + lambda * Math.sinh((y - gamma) / eta)
+    );
+  }
+
+  const pm = p / m;
+  const pn = p / n;
+  const product = (1 + pm) * (1 + pn);
+  const eta = z / Math.acosh(0.5 * Math.sqrt(product));
+  const gamma = eta * Math.asinh(((pn - pm) * Math.sqrt(product - 4)) / (2 * (pm * pn - 1)));
+  const lambda = (p * Math.sqrt((product - 2) ** 2 - 4)) / (pm * pn - 1);
+  const epsilon = mid - lambda / 2 + (p * (pn - pm)) / (2 * (pm * pn - 1));
+  return transformedNormal(
+    { distribution: "johnson", label: "Johnson SB", parameters: { gamma, eta, lambda, epsilon } },
+    sorted,
+    (x) =>
+      x <= epsilon ? -Infinity : x >= epsilon + lambda ? Infinity : gamma + eta * Math.log((x - epsilon) / (epsilon + lambda - x)),
+    (y) => epsilon + lambda / (1 + Math.exp(-(y - gamma) / eta))
+  );
+}
+
+/**
+ * Johnson transformation with the quantile spacing that gives the most normal result
+ */
+function fitJohnson(sorted: number[]): DistributionModel | null {
+  let best: DistributionModel | null = null;
+  for (let i = 0; i <= 20; i++) {
+    const candidate = johnsonCandidate(sorted, 0.25 + i * 0.05);
+    if (candidate && (!best || candidate.fit.pValue > best.fit.pValue)) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Fit every supported model to the measurements. The normal is always first; the positive-only
+ * models are skipped when any value is zero or negative, and fits that fail to converge are dropped.
+ * @param measurements - Individual readings
+ */
+export function fitDistributions(measurements: number[]): DistributionModel[] {
+  const sorted = [...measurements].sort((a, b) => a - b);
+  const models: (DistributionModel | null)[] = [
+    transformedNormal({ distribution: "normal", label: "Normal", parameters: {} }, sorted, (x) => x, (y) => y),
+  ];
+
+  // The other models need some spread to fit
+  if (new Set(sorted).size >= 3) {
+    if (sorted[0] > 0) {
+      models.push(
+        transformedNormal({ distribution: "lognormal", label: "Lognormal", parameters: {} }, sorted, safeLog, Math.exp),
+        fitWeibull(sorted),
+        fitGamma(sorted),
+        fitBoxCox(sorted)
+      );
+    }
+    models.push(fitJohnson(sorted));
+  }
+
+  return models.filter((model): model is DistributionModel => model !== null && isFinite(model.fit.adStatistic));
+}
+
+const TRANSFORMATIONS: DistributionName[] = ["box-cox", "johnson"];
+
+/**
+ * Pick the model to base capability on: the normal while normality is not rejected, then the best
+ * fitting distribution that is not rejected, then the best transformation. Transformations come last
+ * because the Johnson fit is tuned to the data and would otherwise win on p-value alone.
+ * @param models - Models from fitDistributions, normal first
+ */
+export function selectDistribution(models: DistributionModel[]): DistributionModel {
+  const [normal] = models;
+  if (normal.fit.pValue >= NORMALITY_ALPHA) return normal;
+
+  const best = (candidates: DistributionModel[]) =>
+    candidates.reduce<DistributionModel | null>((top, model) => (!top || model.fit.pValue > top.fit.pValue ? model : top), null);
+  const distributions = models.filter((model) => !TRANSFORMATIONS.includes(model.fit.distribution));
+  const transformations = models.filter((model) => TRANSFORMATIONS.includes(model.fit.distribution));
+
+  return (
+    best(distributions.filter((model) => model.fit.pValue >= NORMALITY_ALPHA)) ??
+    best(transformations.filter((model) => model.fit.pValue >= NORMALITY_ALPHA)) ??
+    best(models) ??
+    normal
+  );
+}
+
+/**
+ * Percentile (ISO 22514-2 / Clements) performance indices from the best-fitting model.
+ * For a normal model these equal the usual Pp and Ppk.
+ * @param measurements - Individual readings
+ * @param lsl - Lower specification limit, if any
+ * @param usl - Upper specification limit, if any
+ */
+export function calculateDistributionCapability(
+  measurements: number[],
+  lsl: number | undefined,
+  usl: number | undefined
+): DistributionCapability {
+  const models = fitDistributions(measurements);
+  const selected = selectDistribution(models);
+
+  const pLower = selected.quantile(LOWER_PERCENTILE);
+  const median = selected.quantile(0.5);
+  const pUpper = selected.quantile(UPPER_PERCENTILE);
+
+  const pp = lsl !== undefined && usl !== undefined ? (usl - lsl) / Math.max(pUpper - pLower, MIN_SPREAD) : undefined;
+  const ppu = usl !== undefined ? (usl - median) / Math.max(pUpper - median, MIN_SPREAD) : undefined;
+  const ppl = lsl !== undefined ? (median - lsl) / Math.max(median - pLower, MIN_SPREAD) : undefined;
+
+  const roundFit = (fit: DistributionFit): DistributionFit => ({
+    ...fit,
+    parameters: Object.fromEntries(Object.entries(fit.parameters).map(([key, value]) => [key, round(value, 6)])),
+    adStatistic: round(fit.adStatistic, 4),
+    pValue: round(fit.pValue, 4),
+  });
+
+  return {
+    selected: roundFit(selected.fit),
+    fits: models.map((model) => roundFit(model.fit)),
+    pLower: round(pLower, 4),
+    median: round(median, 4),
+    pUpper: round(pUpper, 4),
+    pp: roundOptional(pp, 2),
+    ppu: roundOptional(ppu, 2),
+    ppl: roundOptional(ppl, 2),
+    ppk: round(nearerLimitIndex(ppu, ppl), 2),
+  };
+}
+
+/**
+ * Display text for a goodness-of-fit p-value
+ * @param fit - Fit to describe
+ */
+export function formatPValue({ pValue, pValueBound }: Pick<DistributionFit, "pValue" | "pValueBound">): string {
+  if (pValueBound === "above") return `> ${pValue.toFixed(3)}`;
+  if (pValueBound === "below") return `< ${pValue.toFixed(3)}`;
+  return pValue < 0.005 ? "< 0.005" : pValue.toFixed(3);
+}
+
+/**
+ * p-value as "p = 0.123", or "p < 0.005" when only a bound is known
+ * @param fit - Fit or test to describe
+ */
+export function pValueLabel(fit: Pick<DistributionFit, "pValue" | "pValueBound">): string {
+  const text = formatPValue(fit);
+  return /^[<>]/.test(text) ? `p ${text}` : `p = ${text}`;
+}
@@ -0,0 +1,1216 @@
+import {
+  InspectionData, AnalysisData, DistributionData, NelsonRuleId, RuleSetProfile, RuleViolation, ChartType,
+  BinningRule, PpmBreakdown, SigmaLevel, SpecChangeHandling, SpecRevision, SpecificationType, TargetSource,
+  ControlChartLimits, FrozenLimitSet, PointExclusion, ChartKind, ChartPoint, Staging, StageSummary, Subgrouping,
+  EwmaOptions, CusumOptions, SavedExclusion
+} from "@/types";
+import { ControlChartConstants, MAX_SUBGROUP_SIZE, MIN_SUBGROUP_SIZE, getControlChartConstants } from "./constants";
+import {
+  calculateMean, calculateStdDev, nearerLimitIndex, normalCdf, normalQuantile, round, roundOptional
+} from "./statistics";
+import { evaluateRules } from "./rules";
+import { calculateDistributionCapability } from "./distributions";
+import { calculateNormality } from "./normality";
+import {
+  DEFAULT_CONFIDENCE_LEVEL, DEFAULT_MINIMUM_CPK, capabilityIntervals, withinDegreesOfFreedom
+} from "./confidence";
+import { BUILT_IN_RULE_SETS, DEFAULT_RULE_SET_ID, ruleDefinitions } from "./ruleSets";
+import { CHART_TYPES } from "./charts";
+import { stageLabels } from "./stages";
+import { rationalSubgroups } from "./subgroups";
+import { calculateEwma } from "./ewma";
+import { calculateCusum } from "./cusum";
+import { toTimestamp } from "./dates";
+import { readingKeys } from "./exclusions";
+
+export interface AnalysisOptions {
+  sampleSize?: number;
+  chartType?: ChartType;
+  // Readings per moving range in I-MR mode, defaults to 2
+  movingRangeSpan?: number;
+  // Run rules to evaluate, defaults to the full Nelson set
+  ruleSet?: RuleSetProfile;
+  // Histogram binning, defaults to the square-root rule
+  binningRule?: BinningRule;
+  binWidth?: number;
+  // Confidence level of the capability intervals, and the customer's minimum Cpk they are checked against
+  confidenceLevel?: number;
+  minimumCpk?: number;
+  // Drawing nominal from the characteristic master; otherwise the rows' nominal or the middle of the tolerance is used
+  target?: number;
+  // Revised limits within the window: analyse the latest revision (default) or every reading as % of tolerance
+  specChangeHandling?: SpecChangeHandling;
+  // Phase II: chart against limits frozen from a baseline instead of limits calculated from this data
+  frozenLimits?: FrozenLimitSet;
+  // Charted points left out of the limits, indices and run rules
+  exclusions?: PointExclusion[];
+  // Exclusions saved with the characteristic, placed on whichever sample holds their reading in this data
+  savedExclusions?: SavedExclusion[];
+  // Staged charts: separate limits per shift, calendar period or breakpoint
+  staging?: Staging;
+  // Rational subgroups by inspection time, part serial or ERP subgroup; defaults to data order, keeping short subgroups
+  subgrouping?: Subgrouping;
+  // EWMA chart of the plotted means, for shifts too small for the Shewhart limits
+  ewma?: EwmaOptions;
+  // Tabular CUSUM of the plotted means, to date sustained shifts
+  cusum?: CusumOptions;
+}
+
+// Guards the capability ratios against a zero sigma
+const MIN_SIGMA = 0.000001;
+
+// Center line and limits of points standardised against their own sigma
+const STANDARDIZED_LIMITS = { center: 0, ucl: 3, lcl: -3 };
+
+/**
+ * Number the runs of consecutive readings that share a stage
+ * @param count - Number of readings
+ * @param stages - Stage of each reading, absent for an unstaged chart
+ */
+function readingSegments(count: number, stages?: string[]): number[] {
+  let segment = 0;
+  return Array.from({ length: count }, (_, i) => (i > 0 && stages && stages[i] !== stages[i - 1] ? ++segment : segment));
+}
+
+/**
+ * Split readings into subgroups of consecutive readings; a subgroup never spans two segments (stages or
+ * rational subgroup keys), so the last subgroup of a segment may be short
+ * @param measurements - Readings in sample order
+ * @param sampleSize - Readings per subgroup
+ * @param segmentOf - Segment of each reading
+ * @returns Readings of each subgroup, with the position of its first reading
+ */
+function formSubgroups(
+  measurements: number[],
+  sampleSize: number,
+  segmentOf: number[]
+): { values: number[]; start: number }[] {
+  const subgroups: { values: number[]; start: number }[] = [];
+
+  measurements.forEach((value, i) => {
+    const current = subgroups[subgroups.length - 1];
+    if (current && current.values.length < sampleSize && segmentOf[current.start] === segmentOf[i]) {
+      current.values.push(value);
+    } else {
+      subgroups.push({ values: [value], start: i });
+    }
+  });
+
+  return subgroups;
+}
+
+/**
+ * Subgroup ranges, plotted at their subgroup's sample number
+ * @param subgroups - Readings of each subgroup
+ */
+function calculateSubgroupRanges(subgroups: number[][]): ChartPoint[] {
+  const ranges: ChartPoint[] = [];
+
+  subgroups.forEach((subgroup, i) => {
+    if (subgroup.length >= 2) { // Need at least 2 points to calculate range
+      ranges.push({ x: i + 1, y: Math.max(...subgroup) - Math.min(...subgroup) });
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * Moving ranges over a window of consecutive readings within one segment
+ * @param measurements - Individual readings in sample order
+ * @param span - Readings per moving range
+ * @param segmentOf - Segment of each reading
+ * @returns Ranges with the 1-based sample number of the reading that closes each window
+ */
+function calculateMovingRanges(measurements: number[], span: number, segmentOf: number[]): ChartPoint[] {
+  const ranges: ChartPoint[] = [];
+
+  for (let i = span - 1; i < measurements.length; i++) {
+    if (segmentOf[i - span + 1] !== segmentOf[i]) continue;
+    const window = measurements.slice(i - span + 1, i + 1);
+    ranges.push({ x: i + 1, y: Math.max(...window) - Math.min(...window) });
+  }
+
+  return ranges;
+}
+
+/**
+ * Subgroup standard deviations, plotted at their subgroup's sample number
+ * @param subgroups - Readings of each subgroup
+ */
+function calculateSubgroupStdDevs(subgroups: number[][]): ChartPoint[] {
+  const stdDevs: ChartPoint[] = [];
+
+  subgroups.forEach((subgroup, i) => {
+    const stdDev = calculateStdDev(subgroup);
+    if (stdDev !== null) stdDevs.push({ x: i + 1, y: stdDev });
+  });
+
+  return stdDevs;
+}
+
+/**
+ * Center line and control limits. X-bar limits come from S-bar (A3) or R-bar (A2); individuals use E2 (3 / d2)
+ * with the average moving range.
+ * @param chartType - Chart pair the limits are for
+ * @param constants - Constants for the subgroup size or moving range span
+ * @param center - Grand mean
+ * @param avgRange - Average range or moving range
+ * @param avgStdDev - Average subgroup standard deviation, X-bar S mode only
+ */
+function calculateControlLimits(
+  chartType: ChartType,
+  constants: ControlChartConstants,
+  center: number,
+  avgRange: number,
+  avgStdDev: number
+): ControlChartLimits {
+  const xBarSpread = chartType === "xbar-s"
+    ? constants.A3 * avgStdDev
+    : (chartType === "i-mr" ? constants.E2 : constants.A2) * avgRange;
+  return {
+    xBarUcl: center + xBarSpread,
+    xBarMean: center,
+    xBarLcl: center - xBarSpread,
+    rangeUcl: constants.D4 * avgRange,
+    rangeMean: avgRange,
+    rangeLcl: constants.D3 * avgRange,
+    ...(chartType === "xbar-s"
+      ? { sUcl: constants.B4 * avgStdDev, sMean: avgStdDev, sLcl: constants.B3 * avgStdDev }
+      : {}),
+  };
+}
+
+/**
+ * Limits for a subgroup of another size than the limits were set for, from the within sigma they imply:
+ * X-bar limits at 3 sigma / sqrt(n), R and S limits from D1, D2 and B5, B6 sigma
+ * @param chartType - X-bar R or X-bar S
+ * @param limits - Limits for subgroups of the nominal size
+ * @param nominalSize - Subgroup size the limits were set for
+ * @param size - Readings in the subgroup
+ */
+function sizedControlLimits(
+  chartType: ChartType,
+  limits: ControlChartLimits,
+  nominalSize: number,
+  size: number
+): ControlChartLimits {
+  if (size === nominalSize) return limits;
+  const sigma = ((limits.xBarUcl - limits.xBarMean) * Math.sqrt(nominalSize)) / 3;
+  const xBarSpread = (3 * sigma) / Math.sqrt(size);
+  // A single reading has no range or standard deviation to chart
+  const constants = size >= MIN_SUBGROUP_SIZE ? getControlChartConstants(size) : undefined;
+  return {
+    xBarUcl: limits.xBarMean + xBarSpread,
+    xBarMean: limits.xBarMean,
+    xBarLcl: limits.xBarMean - xBarSpread,
+    rangeUcl: (constants?.D2 ?? 0) * sigma,
+    rangeMean: (constants?.d2 ?? 0) * sigma,
+    rangeLcl: (constants?.D1 ?? 0) * sigma,
+    ...(chartType === "xbar-s"
+      ? { sUcl: (constants?.B6 ?? 0) * sigma, sMean: (constants?.c4 ?? 0) * sigma, sLcl: (constants?.B5 ?? 0) * sigma }
+      : {}),
+  };
+}
+
+/**
+ * Within sigma of subgroups of differing sizes: the mean of each subgroup's range over d2, or standard
+ * deviation over c4, with the constants of its own size
+ * @param chartType - X-bar R or X-bar S
+ * @param points - Subgroup ranges or standard deviations, at their sample numbers
+ * @param sizeOf - Readings in a sample
+ */
+function pooledWithinSigma(chartType: ChartType, points: ChartPoint[], sizeOf: (sample: number) => number): number {
+  return calculateMean(points.map(({ x, y }) => {
+    const constants = getControlChartConstants(sizeOf(x))!;
+    return y / (chartType === "xbar-s" ? constants.c4 : constants.d2);
+  })) ?? 0;
+}
+
+function roundLimits(limits: ControlChartLimits): ControlChartLimits {
+  const { xBarUcl, xBarMean, xBarLcl, rangeUcl, rangeMean, rangeLcl, sUcl, sMean, sLcl } = limits;
+  return {
+    xBarUcl: round(xBarUcl, 4),
+    xBarMean: round(xBarMean, 4),
+    xBarLcl: round(xBarLcl, 4),
+    rangeUcl: round(rangeUcl, 4),
+    rangeMean: round(rangeMean, 4),
+    rangeLcl: round(rangeLcl, 4),
+    ...(sUcl !== undefined ? { sUcl: round(sUcl, 4), sMean: roundOptional(sMean, 4), sLcl: roundOptional(sLcl, 4) } : {}),
+  };
+}
+
+/**
+ * Capability (within sigma) and performance (overall sigma) indices. Cp and Pp need both limits, Cpk and Ppk
+ * fall back to the one-sided index.
+ * @param mean - Process mean
+ * @param withinStdDev - Within-subgroup sigma, guarded against zero
+ * @param stdDev - Overall sigma, guarded against zero
+ * @param lsl - Lower specification limit, if any
+ * @param usl - Upper specification limit, if any
+ */
+function capabilityIndices(mean: number, withinStdDev: number, stdDev: number, lsl?: number, usl?: number) {
+  const twoSided = lsl !== undefined && usl !== undefined;
+  const cpu = usl !== undefined ? (usl - mean) / (3 * withinStdDev) : undefined;
+  const cpl = lsl !== undefined ? (mean - lsl) / (3 * withinStdDev) : undefined;
+  const ppu = usl !== undefined ? (usl - mean) / (3 * stdDev) : undefined;
+  const ppl = lsl !== undefined ? (mean - lsl) / (3 * stdDev) : undefined;
+  return {
+    cp: twoSided ? (usl - lsl) / (6 * withinStdDev) : undefined,
+    cpu,
+    cpl,
+    cpk: nearerLimitIndex(cpu, cpl),
+    pp: twoSided ? (usl - lsl) / (6 * stdDev) : undefined,
+    ppu,
+    ppl,
+    ppk: nearerLimitIndex(ppu, ppl),
+  };
+}
+
+// More bins than this are not readable on the histogram
+const MAX_BINS = 200;
+// Points per fitted curve
+const CURVE_STEPS = 120;
+
+/**
+ * Interpolated quantile of sorted data
+ */
+function sortedQuantile(sorted: number[], p: number): number {
+  const h = (sorted.length - 1) * p;
+  const i = Math.floor(h);
+  return sorted[i] + (h - i) * ((sorted[Math.min(i + 1, sorted.length - 1)]) - sorted[i]);
+}
+
+/**
+ * Bin width for a binning rule
+ * @param sorted - Data in ascending order
+ * @param rule - Binning rule
+ * @param customWidth - Width for the custom rule
+ */
+function histogramBinWidth(sorted: number[], rule: BinningRule, customWidth?: number): number {
+  const n = sorted.length;
+  const span = sorted[n - 1] - sorted[0];
+  const stdDev = calculateStdDev(sorted) ?? 0;
+  const iqr = sortedQuantile(sorted, 0.75) - sortedQuantile(sorted, 0.25);
+
+  switch (rule) {
+    case "sturges":
+      return span / (Math.ceil(Math.log2(n)) + 1);
+    case "scott":
+      return 3.49 * stdDev * Math.pow(n, -1 / 3);
+    case "freedman-diaconis":
+      // Falls back to Scott when half the data share one value
+      return (iqr > 0 ? 2 * iqr : 3.49 * stdDev) * Math.pow(n, -1 / 3);
+    case "custom":
+      if (!(customWidth && customWidth > 0)) throw new Error("Custom bin width must be greater than 0");
+      return customWidth;
+    default:
+      return span / Math.ceil(Math.sqrt(n));
+  }
+}
+
+/**
+ * Expected parts per million outside the specification for a normal process; a missing limit contributes nothing
+ */
+function expectedPpm(mean: number, stdDev: number, lsl?: number, usl?: number): PpmBreakdown {
+  const belowLsl = lsl !== undefined ? normalCdf((lsl - mean) / stdDev) * 1_000_000 : 0;
+  const aboveUsl = usl !== undefined ? (1 - normalCdf((usl - mean) / stdDev)) * 1_000_000 : 0;
+  return { belowLsl: round(belowLsl, 2), aboveUsl: round(aboveUsl, 2), total: round(belowLsl + aboveUsl, 2) };
+}
+
+/**
+ * Parts per million of the readings that actually fall outside the specification
+ */
+function observedPpm(data: number[], lsl?: number, usl?: number): PpmBreakdown {
+  const belowLsl = lsl !== undefined ? (data.filter((x) => x < lsl).length / data.length) * 1_000_000 : 0;
+  const aboveUsl = usl !== undefined ? (data.filter((x) => x > usl).length / data.length) * 1_000_000 : 0;
+  return { belowLsl: round(belowLsl, 2), aboveUsl: round(aboveUsl, 2), total: round(belowLsl + aboveUsl, 2) };
+}
+
+/**
+ * Sigma level of a normal process: Z to each limit, and Z.bench, the one-sided Z with the same total out of spec
+ */
+function sigmaLevel(mean: number, stdDev: number, lsl?: number, usl?: number): SigmaLevel {
+  const zLsl = lsl !== undefined ? (mean - lsl) / stdDev : undefined;
+  const zUsl = usl !== undefined ? (usl - mean) / stdDev : undefined;
+  const outOfSpec = (zLsl !== undefined ? normalCdf(-zLsl) : 0) + (zUsl !== undefined ? normalCdf(-zUsl) : 0);
+  // Beyond about 38 sigma the tail underflows to 0, the nearer limit then sets the level
+  const zBench = outOfSpec > 0 ? -normalQuantile(Math.min(outOfSpec, 1)) : nearerLimitIndex(zUsl, zLsl);
+  return { zLsl: roundOptional(zLsl, 2), zUsl: roundOptional(zUsl, 2), zBench: round(zBench, 2) };
+}
+
+/**
+ * Calculate distribution data for histogram
+ * @param data - Array of numeric values
+ * @param lsl - Lower specification limit, if any
+ * @param usl - Upper specification limit, if any
+ * @param target - Drawing nominal, marked on the histogram
+ * @param center - Process mean the curves and expected PPM are centred on
+ * @param withinStdDev - Within-subgroup sigma for the within curve
+ * @param binningRule - Rule that sets the bin width
+ * @param customBinWidth - Bin width for the custom rule
+ * @returns Histogram data with fitted curves and stats, or null if invalid
+ */
+function calculateDistributionData(
+  data: number[],
+  lsl: number | undefined,
+  usl: number | undefined,
+  target: number | undefined,
+  center: number,
+  withinStdDev: number,
+  binningRule: BinningRule,
+  customBinWidth?: number
+): DistributionData | null {
+  if (data.length === 0) return null;
+
+  const sorted = [...data].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const mean = calculateMean(data) ?? 0;
+  const stdDev = calculateStdDev(data, mean) ?? 0;
+
+  // Bins start at the smallest reading and cover the data
+  const binWidth = histogramBinWidth(sorted, binningRule, customBinWidth) || MIN_SIGMA;
+  const binCount = Math.max(1, Math.ceil((max - min) / binWidth - 1e-9));
+  if (binCount > MAX_BINS) {
+    throw new Error(`Bin width ${binWidth} gives more than ${MAX_BINS} bins, choose a wider bin`);
+  }
+
+  const bins = Array(binCount).fill(0);
+  const binEdges = Array(binCount + 1).fill(0).map((_, i) => min + i * binWidth);
+
+  data.forEach((value) => {
+    const binIndex = Math.min(Math.floor((value - min) / binWidth), binCount - 1);
+    if (binIndex >= 0) bins[binIndex]++;
+  });
+
+  // Normal curves for within and overall sigma, scaled from density to counts per bin
+  const safeWithin = withinStdDev || MIN_SIGMA;
+  const safeOverall = stdDev || MIN_SIGMA;
+  const spread = 4 * Math.max(safeWithin, safeOverall);
+  const curveStart = Math.min(min, lsl ?? min, center - spread);
+  const curveEnd = Math.max(max, usl ?? max, center + spread);
+  const density = (x: number, sigma: number) =>
+    (Math.exp(-0.5 * ((x - center) / sigma) ** 2) / (sigma * Math.sqrt(2 * Math.PI))) * data.length * binWidth;
+  const curve = Array.from({ length: CURVE_STEPS + 1 }, (_, i) => {
+    const x = curveStart + ((curveEnd - curveStart) * i) / CURVE_STEPS;
+    return { x: round(x, 6), within: round(density(x, safeWithin), 4), overall: round(density(x, safeOverall), 4) };
+  });
+
+  return {
+    data: bins.map((count, i) => ({
+      x: round(binEdges[i] + binWidth / 2, 4),
+      y: count,
+    })),
+    curve,
+    expectedPpm: {
+      within: expectedPpm(center, safeWithin, lsl, usl),
+      overall: expectedPpm(center, safeOverall, lsl, usl),
+    },
+    stats: {
+      min,
+      max,
+      mean: round(mean, 4),
+      stdDev: round(stdDev, 4),
+      stdDevWithin: round(withinStdDev, 4),
+      target,
+      binningRule,
+      binWidth: round(binWidth, 6),
+      binEdges: binEdges.map((edge) => round(edge, 6)),
+    },
+  };
+}
+
+/**
+ * Summarise one X-bar rule for the 3S table
+ * @param ruleSet - Profile the analysis ran with
+ * @param violations - Violations found on the charts
+ * @param ruleId - Rule to summarise
+ */
+function summarizeRule(ruleSet: RuleSetProfile, violations: RuleViolation[], ruleId: NelsonRuleId): string {
+  if (!ruleSet.rules[ruleId].enabled) return "Not Checked";
+  return violations.some((v) => v.chart === "xBar" && v.ruleId === ruleId) ? "Yes" : "No";
+}
+
+// Qualifies the decision remark when Cpk only covers one limit
+const ONE_SIDED_REMARKS: Record<SpecificationType, string> = {
+  "two-sided": "",
+  "upper-only": " (against USL only)",
+  "lower-only": " (against LSL only)",
+};
+
+/**
+ * Map Cpk onto the plant's decision remark
+ * @param cpk - Process capability index
+ * @param specificationType - Limits the Cpk was calculated against
+ */
+function getDecisionRemark(cpk: number, specificationType: SpecificationType): string {
+  const suffix = ONE_SIDED_REMARKS[specificationType];
+  if (cpk >= 1.67) return `Process Excellent${suffix}`;
+  if (cpk >= 1.45) return `Process is more capable${suffix}, Scope for Further Improvement`;
+  if (cpk >= 1.33) return `Process is capable${suffix}, Scope for Further Improvement`;
+  if (cpk >= 1.0) return `Process is slightly capable${suffix}, need 100% inspection`;
+  return `Stop Process${suffix} change, process design`;
+}
+
+/**
+ * Parse a specification limit or nominal, an empty or non-numeric value meaning it does not exist
+ * @param value - FromSpecification, ToSpecification or TargetSpecification
+ */
+export function parseLimit(value: string | undefined): number | undefined {
+  const limit = parseFloat(value ?? "");
+  return isNaN(limit) ? undefined : limit;
+}
+
+/**
+ * Parse inspection rows into measurements, dropping rows that are not numeric or have no specification limit
+ * @param inspectionData - Raw inspection data from API
+ */
+export function parseInspectionData(inspectionData: InspectionData[]) {
+  const validData = inspectionData.filter(
+    (d) =>
+      !isNaN(parseFloat(d.ActualSpecification)) &&
+      (parseLimit(d.FromSpecification) !== undefined || parseLimit(d.ToSpecification) !== undefined)
+  );
+
+  return {
+    validData,
+    measurements: validData.map((d) => parseFloat(d.ActualSpecification)),
+  };
+}
+
+/**
+ * Pick the target the capability is judged against: the characteristic master, then the nominal sent with
+ * the inspection rows, then the middle of the tolerance. A one-sided specification has no middle, so
+ * without a nominal it has no target.
+ * @param validData - Numeric inspection rows
+ * @param lsl - Lower specification limit, if any
+ * @param usl - Upper specification limit, if any
+ * @param masterTarget - Nominal from the characteristic master
+ */
+function resolveTarget(
+  validData: InspectionData[],
+  lsl: number | undefined,
+  usl: number | undefined,
+  masterTarget?: number
+): { target?: number; targetSource?: TargetSource } {
+  const rowTarget = validData.map((d) => parseLimit(d.TargetSpecification)).find((value) => value !== undefined);
+  const resolved: { target?: number; targetSource?: TargetSource } =
+    masterTarget !== undefined && !isNaN(masterTarget)
+      ? { target: masterTarget, targetSource: "master" }
+      : rowTarget !== undefined
+      ? { target: rowTarget, targetSource: "inspection-data" }
+      : lsl !== undefined && usl !== undefined
+      ? { target: (usl + lsl) / 2, targetSource: "midpoint" }
+      : {};
+
+  const { target } = resolved;
+  if (target !== undefined && ((lsl !== undefined && target < lsl) || (usl !== undefined && target > usl))) {
+    throw new Error(`Target ${target} lies outside the specification limits ${lsl ?? "-"} - ${usl ?? "-"}`);
+  }
+  return resolved;
+}
+
+// Rows that share one FromSpecification/ToSpecification pair
+interface SpecGroup {
+  lsl?: number;
+  usl?: number;
+  rows: InspectionData[];
+  // Earliest and latest timestamped rows, when the rows carry readable inspection dates
+  first?: InspectionData;
+  last?: InspectionData;
+}
+
+/**
+ * Group rows by specification limits, ordered by each group's last reading so that the limits in force at the end
+ * of the window come last, also when a revision was reverted. The ERP does not return rows in date order, so the
+ * inspection dates decide; without dates the row order stands.
+ * @param validData - Numeric inspection rows
+ */
+function groupSpecRevisions(validData: InspectionData[]): SpecGroup[] {
+  const groups = new Map<string, SpecGroup>();
+  const times = new Map<SpecGroup, { first: number; last: number }>();
+  const lastIndex = new Map<SpecGroup, number>();
+  validData.forEach((row, i) => {
+    const lsl = parseLimit(row.FromSpecification);
+    const usl = parseLimit(row.ToSpecification);
+    const key = `${lsl ?? ""}|${usl ?? ""}`;
+    if (!groups.has(key)) groups.set(key, { lsl, usl, rows: [] });
+    const group = groups.get(key)!;
+    group.rows.push(row);
+    lastIndex.set(group, i);
+
+    const time = toTimestamp(row.InspectionDate);
+    if (time === undefined) return;
+    const span = times.get(group);
+    if (!span || time < span.first) group.first = row;
+    if (!span || time >= span.last) group.last = row;
+    times.set(group, { first: Math.min(time, span?.first ?? time), last: Math.max(time, span?.last ?? time) });
+  });
+
+  const revisions = [...groups.values()];
+  if (!revisions.every((group) => times.has(group))) {
+    return revisions.sort((a, b) => lastIndex.get(a)! - lastIndex.get(b)!);
+  }
+  return revisions.sort((a, b) => times.get(a)!.last - times.get(b)!.last);
+}
+
+/**
+ * Short description of a specification, e.g. "9.9 - 10.1" or "USL 10.1"
+ * @param lsl - Lower specification limit, if any
+ * @param usl - Upper specification limit, if any
+ */
+export function specLimitsLabel(lsl?: number, usl?: number): string {
+  if (lsl === undefined) return `USL ${usl}`;
+  if (usl === undefined) return `LSL ${lsl}`;
+  return `${lsl} - ${usl}`;
+}
+
+/**
+ * Express a row's reading and nominal as % of its tolerance, LSL = 0 and USL = 100
+ */
+function normalizeToTolerance(row: InspectionData, lsl: number, usl: number): InspectionData {
+  const percent = (value: number) => String(((value - lsl) / (usl - lsl)) * 100);
+  const target = parseLimit(row.TargetSpecification);
+  return {
+    ...row,
+    ActualSpecification: percent(parseFloat(row.ActualSpecification)),
+    FromSpecification: "0",
+    ToSpecification: "100",
+    TargetSpecification: target !== undefined ? percent(target) : undefined,
+  };
+}
+
+/**
+ * Analyse a window in which the specification was revised. Each revision gets its own capability summary;
+ * the main analysis covers either the latest revision or every reading as % of its tolerance.
+ * @param validData - Numeric inspection rows in reading order
+ * @param groups - The same rows per specification revision, the one in force at the last reading last
+ * @param options - Analysis options; the master nominal belongs to the latest revision
+ * @param readingOf - Identity of each row, for placing saved exclusions
+ */
+function analyseSpecChange(
+  validData: InspectionData[],
+  groups: SpecGroup[],
+  options: AnalysisOptions,
+  readingOf: Map<InspectionData, string | undefined>
+): AnalysisData {
+  const { specChangeHandling: handling = "segments", target } = options;
+  const groupOf = new Map(groups.flatMap((group) => group.rows.map((row) => [row, group] as const)));
+  const latest = groups[groups.length - 1];
+  const total = validData.length;
+
+  const revisions: SpecRevision[] = groups.map((group) => {
+    let capability: SpecRevision["capability"];
+    try {
+      // Exclusions and breakpoints are numbered on the main chart, not on each revision's readings
+      const { metrics } = analyseSpecification(group.rows, {
+        ...options,
+        target: group === latest ? target : undefined,
+        exclusions: undefined,
+        savedExclusions: undefined,
+        staging: undefined,
+      }, readingOf);
+      capability = { xBar: metrics.xBar, cp: metrics.cp, cpk: metrics.cpk, pp: metrics.pp, ppk: metrics.ppk };
+    } catch {
+      // Too few readings under this revision for capability
+    }
+    return {
+      lsl: group.lsl,
+      usl: group.usl,
+      count: group.rows.length,
+      startDate: (group.first ?? group.rows[0]).InspectionDate,
+      endDate: (group.last ?? group.rows[group.rows.length - 1]).InspectionDate,
+      latest: group === latest,
+      capability,
+    };
+  });
+
+  const changed = `Specification limits changed within the analysis window (${groups.length} sets of limits).`;
+  if (handling === "normalize") {
+    if (groups.some((group) => group.lsl === undefined || group.usl === undefined)) {
+      throw new Error("Readings can only be shown as % of tolerance when every revision has both limits");
+    }
+    if (options.frozenLimits) {
+      throw new Error("Frozen limits are in measurement units and cannot be applied to readings shown as % of tolerance");
+    }
+    const normalized = validData.map((row) => {
+      const group = groupOf.get(row)!;
+      return normalizeToTolerance(row, group.lsl!, group.usl!);
+    });
+    const normalizedReadingOf = new Map(normalized.map((row, i) => [row, readingOf.get(validData[i])]));
+    const percentTarget =
+      target !== undefined ? ((target - latest.lsl!) / (latest.usl! - latest.lsl!)) * 100 : undefined;
+    return {
+      ...analyseSpecification(normalized, { ...options, target: percentTarget }, normalizedReadingOf),
+      specChange: {
+        handling,
+        revisions,
+        notice: `${changed} All ${total} readings are shown as % of their tolerance: LSL = 0, USL = 100.`,
+      },
+    };
+  }
+
+  let analysis: AnalysisData;
+  try {
+    analysis = analyseSpecification(latest.rows, options, readingOf);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Latest specification revision (${specLimitsLabel(latest.lsl, latest.usl)}): ${message}`);
+  }
+  // Limits revised and later reverted: the readings taken under them before the revision count as well
+  const startOf = (group: SpecGroup) => toTimestamp(group.first?.InspectionDate);
+  const latestStart = startOf(latest);
+  const reverted =
+    latestStart !== undefined && groups.some((group) => group !== latest && (startOf(group) ?? -Infinity) > latestStart);
+  return {
+    ...analysis,
+    specChange: {
+      handling,
+      revisions,
+      notice:
+        `${changed} Results cover the limits in force at the last reading, ${specLimitsLabel(latest.lsl, latest.usl)}, ` +
+        `with ${latest.rows.length} of ${total} readings` +
+        (reverted ? ", including those taken under the same limits before they were revised." : "."),
+    },
+  };
+}
+
+/**
+ * Check exclusions against the charted samples
+ * @param exclusions - Requested exclusions
+ * @param samples - Number of charted samples
+ * @returns The exclusions in sample order
+ */
+function checkExclusions(exclusions: PointExclusion[], samples: number): PointExclusion[] {
+  const seen = new Set<number>();
+  exclusions.forEach(({ sample, reason }) => {
+    if (!Number.isInteger(sample) || sample < 1 || sample > samples) {
+      throw new Error(`Excluded sample ${sample} is not on the chart`);
+    }
+    if (!reason?.trim()) {
+      throw new Error(`Sample ${sample} needs a reason for its exclusion`);
+    }
+    if (seen.has(sample)) {
+      throw new Error(`Sample ${sample} is excluded more than once`);
+    }
+    seen.add(sample);
+  });
+  return [...exclusions].sort((a, b) => a.sample - b.sample);
+}
+
+/**
+ * Evaluate run rules on the points kept in the analysis, reporting positions in the full chart
+ * @param chart - Chart the values are plotted on
+ * @param values - Every plotted value
+ * @param kept - Whether each value takes part in the analysis
+ * @param limits - Center line and control limits
+ * @param rules - Enabled rules
+ */
+function evaluateKeptRules(
+  chart: ChartKind,
+  values: number[],
+  kept: boolean[],
+  limits: { center: number; ucl: number; lcl: number },
+  rules: ReturnType<typeof ruleDefinitions>
+): RuleViolation[] {
+  const positions = values.map((_, i) => i).filter((i) => kept[i]);
+  return evaluateRules(chart, { values: positions.map((i) => values[i]), ...limits }, rules).map((violation) => ({
+    ...violation,
+    indices: violation.indices.map((i) => positions[i]),
+  }));
+}
+
+/**
+ * Frozen limits only hold for data charted the way the baseline was
+ * @param frozen - Limit set frozen from the Phase I baseline
+ * @param chartType - Chart type of this analysis
+ * @param subgroupSize - Readings per subgroup, 1 in I-MR mode
+ * @param movingRangeSpan - Readings per moving range in I-MR mode
+ */
+function frozenControlLimits(
+  frozen: FrozenLimitSet,
+  chartType: ChartType,
+  subgroupSize: number,
+  movingRangeSpan: number
+): ControlChartLimits {
+  const baselineChart = frozen.chartType === "i-mr"
+    ? `an I-MR chart with a moving range span of ${frozen.movingRangeSpan ?? 2}`
+    : `an ${CHART_TYPES[frozen.chartType].label} chart with subgroups of ${frozen.subgroupSize}`;
+  const matches = frozen.chartType === chartType && frozen.subgroupSize === subgroupSize &&
+    (chartType !== "i-mr" || (frozen.movingRangeSpan ?? 2) === movingRangeSpan);
+  if (!matches) {
+    throw new Error(`Frozen limits were calculated for ${baselineChart}; select the same chart for Phase II`);
+  }
+  return frozen.limits;
+}
+
+/**
+ * Calculate analysis data from inspection data. This is the single SPC engine
+ * used by every page, it has no framework or network dependencies.
+ * @param inspectionData - Raw inspection data from API
+ * @param options - Analysis options (sample size 1-25, defaults to 5, chart type, moving range span, the run rule set, histogram binning, the capability confidence level, the target, how a specification change in the window is handled, Phase II frozen limits, excluded points by sample or saved by reading, staging, rational subgrouping and the EWMA and CUSUM charts).
+ * A sample size of 1 always produces an I-MR chart.
+ * @returns Calculated analysis data or throws error if invalid
+ */
+export function calculateAnalysisData(inspectionData: InspectionData[], options: AnalysisOptions = {}): AnalysisData {
+  const { validData } = parseInspectionData(inspectionData);
+  // Identified across every valid reading, the same rows the page saves exclusions against
+  const keys = readingKeys(validData);
+  const readingOf = new Map(validData.map((row, i) => [row, keys[i]]));
+  const groups = groupSpecRevisions(validData);
+  if (groups.length > 1) return analyseSpecChange(validData, groups, options, readingOf);
+  return analyseSpecification(validData, options, readingOf);
+}
+
+/**
+ * Analyse readings taken against one specification
+ * @param inspectionData - Inspection rows
+ * @param options - Analysis options
+ * @param readingOf - Identity of each row, for placing saved exclusions
+ */
+function analyseSpecification(
+  inspectionData: InspectionData[],
+  {
+    sampleSize = 5,
+    chartType: requestedChartType = "xbar-r",
+    movingRangeSpan = 2,
+    ruleSet = BUILT_IN_RULE_SETS.find((p) => p.id === DEFAULT_RULE_SET_ID)!,
+    binningRule = "square-root",
+    binWidth,
+    confidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+    minimumCpk = DEFAULT_MINIMUM_CPK,
+    target: masterTarget,
+    frozenLimits,
+    exclusions: requestedExclusions = [],
+    savedExclusions = [],
+    staging,
+    subgrouping = { by: "position", incomplete: "keep" },
+    ewma: ewmaOptions,
+    cusum: cusumOptions,
+  }: AnalysisOptions = {},
+  readingOf: Map<InspectionData, string | undefined> = new Map()
+): AnalysisData {
+  if (!(confidenceLevel > 0 && confidenceLevel < 1)) {
+    throw new Error("Confidence level must be between 0 and 1");
+  }
+  if (requestedChartType === "xbar-s" && sampleSize < 2) {
+    throw new Error("X-Bar S charts need a sample size of at least 2");
+  }
+  const chartType: ChartType = requestedChartType === "i-mr" || sampleSize === 1 ? "i-mr" : requestedChartType;
+  const individuals = chartType === "i-mr";
+  const subgroupSize = individuals ? 1 : sampleSize;
+
+  if (individuals && !(Number.isInteger(movingRangeSpan) && movingRangeSpan >= 2 && movingRangeSpan <= MAX_SUBGROUP_SIZE)) {
+    throw new Error(`Moving range span must be between 2 and ${MAX_SUBGROUP_SIZE}`);
+  }
+  // Individuals charts take their constants from the moving range span
+  const constants = getControlChartConstants(individuals ? movingRangeSpan : sampleSize);
+  if (!constants) {
+    throw new Error(`Sample size must be between 1 and ${MAX_SUBGROUP_SIZE}`);
+  }
+
+  // Readings in production order; incomplete subgroups are dropped here when asked
+  const ordered = rationalSubgroups(parseInspectionData(inspectionData).validData, subgrouping, subgroupSize);
+  const { validData, measurements: readings } = parseInspectionData(ordered.rows);
+  const keySegments = readingSegments(readings.length, ordered.keys);
+  const unstagedSamples: number[] = [];
+  formSubgroups(readings, subgroupSize, keySegments).forEach((subgroup, i) =>
+    subgroup.values.forEach((_, k) => (unstagedSamples[subgroup.start + k] = i + 1))
+  );
+
+  // Staged charts start a new segment wherever the stage changes; no subgroup or moving range crosses one
+  const stages = staging ? stageLabels(validData, staging, unstagedSamples) : undefined;
+  if (stages && frozenLimits) {
+    throw new Error("Staged charts calculate their own limits per stage and cannot use frozen limits");
+  }
+  const segmentOf = readingSegments(readings.length, stages);
+  const subgroups = formSubgroups(
+    readings,
+    subgroupSize,
+    ordered.keys ? readingSegments(readings.length, ordered.keys.map((key, i) => `${stages?.[i]}|${key}`)) : segmentOf
+  );
+  const sampleOf: number[] = [];
+  subgroups.forEach((subgroup, i) => subgroup.values.forEach((_, k) => (sampleOf[subgroup.start + k] = i + 1)));
+
+  // Subgroup statistics; in I-MR mode each reading is its own point and the ranges are moving ranges
+  const xBarValues = subgroups.map((subgroup) => calculateMean(subgroup.values) ?? 0);
+  const rangePoints = individuals
+    ? calculateMovingRanges(readings, movingRangeSpan, segmentOf)
+    : calculateSubgroupRanges(subgroups.map((subgroup) => subgroup.values));
+  const stdDevPoints = chartType === "xbar-s" ? calculateSubgroupStdDevs(subgroups.map((subgroup) => subgroup.values)) : [];
+  const allRangeValues = rangePoints.map((point) => point.y);
+  const allStdDevValues = stdDevPoints.map((point) => point.y);
+
+  // Saved exclusions land on the sample holding their reading; one asked for on the same sample takes its place.
+  // Excluded samples stay on the charts; a moving range is dropped when its window holds an excluded reading
+  const keys = validData.map((row) => readingOf.get(row));
+  const sampleOfReading = new Map(keys.flatMap((key, i) => (key ? [[key, sampleOf[i]] as const] : [])));
+  const placedExclusions = savedExclusions.flatMap(({ reading, reason, excludedAt }): PointExclusion[] => {
+    const sample = sampleOfReading.get(reading);
+    return sample ? [{ sample, reason, excludedAt }] : [];
+  });
+  const exclusions = checkExclusions(
+    [
+      ...requestedExclusions,
+      ...placedExclusions.filter(
+        (e, i) =>
+          !requestedExclusions.some((r) => r.sample === e.sample) &&
+          placedExclusions.findIndex((p) => p.sample === e.sample) === i
+      ),
+    ],
+    xBarValues.length
+  ).map((e) => {
+    const { start, values } = subgroups[e.sample - 1];
+    return { ...e, reading: keys.slice(start, start + values.length).find((key) => key !== undefined) };
+  });
+  const excludedSamples = new Set(exclusions.map((e) => e.sample));
+  const keptXBar = xBarValues.map((_, i) => !excludedSamples.has(i + 1));
+  const keptRanges = rangePoints.map(({ x }) =>
+    individuals
+      ? Array.from({ length: movingRangeSpan }, (_, k) => x - k).every((sample) => !excludedSamples.has(sample))
+      : !excludedSamples.has(x)
+  );
+  const keptStdDevs = stdDevPoints.map(({ x }) => !excludedSamples.has(x));
+  const keptDispersion = chartType === "xbar-s" ? keptStdDevs : keptRanges;
+
+  const measurements = readings.filter((_, i) => !excludedSamples.has(sampleOf[i]));
+  if (measurements.length < Math.max(subgroupSize, individuals ? movingRangeSpan + 1 : 2)) {
+    throw new Error(exclusions.length ? "Too few points left after the exclusions" : "Insufficient valid data for analysis");
+  }
+  const rangeValues = allRangeValues.filter((_, i) => keptRanges[i]);
+  const stdDevValues = allStdDevValues.filter((_, i) => keptStdDevs[i]);
+  if (!individuals && (chartType === "xbar-s" ? stdDevValues : rangeValues).length === 0) {
+    throw new Error("No subgroup has two or more readings; check how subgroups are formed");
+  }
+
+  // Get specification limits; characteristics such as max runout or min hardness have only one
+  const lsl = parseLimit(validData[0].FromSpecification);
+  const usl = parseLimit(validData[0].ToSpecification);
+  if (lsl !== undefined && usl !== undefined && lsl >= usl) {
+    throw new Error("Invalid specification limits: LSL must be less than USL");
+  }
+  const specificationType: SpecificationType =
+    lsl === undefined ? "upper-only" : usl === undefined ? "lower-only" : "two-sided";
+  const { target, targetSource } = resolveTarget(validData, lsl, usl, masterTarget);
+
+  // Overall statistics
+  const mean = calculateMean(measurements);
+  const stdDev = calculateStdDev(measurements, mean);
+  if (mean === null || stdDev === null) throw new Error("Failed to calculate statistics");
+
+  // Subgroups short of the sample size (kept incomplete subgroups, stage boundaries) get limits for their own size
+  const sizeOf = (sample: number) => subgroups[sample - 1].values.length;
+  const variableSize = !individuals && subgroups.some((subgroup) => subgroup.values.length !== subgroupSize);
+  const dispersionPointsOf = (inSample: (sample: number) => boolean) =>
+    (chartType === "xbar-s" ? stdDevPoints : rangePoints).filter(({ x }, i) => keptDispersion[i] && inSample(x));
+
+  // Control limits; with varying sizes the center is weighted by subgroup size and the limits are set for the
+  // nominal size from the pooled within sigma
+  const grandMean = variableSize ? mean : calculateMean(xBarValues.filter((_, i) => keptXBar[i])) ?? mean;
+  const avgRange = calculateMean(rangeValues) ?? 0;
+  const avgStdDev = calculateMean(stdDevValues) ?? 0;
+  const pooledSigma = variableSize ? pooledWithinSigma(chartType, dispersionPointsOf(() => true), sizeOf) : 0;
+
+  // Phase II keeps the baseline's limits so that a drifting process does not drag its own limits along
+  const limits = frozenLimits
+    ? frozenControlLimits(frozenLimits, chartType, subgroupSize, movingRangeSpan)
+    : variableSize
+    ? calculateControlLimits(chartType, constants, grandMean, constants.d2 * pooledSigma, constants.c4 * pooledSigma)
+    : calculateControlLimits(chartType, constants, grandMean, avgRange, avgStdDev);
+
+  // Staged charts: each stage gets limits from its own kept points
+  const stageOfSample = (sample: number) => stages?.[subgroups[sample - 1].start];
+  const stageLimits = new Map(
+    [...new Set(stages)].map((stage) => {
+      const inStage = (sample: number) => stageOfSample(sample) === stage;
+      const stageXBar = xBarValues.filter((_, i) => keptXBar[i] && inStage(i + 1));
+      const stageRanges = rangePoints.filter((point, i) => keptRanges[i] && inStage(point.x)).map((p) => p.y);
+      const stageStdDevs = stdDevPoints.filter((point, i) => keptStdDevs[i] && inStage(point.x)).map((p) => p.y);
+      if (stageXBar.length < 2 || (chartType === "xbar-s" ? stageStdDevs : stageRanges).length === 0) {
+        throw new Error(`${stage} has too few readings for control limits of its own`);
+      }
+      if (variableSize) {
+        const stageSigma = pooledWithinSigma(chartType, dispersionPointsOf(inStage), sizeOf);
+        const center = calculateMean(readings.filter((_, i) => stages![i] === stage && !excludedSamples.has(sampleOf[i])))!;
+        return [stage, {
+          limits: calculateControlLimits(chartType, constants, center, constants.d2 * stageSigma, constants.c4 * stageSigma),
+          subgroups: stageXBar.length,
+          withinStdDev: stageSigma,
+        }] as const;
+      }
+      const center = calculateMean(stageXBar)!;
+      const stageAvgRange = calculateMean(stageRanges) ?? 0;
+      const stageAvgStdDev = calculateMean(stageStdDevs) ?? 0;
+      return [stage, {
+        limits: calculateControlLimits(chartType, constants, center, stageAvgRange, stageAvgStdDev),
+        subgroups: stageXBar.length,
+        withinStdDev: chartType === "xbar-s" ? stageAvgStdDev / constants.c4 : stageAvgRange / constants.d2,
+      }] as const;
+    })
+  );
+  const stageLimitsAt = (sample: number) => stageLimits.get(stageOfSample(sample)!)?.limits ?? limits;
+  const limitsAt = (sample: number) =>
+    variableSize ? sizedControlLimits(chartType, stageLimitsAt(sample), subgroupSize, sizeOf(sample)) : stageLimitsAt(sample);
+
+  // Runs of samples drawn against one set of limits: the whole chart or each stage segment, and with
+  // varying sizes each run of subgroups of one size, drawn as steps
+  const limitRuns = (sameRun: (sample: number, first: number) => boolean) =>
+    subgroups.reduce<{ from: number; to: number; limits: ControlChartLimits }[]>((runs, _, i) => {
+      const last = runs[runs.length - 1];
+      if (last && sameRun(i + 1, last.from)) {
+        last.to = i + 1;
+      } else {
+        runs.push({ from: i + 1, to: i + 1, limits: limitsAt(i + 1) });
+      }
+      return runs;
+    }, []);
+  const sameSegment = (sample: number, first: number) =>
+    segmentOf[subgroups[first - 1].start] === segmentOf[subgroups[sample - 1].start];
+  const chartSegments = limitRuns(sameSegment);
+  const limitSteps = variableSize
+    ? limitRuns((sample, first) => sameSegment(sample, first) && sizeOf(sample) === sizeOf(first))
+    : chartSegments;
+
+  const xBarData = xBarValues.map((value, i) => ({ x: i + 1, y: value }));
+  const rangeData = rangePoints;
+  const sData = stdDevPoints;
+
+  // Within-subgroup sigma from S-bar / c4, or R-bar (MR-bar) / d2, pooled over the sizes when they vary;
+  // overall sigma from the sample standard deviation
+  const withinStdDev = variableSize
+    ? pooledSigma
+    : chartType === "xbar-s" ? avgStdDev / constants.c4 : avgRange / constants.d2;
+  const safeWithinStdDev = withinStdDev || MIN_SIGMA;
+  const safeStdDev = stdDev || MIN_SIGMA;
+
+  // Process capability (within) and performance (overall) indices
+  const { cp, cpu, cpl, cpk, pp, ppu, ppl, ppk } = capabilityIndices(grandMean, safeWithinStdDev, safeStdDev, lsl, usl);
+  const twoSided = lsl !== undefined && usl !== undefined;
+
+  // Taguchi indices: overall sigma widened by the distance of the mean from the target. With an off-centre
+  // target Cpm uses the nearer side of the tolerance, as in Minitab.
+  const tau = target !== undefined ? Math.sqrt(safeStdDev ** 2 + (grandMean - target) ** 2) : undefined;
+  const cpm = twoSided && target !== undefined && tau ? Math.min(usl - target, target - lsl) / (3 * tau) : undefined;
+  const cpkm = twoSided && tau ? Math.min(usl - grandMean, grandMean - lsl) / (3 * tau) : undefined;
+  // Share of the best achievable Cpm kept at the current mean, 1 when the mean sits on the target
+  const targetRatio = tau ? safeStdDev / tau : undefined;
+
+  // Confidence intervals, with the within sigma's degrees of freedom taken from the ranges or S values averaged
+  const withinDf = withinDegreesOfFreedom(
+    chartType,
+    chartType === "xbar-s" ? stdDevValues.length : rangeValues.length,
+    constants
+  );
+  const intervals = capabilityIntervals(
+    { cp, cpu, cpl, cpk, pp, ppu, ppl, ppk },
+    measurements.length,
+    withinDf,
+    confidenceLevel
+  );
+
+  // Capability of each stage from its own kept readings
+  const stageSummaries: StageSummary[] | undefined = stages &&
+    [...stageLimits].map(([stage, { limits: stageLimit, subgroups: count, withinStdDev: stageWithinStdDev }]) => {
+      const values = readings.filter((_, i) => stages[i] === stage && !excludedSamples.has(sampleOf[i]));
+      const stageStdDev = calculateStdDev(values) ?? 0;
+      const indices = capabilityIndices(
+        stageLimit.xBarMean, stageWithinStdDev || MIN_SIGMA, stageStdDev || MIN_SIGMA, lsl, usl
+      );
+      return {
+        stage,
+        readings: values.length,
+        subgroups: count,
+        xBar: round(stageLimit.xBarMean, 4),
+        stdDevWithin: round(stageWithinStdDev, 4),
+        stdDevOverall: round(stageStdDev, 4),
+        cp: roundOptional(indices.cp, 2),
+        cpk: round(indices.cpk, 2),
+        pp: roundOptional(indices.pp, 2),
+        ppk: round(indices.ppk, 2),
+      };
+    });
+
+  // Percentile capability from the best-fitting distribution, for skewed characteristics
+  const capability = calculateDistributionCapability(measurements, lsl, usl);
+
+  const distribution = calculateDistributionData(measurements, lsl, usl, target, grandMean, withinStdDev, binningRule, binWidth)!;
+
+  // Special causes, each point against the limits of its stage
+  const pointsOutsideXBarLimits = xBarValues.filter((y, i) => {
+    const { xBarUcl, xBarLcl } = limitsAt(i + 1);
+    return keptXBar[i] && (y > xBarUcl || y < xBarLcl);
+  }).length;
+  // Dispersion chart: S chart in X-bar S mode, range chart otherwise
+  const dispersionKind: ChartKind = chartType === "xbar-s" ? "stdDev" : "range";
+  const dispersionPoints = chartType === "xbar-s" ? stdDevPoints : rangePoints;
+  const dispersionLimits = ({ rangeUcl, rangeMean, rangeLcl, sUcl = 0, sMean = 0, sLcl = 0 }: ControlChartLimits) =>
+    chartType === "xbar-s" ? { ucl: sUcl, center: sMean, lcl: sLcl } : { ucl: rangeUcl, center: rangeMean, lcl: rangeLcl };
+  const pointsOutsideRangeLimits = dispersionPoints.filter(({ x, y }, i) => {
+    const { ucl, lcl } = dispersionLimits(limitsAt(x));
+    return keptDispersion[i] && (y > ucl || y < lcl);
+  }).length;
+
+  // With varying sizes the rules see each point standardised against its own limits, as on the attribute
+  // charts; a floored LCL of 0 cannot be crossed, and a standardised point only passes -3 when the LCL is above 0
+  const standardize = (y: number, { center, ucl }: { center: number; ucl: number }) =>
+    ucl > center ? (3 * (y - center)) / (ucl - center) : 0;
+  const xBarLimits = ({ xBarMean, xBarUcl, xBarLcl }: ControlChartLimits) =>
+    ({ center: xBarMean, ucl: xBarUcl, lcl: xBarLcl });
+  const ruleXBarValues = variableSize
+    ? xBarValues.map((y, i) => standardize(y, xBarLimits(limitsAt(i + 1))))
+    : xBarValues;
+  const ruleDispersionValues = dispersionPoints.map(({ x, y }) =>
+    variableSize ? standardize(y, dispersionLimits(limitsAt(x))) : y
+  );
+
+  // EWMA and CUSUM against the X-bar center line and the sigma of each plotted mean, starting again with each
+  // stage; their signals are reported with the run rule violations
+  const centerAt = (sample: number) => limitsAt(sample).xBarMean;
+  const sigmaAt = (sample: number) => (limitsAt(sample).xBarUcl - limitsAt(sample).xBarMean) / 3;
+  const restartsAt = (sample: number) => chartSegments.some((segment) => segment.from === sample);
+  const ewma = ewmaOptions && calculateEwma(xBarValues, keptXBar, ewmaOptions, centerAt, sigmaAt, restartsAt);
+  const cusum = cusumOptions && calculateCusum(
+    xBarValues,
+    keptXBar,
+    cusumOptions,
+    centerAt,
+    sigmaAt,
+    restartsAt,
+    (sample) => validData[subgroups[sample - 1].start].InspectionDate
+  );
+
+  // Run rules from the assigned profile on both charts; runs do not carry over from one stage to the next
+  const rules = ruleDefinitions(ruleSet);
+  const runRuleViolations = chartSegments.flatMap(({ from, to, limits: segmentLimits }) => {
+    const inSegment = (sample: number) => sample >= from && sample <= to;
+    return [
+      ...evaluateKeptRules(
+        "xBar",
+        ruleXBarValues,
+        keptXBar.map((kept, i) => kept && inSegment(i + 1)),
+        variableSize ? STANDARDIZED_LIMITS : xBarLimits(segmentLimits),
+        rules
+      ),
+      ...evaluateKeptRules(
+        dispersionKind,
+        ruleDispersionValues,
+        keptDispersion.map((kept, i) => kept && inSegment(dispersionPoints[i].x)),
+        variableSize ? STANDARDIZED_LIMITS : dispersionLimits(segmentLimits),
+        rules
+      ),
+    ];
+  });
+  const ruleViolations = [...runRuleViolations, ...(ewma?.violations ?? []), ...(cusum?.violations ?? [])];
+  const consecutivePointsRun = summarizeRule(ruleSet, ruleViolations, 2);
+
+  // 3S Analysis; shift and spread are judged against the tolerance, which a one-sided specification lacks.
+  // Pp against Cp is the ratio of the within to the overall sigma, so it is compared on the sigmas.
+  const processShift = cp === undefined ? "Not Applicable" : cpk < 0.75 * cp ? "Yes" : "No";
+  const processSpread = cp === undefined ? "Not Applicable" : cp < 1 ? "Yes" : "No";
+  const specialCausePresent =
+    safeStdDev <= safeWithinStdDev
+      ? "Special Cause Detection impossible"
+      : safeWithinStdDev < 0.75 * safeStdDev
+      ? "Yes"
+      : "No";
+
+  return {
+    metrics: {
+      readings: measurements.length,
+      xBar: round(grandMean, 4),
+      stdDevOverall: round(stdDev, 4),
+      stdDevWithin: round(withinStdDev, 4),
+      avgRange: round(avgRange, 4),
+      ...(chartType === "xbar-s" ? { avgStdDev: round(avgStdDev, 4) } : {}),
+      specificationType,
+      cp: roundOptional(cp, 2),
+      cpu: roundOptional(cpu, 2),
+      cpl: roundOptional(cpl, 2),
+      cpk: round(cpk, 2),
+      pp: roundOptional(pp, 2),
+      ppu: roundOptional(ppu, 2),
+      ppl: roundOptional(ppl, 2),
+      ppk: round(ppk, 2),
+      lsl: roundOptional(lsl, 3),
+      usl: roundOptional(usl, 3),
+      target: roundOptional(target, 3),
+      targetSource,
+      cpm: roundOptional(cpm, 2),
+      cpkm: roundOptional(cpkm, 2),
+      ppm: {
+        observed: observedPpm(measurements, lsl, usl),
+        expectedWithin: distribution.expectedPpm.within,
+        expectedOverall: distribution.expectedPpm.overall,
+      },
+      sigmaLevel: {
+        within: sigmaLevel(grandMean, safeWithinStdDev, lsl, usl),
+        overall: sigmaLevel(grandMean, safeStdDev, lsl, usl),
+      },
+      confidence: { level: confidenceLevel, minimumCpk, intervals },
+    },
+    capability,
+    normality: calculateNormality(measurements),
+    controlCharts: {
+      chartType,
+      subgroupSize,
+      xBarData,
+      rangeData,
+      ...(individuals ? { movingRangeSpan } : {}),
+      ...(chartType === "xbar-s" ? { sData } : {}),
+      limits: roundLimits(limits),
+      limitSource: frozenLimits
+        ? {
+            phase: "phase-2",
+            baselineStart: frozenLimits.baselineStart,
+            baselineEnd: frozenLimits.baselineEnd,
+            frozenAt: frozenLimits.frozenAt,
+          }
+        : { phase: "phase-1" },
+      excludedIndices: {
+        xBar: keptXBar.flatMap((kept, i) => (kept ? [] : [i])),
+        dispersion: keptDispersion.flatMap((kept, i) => (kept ? [] : [i])),
+      },
+      ...(stages || variableSize
+        ? {
+            segments: limitSteps.map(({ from, to, limits: segmentLimits }) => ({
+              ...(stages ? { stage: stageOfSample(from)! } : {}),
+              ...(variableSize ? { subgroupSize: sizeOf(from) } : {}),
+              from,
+              to,
+              limits: roundLimits(segmentLimits),
+            })),
+          }
+        : {}),
+      ...(ewma ? { ewma: ewma.chart } : {}),
+      ...(cusum ? { cusum: cusum.chart } : {}),
+    },
+    distribution,
+    ssAnalysis: {
+      processShift,
+      processSpread,
+      specialCausePresent,
+      pointsOutsideLimits: pointsOutsideXBarLimits > 0
+        ? `${pointsOutsideXBarLimits} Points Detected`
+        : "None",
+      rangePointsOutsideLimits: pointsOutsideRangeLimits > 0
+        ? `${pointsOutsideRangeLimits} Points Detected`
+        : "None",
+      consecutivePointsRun,
+      consecutiveTrend: summarizeRule(ruleSet, ruleViolations, 3),
+    },
+    processInterpretation: {
+      decisionRemark: getDecisionRemark(cpk, specificationType),
+      processPotential: cp === undefined ? "Not Applicable" : cp >= 1.33 ? "Excellent" : cp >= 1.0 ? "Good" : "Poor",
+      processPerformance: cpk >= 1.33 ? "Excellent" : cpk >= 1.0 ? "Good" : "Poor",
+      processStability: ruleViolations.length === 0 ? "Stable" : "Unstable",
+      processShift: consecutivePointsRun === "Yes" ? "Present" : "Not Detected",
+      longTermCentered: targetRatio === undefined ? "No Target" : targetRatio >= 0.75 ? "Centered on Target" : "Off Target",
+    },
+    ruleViolations,
+    ruleSet,
+    exclusions,
+    ...(stageSummaries ? { stages: stageSummaries } : {}),
+    subgrouping: ordered.summary,
+  };
+}
@@ -0,0 +1,60 @@
+import { EwmaChart, EwmaOptions, RuleViolation } from "@/types";
+
+// Weight and width commonly used to catch shifts of about one sigma
+export const DEFAULT_EWMA: EwmaOptions = { lambda: 0.2, width: 3 };
+
+/**
+ * Describe an EWMA signal with its parameters, e.g. "EWMA (λ = 0.2, L = 3) beyond its control limits"
+ * @param options - EWMA weight and limit width
+ */
+export function ewmaSignalDescription({ lambda, width }: EwmaOptions): string {
+  return `EWMA (λ = ${lambda}, L = ${width}) beyond its control limits`;
+}
+
+/**
+ * EWMA of the plotted means with exact time-varying limits. The variance of the EWMA is built up sample by
+ * sample, Var(z_i) = (1 - λ)² Var(z_i-1) + λ² σ_i², so it holds for means of differing subgroup sizes too.
+ * @param values - Subgroup means, or individual readings, in sample order
+ * @param kept - Whether each value takes part in the analysis; an excluded sample carries the EWMA forward
+ * @param options - EWMA weight and limit width
+ * @param centerAt - Center line at a sample number
+ * @param sigmaAt - Standard deviation of the plotted mean at a sample number
+ * @param restartsAt - Whether the EWMA starts again from the center at a sample number, e.g. a new stage
+ * @returns The chart, and one signal per point beyond its limits
+ */
+export function calculateEwma(
+  values: number[],
+  kept: boolean[],
+  options: EwmaOptions,
+  centerAt: (sample: number) => number,
+  sigmaAt: (sample: number) => number,
+  restartsAt: (sample: number) => boolean
+): { chart: EwmaChart; violations: RuleViolation[] } {
+  const { lambda, width } = options;
+  if (!(lambda > 0 && lambda <= 1)) throw new Error("EWMA weight λ must be above 0 and at most 1");
+  if (!(width > 0)) throw new Error("EWMA limit width L must be above 0");
+
+  let ewma = 0;
+  let variance = 0;
+  const data = values.map((value, i) => {
+    const sample = i + 1;
+    const center = centerAt(sample);
+    if (i === 0 || restartsAt(sample)) {
+      ewma = center;
+      variance = 0;
+    }
+    if (kept[i]) {
+      ewma = lambda * value + (1 - lambda) * ewma;
+      variance = (1 - lambda) ** 2 * variance + lambda ** 2 * sigmaAt(sample) ** 2;
+    }
+    const spread = width * Math.sqrt(variance);
+    return { x: sample, y: ewma, center, ucl: center + spread, lcl: center - spread };
+  });
+
+  const description = ewmaSignalDescription(options);
+  const violations = data.flatMap(({ y, ucl, lcl }, i): RuleViolation[] =>
+    kept[i] && (y > ucl || y < lcl) ? [{ ruleId: 1, chart: "ewma", description, indices: [i] }] : []
+  );
+
+  return { chart: { lambda, width, data }, violations };
+}
@@ -0,0 +1,90 @@
+import { ExclusionConfig, ExclusionSet, InspectionData, PointExclusion, SavedExclusion } from "@/types";
+
+/**
+ * Identity of each reading that holds across analyses of other date ranges, shifts or subgroupings: its inspection
+ * date, shift, serial and value as the ERP sends them. A reading with the same identity as another in the rows
+ * cannot be told apart from it and gets none, so its exclusion is not saved or placed rather than guessed.
+ * @param rows - Numeric inspection rows, the same set wherever keys are compared
+ * @returns One key per row, undefined for rows without an inspection date or serial, or with a twin
+ */
+export function readingKeys(rows: InspectionData[]): Array<string | undefined> {
+  const identities = rows.map((row) =>
+    row.InspectionDate || row.SerialNumber
+      ? [row.InspectionDate ?? "", row.ShiftCode, row.SerialNumber ?? "", row.ActualSpecification].join("|")
+      : undefined
+  );
+  const counts = new Map<string, number>();
+  identities.forEach((key) => {
+    if (key !== undefined) counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return identities.map((key) => (key !== undefined && counts.get(key) === 1 ? key : undefined));
+}
+
+/**
+ * Find the saved exclusions of a material/operation/gauge
+ * @param config - Stored exclusions
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ * @param gaugeCode - Selected gauge
+ */
+export function resolveExclusionSet(
+  config: ExclusionConfig,
+  materialCode?: string,
+  operationCode?: string,
+  gaugeCode?: string
+): ExclusionSet | undefined {
+  return config.exclusionSets.find(
+    (s) => s.materialCode === materialCode && s.operationCode === operationCode && s.gaugeCode === gaugeCode
+  );
+}
+
+/**
+ * Check saved exclusions before they are stored
+ * @param config - Exclusion sets to validate
+ * @returns Problems found, empty when every set is valid
+ */
+export function validateExclusionConfig(config: ExclusionConfig): string[] {
+  if (!Array.isArray(config?.exclusionSets)) {
+    return ["exclusionSets must be an array"];
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+  config.exclusionSets.forEach((set) => {
+    if (!set.materialCode || !set.operationCode || !set.gaugeCode) {
+      errors.push("Every exclusion set needs a material, operation and gauge code");
+      return;
+    }
+    const name = `${set.materialCode} / ${set.operationCode} / ${set.gaugeCode}`;
+    if (!Array.isArray(set.exclusions)) {
+      errors.push(`${name}: exclusions must be an array`);
+    } else if (set.exclusions.some((e) => !e.reading || !e.reason?.trim() || !e.excludedAt)) {
+      errors.push(`${name}: every excluded point needs a reading, a reason and a date`);
+    }
+    const key = [set.materialCode, set.operationCode, set.gaugeCode].join("|");
+    if (keys.has(key)) {
+      errors.push(`${name} has more than one exclusion set`);
+    }
+    keys.add(key);
+  });
+
+  return errors;
+}
+
+/**
+ * Saved exclusions after a change in one analysis: those of readings outside the analysed data are kept, those
+ * inside it are replaced by the analysis's current exclusions
+ * @param saved - Exclusions saved for the characteristic
+ * @param current - Exclusions of the analysis; those without a reading identity cannot be saved
+ * @param analysedReadings - Reading keys of the analysed data
+ */
+export function mergeSavedExclusions(
+  saved: SavedExclusion[],
+  current: PointExclusion[],
+  analysedReadings: Set<string>
+): SavedExclusion[] {
+  return [
+    ...saved.filter((e) => !analysedReadings.has(e.reading)),
+    ...current.flatMap(({ reading, reason, excludedAt }) => (reading ? [{ reading, reason, excludedAt }] : [])),
+  ];
+}
@@ -0,0 +1,147 @@
+import { NormalityAnalysis, NormalityTest, ProbabilityPlotBand } from "@/types";
+import { calculateMean, calculateStdDev, normalCdf, normalQuantile, round } from "./statistics";
+import { NORMALITY_ALPHA, andersonDarling, normalAdPValue } from "./distributions";
+
+// Confidence level of the band drawn around the fitted line
+const BAND_CONFIDENCE = 0.95;
+const BAND_STEPS = 40;
+
+/**
+ * Normal scores of the ordered readings, Blom's approximation to the expected order statistics
+ * @param n - Sample size
+ */
+function normalScores(n: number): number[] {
+  return Array.from({ length: n }, (_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+}
+
+function andersonDarlingTest(sorted: number[], mean: number, stdDev: number): NormalityTest {
+  const statistic = andersonDarling(sorted, (x) => normalCdf((x - mean) / stdDev));
+  return {
+    name: "andersonDarling",
+    label: "Anderson-Darling",
+    statistic,
+    pValue: normalAdPValue(statistic, sorted.length),
+  };
+}
+
+const polynomial = (coefficients: number[], x: number) =>
+  coefficients.reduce((sum, c, power) => sum + c * Math.pow(x, power), 0);
+
+/**
+ * Shapiro-Wilk W with Royston's (1992) coefficients and p-value approximation, valid for 3 to 5000 readings
+ */
+function shapiroWilkTest(sorted: number[], mean: number): NormalityTest {
+  const n = sorted.length;
+  const m = normalScores(n);
+  const mm = m.reduce((sum, value) => sum + value * value, 0);
+  const u = 1 / Math.sqrt(n);
+
+  const a = new Array<number>(n);
+  if (n === 3) {
+    a[2] = Math.SQRT1_2;
+    a[1] = 0;
+    a[0] = -Math.SQRT1_2;
+  } else {
+    const an = m[n - 1] / Math.sqrt(mm) + polynomial([0, 0.221157, -0.147981, -2.07119, 4.434685, -2.706056], u);
+    let phi: number;
+    if (n > 5) {
+      const an1 = m[n - 2] / Math.sqrt(mm) + polynomial([0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633], u);
+      phi = (mm - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2);
+      a[n - 2] = an1;
+      a[1] = -an1;
+    } else {
+      phi = (mm - 2 * m[n - 1] ** 2) / (1 - 2 * an ** 2);
+    }
+    a[n - 1] = an;
+    a[0] = -an;
+    const inner = n > 5 ? 2 : 1;
+    for (let i = inner; i < n - inner; i++) a[i] = m[i] / Math.sqrt(phi);
+  }
+
+  const numerator = a.reduce((sum, coefficient, i) => sum + coefficient * sorted[i], 0) ** 2;
+  const denominator = sorted.reduce((sum, x) => sum + (x - mean) ** 2, 0);
+  const w = denominator > 0 ? Math.min(numerator / denominator, 1) : 1;
+
+  let pValue: number;
+  if (n === 3) {
+    pValue = Math.max(0, (6 / Math.PI) * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75))));
+  } else if (n <= 11) {
+    const gamma = 0.459 * n - 2.273;
+    const wPrime = -Math.log(gamma - Math.log(1 - w));
+    const mu = polynomial([0.544, -0.39978, 0.025054, -0.0006714], n);
+    const sigma = Math.exp(polynomial([1.3822, -0.77857, 0.062767, -0.0020322], n));
+    pValue = isFinite(wPrime) ? 1 - normalCdf((wPrime - mu) / sigma) : 0;
+  } else {
+    const ln = Math.log(n);
+    const mu = polynomial([-1.5861, -0.31082, -0.083751, 0.0038915], ln);
+    const sigma = Math.exp(polynomial([-0.4803, -0.082676, 0.0030302], ln));
+    pValue = 1 - normalCdf((Math.log(1 - w) - mu) / sigma);
+  }
+
+  return { name: "shapiroWilk", label: "Shapiro-Wilk", statistic: w, pValue: Math.min(Math.max(pValue, 0), 1) };
+}
+
+/**
+ * Ryan-Joiner correlation between the ordered readings and their normal scores. The p-value is
+ * interpolated between Minitab's critical values at 10%, 5% and 1%.
+ */
+function ryanJoinerTest(sorted: number[], mean: number): NormalityTest {
+  const n = sorted.length;
+  const b = normalScores(n);
+  const sumXB = sorted.reduce((sum, x, i) => sum + (x - mean) * b[i], 0);
+  const sumXX = sorted.reduce((sum, x) => sum + (x - mean) ** 2, 0);
+  const sumBB = b.reduce((sum, value) => sum + value * value, 0);
+  const r = sumXX > 0 ? sumXB / Math.sqrt(sumXX * sumBB) : 1;
+
+  const critical = [
+    { p: 0.01, r: 0.9963 - 0.0211 / Math.sqrt(n) - 1.4106 / n + 3.1791 / (n * n) },
+    { p: 0.05, r: 1.0063 - 0.1288 / Math.sqrt(n) - 0.6118 / n + 1.3505 / (n * n) },
+    { p: 0.1, r: 1.0071 - 0.1371 / Math.sqrt(n) - 0.3682 / n + 0.778 / (n * n) },
+  ];
+
+  const result: NormalityTest = { name: "ryanJoiner", label: "Ryan-Joiner", statistic: r, pValue: 0 };
+  if (r <= critical[0].r) return { ...result, pValue: 0.01, pValueBound: "below" };
+  if (r >= critical[2].r) return { ...result, pValue: 0.1, pValueBound: "above" };
+  const i = critical.findIndex((row) => row.r > r);
+  const [lo, hi] = [critical[i - 1], critical[i]];
+  const t = (r - lo.r) / (hi.r - lo.r);
+  return { ...result, pValue: Math.exp(Math.log(lo.p) + t * (Math.log(hi.p) - Math.log(lo.p))) };
+}
+
+/**
+ * Normality tests and normal probability plot for the readings behind Cp/Cpk
+ * @param measurements - Individual readings
+ * @returns Tests with p-values, the plotted points and the fitted line with its confidence band
+ */
+export function calculateNormality(measurements: number[]): NormalityAnalysis {
+  const sorted = [...measurements].sort((a, b) => a - b);
+  const n = sorted.length;
+  const mean = calculateMean(sorted) ?? 0;
+  const stdDev = calculateStdDev(sorted, mean) || 0.000001;
+
+  const tests = n >= 3
+    ? [andersonDarlingTest(sorted, mean, stdDev), shapiroWilkTest(sorted, mean), ryanJoinerTest(sorted, mean)]
+    : [];
+
+  // Points at their median ranks (Benard), as on Minitab's probability plot
+  const scores = sorted.map((_, i) => normalQuantile((i + 1 - 0.3) / (n + 0.4)));
+
+  // Pointwise band for the fitted percentiles: var(mean + z * s) ~ s^2 (1/n + z^2 / (2(n - 1)))
+  const zCritical = normalQuantile(1 - (1 - BAND_CONFIDENCE) / 2);
+  const [zMin, zMax] = [scores[0] ?? 0, scores[n - 1] ?? 0];
+  const band: ProbabilityPlotBand[] = Array.from({ length: BAND_STEPS + 1 }, (_, i) => {
+    const z = zMin + ((zMax - zMin) * i) / BAND_STEPS;
+    const fit = mean + z * stdDev;
+    const halfWidth = zCritical * stdDev * Math.sqrt(1 / n + (z * z) / (2 * Math.max(n - 1, 1)));
+    return { z: round(z, 4), fit: round(fit, 6), lower: round(fit - halfWidth, 6), upper: round(fit + halfWidth, 6) };
+  });
+
+  return {
+    tests: tests.map((test) => ({ ...test, statistic: round(test.statistic, 4), pValue: round(test.pValue, 4) })),
+    rejected: tests.some((test) => test.pValue < NORMALITY_ALPHA),
+    alpha: NORMALITY_ALPHA,
+    confidence: BAND_CONFIDENCE,
+    points: sorted.map((x, i) => ({ x, z: round(scores[i], 4) })),
+    band,
+  };
+}
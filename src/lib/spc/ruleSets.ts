@@ -0,0 +1,154 @@
+import {
+  NelsonRuleId, RuleConfig, RuleSetProfile, RuleSetConfig, ChartType
+} from "@/types";
+import { NELSON_RULES, RuleDefinition } from "./rules";
+
+export const DEFAULT_RULE_SET_ID = "nelson";
+
+const RULE_IDS = Object.keys(NELSON_RULES).map(Number) as NelsonRuleId[];
+
+/**
+ * Build a rule-set profile from the Nelson defaults
+ * @param enabled - Rules switched on, with any parameters that differ from the Nelson defaults
+ */
+function buildProfile(
+  id: string,
+  name: string,
+  enabled: Partial<Record<NelsonRuleId, Partial<RuleConfig>>>
+): RuleSetProfile {
+  const rules = {} as Record<NelsonRuleId, RuleConfig>;
+  RULE_IDS.forEach((ruleId) => {
+    const defaults = NELSON_RULES[ruleId];
+    const override = enabled[ruleId];
+    rules[ruleId] = {
+      length: override?.length ?? defaults.length,
+      ...(defaults.count !== undefined ? { count: override?.count ?? defaults.count } : {}),
+      enabled: override !== undefined,
+    };
+  });
+  return { id, name, builtIn: true, rules };
+}
+
+// Profiles customers audit against; custom profiles are stored alongside these
+export const BUILT_IN_RULE_SETS: RuleSetProfile[] = [
+  buildProfile("nelson", "Nelson (all 8 rules)", {
+    1: {}, 2: {}, 3: {}, 4: {}, 5: {}, 6: {}, 7: {}, 8: {},
+  }),
+  buildProfile("weco", "Western Electric", {
+    1: {}, 2: { length: 8 }, 5: {}, 6: {},
+  }),
+  buildProfile("aiag", "AIAG SPC Manual", {
+    1: {}, 2: { length: 7 }, 3: { length: 7 },
+  }),
+];
+
+/**
+ * Rule definitions for the engine, in rule order
+ * @param profile - Rule-set profile
+ */
+export function ruleDefinitions(profile: RuleSetProfile): RuleDefinition[] {
+  return RULE_IDS.map((ruleId) => ({
+    ...NELSON_RULES[ruleId],
+    ...profile.rules[ruleId],
+    id: ruleId,
+  }));
+}
+
+/**
+ * All profiles available for assignment, built-in first
+ * @param config - Stored rule-set configuration
+ */
+export function allRuleSets(config: RuleSetConfig): RuleSetProfile[] {
+  return [...BUILT_IN_RULE_SETS, ...config.profiles.filter((p) => !p.builtIn)];
+}
+
+/**
+ * Pick the profile assigned to a material/operation. An assignment for the exact operation wins over
+ * one for the whole material; anything unassigned uses the Nelson profile.
+ * @param config - Stored rule-set configuration
+ * @param materialCode - Selected material
+ * @param operationCode - Selected operation
+ */
+export function resolveRuleSet(
+  config: RuleSetConfig,
+  materialCode?: string,
+  operationCode?: string
+): RuleSetProfile {
+  const profiles = allRuleSets(config);
+  const assignment =
+    config.assignments.find(
+      (a) => a.materialCode === materialCode && a.operationCode && a.operationCode === operationCode
+    ) ?? config.assignments.find((a) => a.materialCode === materialCode && !a.operationCode);
+
+  return (
+    profiles.find((p) => p.id === assignment?.ruleSetId) ??
+    profiles.find((p) => p.id === DEFAULT_RULE_SET_ID)!
+  );
+}
+
+/**
+ * Check a rule-set configuration before it is stored
+ * @param config - Configuration to validate
+ * @returns Problems found, empty when the configuration is valid
+ */
+export function validateRuleSetConfig(config: RuleSetConfig): string[] {
+  const errors: string[] = [];
+  if (!Array.isArray(config?.profiles) || !Array.isArray(config?.assignments)) {
+    return ["profiles and assignments must be arrays"];
+  }
+
+  const ids = new Set(BUILT_IN_RULE_SETS.map((p) => p.id));
+  config.profiles.forEach((profile) => {
+    if (!profile.id || !profile.name) {
+      errors.push("Every profile needs an id and a name");
+      return;
+    }
+    if (ids.has(profile.id)) {
+      errors.push(`Profile id "${profile.id}" is already in use`);
+    }
+    ids.add(profile.id);
+
+    RULE_IDS.forEach((ruleId) => {
+      const rule = profile.rules?.[ruleId];
+      if (!rule) {
+        errors.push(`${profile.name}: rule ${ruleId} is missing`);
+      } else if (!Number.isInteger(rule.length) || rule.length < 1 || rule.length > 50) {
+        errors.push(`${profile.name}: rule ${ruleId} length must be a whole number from 1 to 50`);
+      } else if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > rule.length)) {
+        errors.push(`${profile.name}: rule ${ruleId} count must be between 1 and ${rule.length}`);
+      }
+    });
+  });
+
+  config.assignments.forEach((assignment) => {
+    if (!assignment.materialCode) {
+      errors.push("Every assignment needs a material code");
+    } else if (!ids.has(assignment.ruleSetId)) {
+      errors.push(`Assignment for ${assignment.materialCode} uses unknown rule set "${assignment.ruleSetId}"`);
+    }
+  });
+
+  return errors;
+}
+
+const DISPERSION_NAMES: Record<ChartType, string> = {
+  "xbar-r": "Range",
+  "xbar-s": "S Chart",
+  "i-mr": "Moving Range",
+};
+
+/**
+ * Labels for the chart checks in the 3S table, using the profile's run lengths
+ * @param profile - Rule-set profile the analysis ran with
+ * @param chartType - Chart pair the analysis ran with
+ */
+export function runCheckLabels(
+  profile: RuleSetProfile,
+  chartType: ChartType
+): { rangePointsOutsideLimits: string; consecutivePointsRun: string; consecutiveTrend: string } {
+  return {
+    rangePointsOutsideLimits: `${DISPERSION_NAMES[chartType]} Points Outside Limits`,
+    consecutivePointsRun: `${profile.rules[2].length} Consecutive Points`,
+    consecutiveTrend: `${profile.rules[3].length} Point Trend`,
+  };
+}
@@ -0,0 +1,186 @@
+import { RuleViolation, NelsonRuleId, ChartKind, RuleConfig } from "@/types";
+
+export interface RuleDefinition extends RuleConfig {
+  id: NelsonRuleId;
+  name: string;
+}
+
+// Standard Nelson rule parameters
+export const NELSON_RULES: Record<NelsonRuleId, RuleDefinition> = {
+  1: { id: 1, name: "Point beyond control limits", enabled: true, length: 1 },
+  2: { id: 2, name: "Points in a row on one side of center line", enabled: true, length: 9 },
+  3: { id: 3, name: "Points in a row steadily increasing or decreasing", enabled: true, length: 6 },
+  4: { id: 4, name: "Points in a row alternating up and down", enabled: true, length: 14 },
+  5: { id: 5, name: "Points beyond 2 sigma on the same side", enabled: true, length: 3, count: 2 },
+  6: { id: 6, name: "Points beyond 1 sigma on the same side", enabled: true, length: 5, count: 4 },
+  7: { id: 7, name: "Points in a row within 1 sigma of center line", enabled: true, length: 15 },
+  8: { id: 8, name: "Points in a row beyond 1 sigma on either side", enabled: true, length: 8 },
+};
+
+export interface ChartRuleInput {
+  values: number[];
+  center: number;
+  ucl: number;
+  lcl: number;
+}
+
+/**
+ * Describe a rule with its parameters, e.g. "2 of 3 points beyond 2 sigma on the same side"
+ * @param rule - Rule definition
+ */
+export function describeRule(rule: RuleDefinition): string {
+  if (rule.id === 1) return "1 point beyond control limits";
+  if (rule.count !== undefined) return `${rule.count} of ${rule.length} ${rule.name.toLowerCase()}`;
+  return `${rule.length} ${rule.name.toLowerCase()}`;
+}
+
+/**
+ * Collect maximal runs of consecutive indices satisfying a predicate
+ * @param length - Number of values
+ * @param minLength - Shortest run to report
+ * @param matches - Predicate deciding whether index i continues the run started at start
+ * @param sharesEndpoint - Whether the next run may start on the last point of the previous one (trends)
+ */
+function findRuns(
+  length: number,
+  minLength: number,
+  matches: (i: number, start: number) => boolean,
+  sharesEndpoint = false
+): number[][] {
+  const runs: number[][] = [];
+  let start = 0;
+
+  while (start < length) {
+    let end = start;
+    while (end < length && matches(end, start)) end++;
+    if (end - start >= minLength) {
+      runs.push(Array.from({ length: end - start }, (_, i) => start + i));
+    }
+    start = end - start > 1 && sharesEndpoint ? end - 1 : Math.max(end, start + 1);
+  }
+
+  return runs;
+}
+
+/**
+ * Sliding "k of n" test: flag the points beyond a zone whenever k of n consecutive points are beyond it
+ * on the same side. Overlapping windows are merged into one occurrence.
+ */
+function findZoneClusters(
+  values: number[],
+  window: number,
+  count: number,
+  beyond: (value: number, side: 1 | -1) => boolean
+): number[][] {
+  const clusters: number[][] = [];
+
+  ([1, -1] as const).forEach((side) => {
+    let current: Set<number> | null = null;
+    let currentEnd = -1;
+
+    for (let start = 0; start + window <= values.length; start++) {
+      const hits: number[] = [];
+      for (let i = start; i < start + window; i++) {
+        if (beyond(values[i], side)) hits.push(i);
+      }
+      if (hits.length < count) continue;
+
+      if (current && start <= currentEnd) {
+        hits.forEach((i) => current!.add(i));
+      } else {
+        current = new Set(hits);
+        clusters.push([]);
+      }
+      currentEnd = start + window - 1;
+      clusters[clusters.length - 1] = [...current].sort((a, b) => a - b);
+    }
+  });
+
+  return clusters.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Evaluate the eight Nelson rules against one control chart
+ * @param chart - Which chart the values belong to
+ * @param input - Plotted values with the chart's center line and control limits
+ * @param rules - Rule definitions to evaluate (defaults to the standard Nelson parameters), disabled rules are skipped
+ * @returns One violation per occurrence, listing the indices of the offending points
+ */
+export function evaluateRules(
+  chart: ChartKind,
+  { values, center, ucl, lcl }: ChartRuleInput,
+  rules: RuleDefinition[] = Object.values(NELSON_RULES)
+): RuleViolation[] {
+  // Zone width; the upper limit is used so that a floored R-chart LCL does not shrink the zones
+  const sigma = (ucl - center) / 3;
+  const side = (value: number) => (value > center ? 1 : value < center ? -1 : 0);
+  const beyondSigma = (value: number, multiple: number, dir: 1 | -1) =>
+    sigma > 0 && dir * (value - center) > multiple * sigma;
+
+  const violations: RuleViolation[] = [];
+
+  rules.filter((rule) => rule.enabled).forEach((rule) => {
+    let occurrences: number[][] = [];
+
+    switch (rule.id) {
+      case 1:
+        occurrences = values
+          .map((value, i) => (value > ucl || value < lcl ? [i] : []))
+          .filter((indices) => indices.length > 0);
+        break;
+      case 2:
+        occurrences = findRuns(
+          values.length,
+          rule.length,
+          (i, start) => side(values[i]) !== 0 && side(values[i]) === side(values[start])
+        );
+        break;
+      case 3:
+        // A run of n points is n - 1 steps in the same direction
+        occurrences = findRuns(values.length, rule.length, (i, start) => {
+          if (i === start) return true;
+          const step = Math.sign(values[i] - values[i - 1]);
+          return step !== 0 && step === Math.sign(values[start + 1] - values[start]);
+        }, true);
+        break;
+      case 4:
+        occurrences = findRuns(values.length, rule.length, (i, start) => {
+          if (i - start < 2) return i === start || values[i] !== values[i - 1];
+          const step = Math.sign(values[i] - values[i - 1]);
+          return step !== 0 && step === -Math.sign(values[i - 1] - values[i - 2]);
+        }, true);
+        break;
+      case 5:
+        occurrences = findZoneClusters(values, rule.length, rule.count ?? 2, (v, dir) => beyondSigma(v, 2, dir));
+        break;
+      case 6:
+        occurrences = findZoneClusters(values, rule.length, rule.count ?? 4, (v, dir) => beyondSigma(v, 1, dir));
+        break;
+      case 7:
+        occurrences = sigma > 0
+          ? findRuns(values.length, rule.length, (i) => Math.abs(values[i] - center) < sigma)
+          : [];
+        break;
+      case 8:
+        occurrences = sigma > 0
+          ? findRuns(values.length, rule.length, (i) => Math.abs(values[i] - center) > sigma)
+          : [];
+        break;
+    }
+
+    occurrences.forEach((indices) => {
+      violations.push({ ruleId: rule.id, chart, description: describeRule(rule), indices });
+    });
+  });
+
+  return violations;
+}
+
+/**
+ * Indices of the points on one chart that take part in any violation
+ * @param violations - Violations returned by the engine
+ * @param chart - Chart to collect indices for
+ */
+export function flaggedIndices(violations: RuleViolation[], chart: ChartKind): Set<number> {
+  return new Set(violations.filter((v) => v.chart === chart).flatMap((v) => v.indices));
+}
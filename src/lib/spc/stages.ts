@@ -0,0 +1,65 @@
+import { InspectionData, StageBy, StagePeriod, Staging } from "@/types";
+import { toDay, weekStart } from "./dates";
+
+export const STAGE_BY: Record<StageBy, { label: string; description: string }> = {
+  none: { label: "None", description: "One center line and set of limits for all data" },
+  shift: { label: "Shift", description: "Separate limits per shift" },
+  period: { label: "Calendar Period", description: "Separate limits per day, week or month" },
+  breakpoints: { label: "Breakpoints", description: "New limits from given samples, e.g. after a tool change or setup" },
+};
+
+export const STAGE_PERIODS: Record<StagePeriod, string> = {
+  day: "Day",
+  week: "Week",
+  month: "Month",
+};
+
+function periodLabel(day: string, period: StagePeriod): string {
+  if (period === "day") return day;
+  if (period === "month") return day.slice(0, 7);
+  return `Week of ${weekStart(day)}`;
+}
+
+/**
+ * Read breakpoints typed as a list of sample numbers, e.g. "41, 81"
+ * @param text - Comma or space separated sample numbers
+ */
+export function parseBreakpoints(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(Number);
+}
+
+/**
+ * Stage of each reading
+ * @param rows - Inspection rows in reading order
+ * @param staging - How stages are formed
+ * @param sampleOf - Sample number of each row on the unstaged chart, which breakpoints refer to
+ * @returns A stage label per row, or undefined when the chart is not staged
+ */
+export function stageLabels(rows: InspectionData[], staging: Staging, sampleOf: number[]): string[] | undefined {
+  switch (staging.by) {
+    case "none":
+      return undefined;
+    case "shift":
+      return rows.map((row) => `Shift ${row.ShiftCode}`);
+    case "period":
+      return rows.map((row) => {
+        const day = toDay(row.InspectionDate);
+        if (!day) throw new Error("Staging by calendar period needs an inspection date on every row");
+        return periodLabel(day, staging.period ?? "week");
+      });
+    case "breakpoints": {
+      const breakpoints = staging.breakpoints ?? [];
+      if (breakpoints.length === 0) throw new Error("Enter at least one breakpoint sample number");
+      if (breakpoints.some((b) => !Number.isInteger(b) || b < 2)) {
+        throw new Error("Breakpoints must be whole sample numbers from 2 up");
+      }
+      const samples = sampleOf[sampleOf.length - 1] ?? 0;
+      const pastEnd = breakpoints.find((b) => b > samples);
+      if (pastEnd !== undefined) throw new Error(`Breakpoint ${pastEnd} is past the last sample (${samples})`);
+      return sampleOf.map((sample) => `Stage ${new Set(breakpoints.filter((b) => b <= sample)).size + 1}`);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Calculate the mean of an array of numbers
+ * @param data - Array of numeric values
+ * @returns Mean value or null if array is empty
+ */
+export function calculateMean(data: number[]): number | null {
+  if (data.length === 0) return null;
+  return data.reduce((sum, value) => sum + value, 0) / data.length;
+}
+
+/**
+ * Calculate the sample standard deviation (n - 1) of an array of numbers
+ * @param data - Array of numeric values
+ * @param mean - Mean value (optional)
+ * @returns Standard deviation or null if fewer than two values
+ */
+export function calculateStdDev(data: number[], mean: number | null = null): number | null {
+  if (data.length < 2) return null;
+  const dataMean = mean ?? calculateMean(data);
+  if (dataMean === null) return null;
+  const sumSquares = data.reduce((sum, value) => sum + Math.pow(value - dataMean, 2), 0);
+  return Math.sqrt(sumSquares / (data.length - 1));
+}
+
+/**
+ * Round a value for display, mapping non-finite results to 0
+ * @param value - Value to round
+ * @param digits - Number of decimal places
+ */
+export function round(value: number, digits: number): number {
+  return isFinite(value) ? Number(value.toFixed(digits)) : 0;
+}
+
+/**
+ * Round a value that may be missing, e.g. an index a one-sided specification does not have
+ * @param value - Value to round
+ * @param digits - Number of decimal places
+ */
+export function roundOptional(value: number | undefined, digits: number): number | undefined {
+  return value === undefined ? undefined : round(value, digits);
+}
+
+/**
+ * Cpk-style index: the smaller of the upper and lower indices, or the only one of a one-sided specification
+ * @param upper - Index against the USL
+ * @param lower - Index against the LSL
+ */
+export function nearerLimitIndex(upper: number | undefined, lower: number | undefined): number {
+  return Math.min(upper ?? Infinity, lower ?? Infinity);
+}
+
+// Lanczos approximation coefficients (g = 7, n = 9)
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+/**
+ * Natural logarithm of the gamma function
+ * @param x - Positive argument
+ */
+export function logGamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Standard normal cumulative distribution, accurate to about 1e-7 relative error in both tails
+ * @param z - Standard normal deviate
+ */
+export function normalCdf(z: number): number {
+  if (z === Infinity) return 1;
+  if (z === -Infinity) return 0;
+  // Complementary error function by Chebyshev fit (Numerical Recipes erfcc)
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * x);
+  const erfc = t * Math.exp(
+    -x * x - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 + t * (-0.18628806 +
+    t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+  );
+  return z >= 0 ? 1 - 0.5 * erfc : 0.5 * erfc;
+}
+
+/**
+ * Inverse of the standard normal cumulative distribution (Acklam's rational approximation)
+ * @param p - Probability between 0 and 1
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow || p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(p < pLow ? p : 1 - p));
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < pLow ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x), the gamma distribution CDF with unit scale
+ * @param a - Shape, positive
+ * @param x - Argument, non-negative
+ */
+export function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  if (x === Infinity) return 1;
+  // Iterations grow with the square root of the shape, large shapes need a few thousand
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+
+  if (x < a + 1) {
+    // Series expansion
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 10000; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+    }
+    return Math.min(1, sum * Math.exp(logPrefix));
+  }
+
+  // Continued fraction for Q(a, x) (modified Lentz)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 10000; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.max(0, 1 - Math.exp(logPrefix) * h);
+}
+
+/**
+ * Digamma function, the derivative of logGamma
+ * @param x - Positive argument
+ */
+export function digamma(x: number): number {
+  let result = 0;
+  while (x < 6) {
+    result -= 1 / x;
+    x += 1;
+  }
+  const f = 1 / (x * x);
+  return result + Math.log(x) - 0.5 / x - f * (1 / 12 - f * (1 / 120 - f * (1 / 252 - f * (1 / 240 - f / 132))));
+}
+
+/**
+ * Trigamma function, the derivative of digamma
+ * @param x - Positive argument
+ */
+export function trigamma(x: number): number {
+  let result = 0;
+  while (x < 6) {
+    result += 1 / (x * x);
+    x += 1;
+  }
+  const f = 1 / (x * x);
+  return result + 1 / x + f / 2 + (f / x) * (1 / 6 - f * (1 / 30 - f * (1 / 42 - f / 30)));
+}
+
+/**
+ * Quantile of the chi-square distribution, by bisection on the regularized gamma function
+ * @param p - Probability between 0 and 1
+ * @param df - Degrees of freedom, may be fractional
+ */
+export function chiSquareQuantile(p: number, df: number): number {
+  if (p <= 0) return 0;
+  if (p >= 1) return Infinity;
+  let lo = 0;
+  let hi = Math.max(df, 1);
+  while (regularizedGammaP(df / 2, hi / 2) < p) hi *= 2;
+  for (let i = 0; i < 200 && hi - lo > 1e-10 * hi; i++) {
+    const mid = (lo + hi) / 2;
+    if (regularizedGammaP(df / 2, mid / 2) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
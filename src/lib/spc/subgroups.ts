@@ -0,0 +1,136 @@
+import { IncompleteSubgroups, InspectionData, SubgroupBy, Subgrouping, SubgroupingSummary } from "@/types";
+import { toTimestamp } from "./dates";
+
+export const SUBGROUP_BY: Record<SubgroupBy, { label: string; description: string }> = {
+  position: { label: "Data Order", description: "Consecutive readings in the order the ERP returned them" },
+  time: { label: "Inspection Time", description: "Readings taken together, in chronological order" },
+  serial: { label: "Part Serial", description: "Consecutive parts by serial number" },
+  key: { label: "ERP Subgroup", description: "Readings the ERP recorded under one subgroup ID" },
+};
+
+export const INCOMPLETE_SUBGROUPS: Record<IncompleteSubgroups, string> = {
+  keep: "Keep, Limits for Their Size",
+  drop: "Drop",
+};
+
+// Readings of one inspection are usually minutes apart
+export const DEFAULT_SUBGROUP_WINDOW_MINUTES = 5;
+
+const MS_PER_MINUTE = 60_000;
+
+function requireField(rows: InspectionData[], read: (row: InspectionData) => string | undefined, message: string) {
+  if (rows.some((row) => !read(row))) throw new Error(message);
+}
+
+/**
+ * Sort rows into production order and label the rows that belong together
+ * @returns Rows in order, with a key per row where a subgroup must not span two keys
+ */
+function orderRows(rows: InspectionData[], subgrouping: Subgrouping): { rows: InspectionData[]; keys?: string[] } {
+  switch (subgrouping.by) {
+    case "position":
+      return { rows };
+    case "time": {
+      const times = rows.map((row) => toTimestamp(row.InspectionDate));
+      if (times.some((time) => time === undefined)) {
+        throw new Error("Subgrouping by inspection time needs a readable timestamp on every row");
+      }
+      const window = (subgrouping.windowMinutes ?? DEFAULT_SUBGROUP_WINDOW_MINUTES) * MS_PER_MINUTE;
+      const order = rows.map((_, i) => i).sort((a, b) => times[a]! - times[b]!); // Stable, ties keep data order
+      // A subgroup runs from its first reading until the window closes
+      let opened = -Infinity;
+      let group = 0;
+      const keys = order.map((i) => {
+        if (times[i]! - opened > window) {
+          opened = times[i]!;
+          group++;
+        }
+        return String(group);
+      });
+      return { rows: order.map((i) => rows[i]), keys };
+    }
+    case "serial": {
+      requireField(rows, (row) => row.SerialNumber?.trim(), "Subgrouping by part serial needs a serial number on every row");
+      const serials = new Intl.Collator(undefined, { numeric: true });
+      return { rows: [...rows].sort((a, b) => serials.compare(a.SerialNumber!, b.SerialNumber!)) };
+    }
+    case "key": {
+      requireField(rows, (row) => row.SubgroupId?.trim(), "Subgrouping by ERP subgroup needs a subgroup ID on every row");
+      // Subgroups in order of their first inspection when every row is timed, else of first appearance
+      const times = rows.map((row) => toTimestamp(row.InspectionDate));
+      const timed = times.every((time) => time !== undefined);
+      const first = new Map<string, number>();
+      rows.forEach((row, i) => {
+        const at = timed ? times[i]! : i;
+        first.set(row.SubgroupId!, Math.min(first.get(row.SubgroupId!) ?? Infinity, at));
+      });
+      const ordered = [...rows].sort((a, b) => first.get(a.SubgroupId!)! - first.get(b.SubgroupId!)!);
+      return { rows: ordered, keys: ordered.map((row) => row.SubgroupId!) };
+    }
+  }
+}
+
+/**
+ * Order readings for rational subgrouping and handle subgroups short of the sample size. Rows of one key
+ * are cut into subgroups of the sample size, so only the last subgroup of a key can be short.
+ * @param rows - Numeric inspection rows
+ * @param subgrouping - How subgroups are formed
+ * @param subgroupSize - Readings per subgroup, 1 in I-MR mode
+ * @returns Rows in production order, the key of each row, and what happened to incomplete subgroups
+ */
+export function rationalSubgroups(
+  rows: InspectionData[],
+  subgrouping: Subgrouping,
+  subgroupSize: number
+): { rows: InspectionData[]; keys?: string[]; summary: SubgroupingSummary } {
+  if (
+    subgrouping.by === "time" &&
+    subgrouping.windowMinutes !== undefined &&
+    !(subgrouping.windowMinutes >= 0 && isFinite(subgrouping.windowMinutes))
+  ) {
+    throw new Error("Subgroup window must be zero or more minutes");
+  }
+  const ordered = orderRows(rows, subgrouping);
+
+  // Subgroup of each row and the size of each subgroup
+  const subgroupOf: number[] = [];
+  const sizes: number[] = [];
+  ordered.rows.forEach((_, i) => {
+    const sameKey = i > 0 && ordered.keys?.[i] === ordered.keys?.[i - 1];
+    if (sameKey && sizes[sizes.length - 1] < subgroupSize) {
+      sizes[sizes.length - 1]++;
+    } else {
+      sizes.push(1);
+    }
+    subgroupOf.push(sizes.length - 1);
+  });
+  const incomplete = new Set(sizes.flatMap((size, i) => (size < subgroupSize ? [i] : [])));
+  const drop = subgrouping.incomplete === "drop";
+  const kept = ordered.rows.map((_, i) => !drop || !incomplete.has(subgroupOf[i]));
+
+  return {
+    rows: ordered.rows.filter((_, i) => kept[i]),
+    keys: ordered.keys?.filter((_, i) => kept[i]),
+    summary: {
+      ...subgrouping,
+      incompleteCount: incomplete.size,
+      droppedReadings: kept.filter((k) => !k).length,
+    },
+  };
+}
+
+/**
+ * Describe how subgroups were formed, e.g. "Inspection Time, 2 incomplete subgroups dropped (7 readings)"
+ * @param summary - Subgrouping reported by the engine
+ */
+export function subgroupingLabel(summary: SubgroupingSummary): string {
+  const window = summary.by === "time"
+    ? ` within ${summary.windowMinutes ?? DEFAULT_SUBGROUP_WINDOW_MINUTES} min`
+    : "";
+  const base = `${SUBGROUP_BY[summary.by].label}${window}`;
+  if (summary.incompleteCount === 0) return base;
+  const plural = summary.incompleteCount === 1 ? "subgroup" : "subgroups";
+  return summary.droppedReadings
+    ? `${base}, ${summary.incompleteCount} incomplete ${plural} dropped (${summary.droppedReadings} readings)`
+    : `${base}, ${summary.incompleteCount} incomplete ${plural} kept`;
+}
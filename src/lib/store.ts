@@ -0,0 +1,35 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Settings saved by the app (rule sets, frozen limits, ...) live as JSON files in this directory
+const DATA_DIR = process.env.SPC_DATA_DIR ?? path.join(process.cwd(), "data");
+
+function storePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+/**
+ * Read a JSON document from the data directory
+ * @param name - Document name without extension
+ * @param fallback - Value returned when the document has not been saved yet
+ */
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(storePath(name), "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Save a JSON document to the data directory, replacing any previous version
+ * @param name - Document name without extension
+ * @param value - Value to store
+ */
+export async function writeStore<T>(name: string, value: T): Promise<void> {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const file = storePath(name);
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(value, null, 2));
+  await fs.rename(`${file}.tmp`, file);
+}
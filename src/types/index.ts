@@ -6,6 +6,30 @@ export interface FormState {
   operation: string;
   gauge: string;
   sampleSize: string;
+  chartFamily: ChartFamily;
+  chartType: ChartType;
+  movingRangeSpan: string;
+  attributeChartType: AttributeChartType;
+  attributeGrouping: AttributeGrouping;
+  attributeSampleSize: string;
+  binningRule: BinningRule;
+  binWidth: string; // Used by the custom binning rule
+  confidenceLevel: string;
+  minimumCpk: string;
+  specChangeHandling: SpecChangeHandling;
+  limitPhase: LimitPhase;
+  stageBy: StageBy;
+  stagePeriod: StagePeriod;
+  stageBreakpoints: string; // Comma separated sample numbers
+  subgroupBy: SubgroupBy;
+  subgroupWindow: string; // Minutes, inspection time subgrouping only
+  incompleteSubgroups: IncompleteSubgroups;
+  ewmaEnabled: boolean;
+  ewmaLambda: string;
+  ewmaWidth: string;
+  cusumEnabled: boolean;
+  cusumK: string;
+  cusumH: string;
   startDate: Date;
   endDate: Date;
 }
@@ -31,10 +55,18 @@ export interface Gauge {
 }
 
 export interface InspectionData {
-  ShiftCode: string;
-  ActualSpecification: string;
-  FromSpecification: string;
-  ToSpecification: string;
+  ShiftCode: string | number; // ERP returns numeric shift IDs, the form keeps them as strings
+  ActualSpecification: string; // Reading, or OK / NG style result for go/no-go gauges
+  FromSpecification: string; // LSL, empty for an upper-only characteristic such as max runout
+  ToSpecification: string; // USL, empty for a lower-only characteristic such as min hardness
+  // Sent by the ERP for some gauges only
+  TargetSpecification?: string; // Drawing nominal, when it is not the middle of the tolerance
+  InspectionDate?: string; // Date, or date and time of the reading
+  SerialNumber?: string; // Part serial, in production order
+  SubgroupId?: string; // Subgroup the ERP recorded the reading under, e.g. an hourly check
+  InspectedQty?: string | number; // Units covered by the row, 1 when absent
+  DefectiveQty?: string | number; // Nonconforming units in the row
+  DefectCount?: string | number; // Nonconformities found in the row
 }
 
 export interface ChartPoint {
@@ -42,17 +74,43 @@ export interface ChartPoint {
   y: number;
 }
 
+// Histogram bin count (square root, Sturges) or bin width (Scott, Freedman-Diaconis, custom) rules
+export type BinningRule = "square-root" | "sturges" | "scott" | "freedman-diaconis" | "custom";
+
+// Fitted normal curves, scaled to expected counts per bin
+export interface DistributionCurvePoint {
+  x: number;
+  within: number;
+  overall: number;
+}
+
+// Parts per million outside the specification
+export interface PpmBreakdown {
+  belowLsl: number;
+  aboveUsl: number;
+  total: number;
+}
+
 export interface DistributionData {
-  data: { x: number; y: number }[];
+  data: ChartPoint[]; // Bin centre and count
+  curve: DistributionCurvePoint[];
+  expectedPpm: { within: PpmBreakdown; overall: PpmBreakdown };
   stats: {
     min: number;
     max: number;
     mean: number;
-    target: number;
+    stdDev: number;
+    stdDevWithin: number;
+    target?: number;
+    binningRule: BinningRule;
+    binWidth: number;
     binEdges: number[];
   };
 }
 
+// Variables chart pairs: X-bar with a range or standard deviation chart, or individuals with a moving range chart
+export type ChartType = "xbar-r" | "xbar-s" | "i-mr";
+
 export interface ControlChartLimits {
   xBarUcl: number;
   xBarMean: number;
@@ -60,89 +118,465 @@ export interface ControlChartLimits {
   rangeUcl: number;
   rangeMean: number;
   rangeLcl: number;
+  // S chart limits, X-bar S mode only
+  sUcl?: number;
+  sMean?: number;
+  sLcl?: number;
+}
+
+// Phase I calculates control limits from the data shown, Phase II monitors it against limits frozen from a baseline
+export type LimitPhase = "phase-1" | "phase-2";
+
+export interface ControlLimitSource {
+  phase: LimitPhase;
+  // Phase II only: the frozen limit set's baseline period and when it was frozen
+  baselineStart?: string;
+  baselineEnd?: string;
+  frozenAt?: string;
 }
 
 export interface ControlCharts {
-  xBarData: ChartPoint[];
-  rangeData: ChartPoint[];
+  chartType: ChartType;
+  subgroupSize: number; // Readings per subgroup, 1 in I-MR mode
+  xBarData: ChartPoint[]; // Subgroup means, or individual readings in I-MR mode
+  rangeData: ChartPoint[]; // Subgroup ranges, or moving ranges plotted at the sample that closes them
+  movingRangeSpan?: number; // Readings per moving range, I-MR mode only
+  sData?: ChartPoint[]; // Subgroup standard deviations, X-bar S mode only
   limits: ControlChartLimits;
+  limitSource: ControlLimitSource;
+  // Positions of excluded points in xBarData, and in rangeData or sData; drawn in grey
+  excludedIndices: { xBar: number[]; dispersion: number[] };
+  segments?: ChartSegment[]; // Staged charts and variable subgroup sizes only, in sample order
+  ewma?: EwmaChart; // Set when an EWMA chart is requested
+  cusum?: CusumChart; // Set when a CUSUM chart is requested
+}
+
+// EWMA weight of the newest mean (lambda) and limit width in sigma of the EWMA (L)
+export interface EwmaOptions {
+  lambda: number;
+  width: number;
+}
+
+// EWMA of the plotted means, each with its own limits; they widen over the first samples to a steady state
+export interface EwmaPoint extends ChartPoint {
+  center: number;
+  ucl: number;
+  lcl: number;
+}
+
+export interface EwmaChart extends EwmaOptions {
+  data: EwmaPoint[];
 }
 
+// Tabular CUSUM reference value (k) and decision interval (h), both in sigma of the plotted mean
+export interface CusumOptions {
+  k: number;
+  h: number;
+}
+
+// Upper cumulative sum C+ in y and lower sum C- in lower, both in sigma of the plotted mean
+export interface CusumPoint extends ChartPoint {
+  lower: number;
+}
+
+// A CUSUM signal dated back to the sample where the sum last left zero
+export interface CusumSignal {
+  side: "upper" | "lower";
+  sample: number; // First sample beyond the decision interval
+  changePoint: number; // Estimated first sample of the shift
+  changeDate?: string; // Inspection date of the change point, when the readings carry one
+  mean: number; // Estimated process mean since the change point
+}
+
+export interface CusumChart extends CusumOptions {
+  data: CusumPoint[];
+  signals: CusumSignal[];
+}
+
+// Staged charts: separate limits per shift, calendar period, or from breakpoints such as a tool change or setup
+export type StageBy = "none" | "shift" | "period" | "breakpoints";
+
+export type StagePeriod = "day" | "week" | "month";
+
+export interface Staging {
+  by: StageBy;
+  period?: StagePeriod; // Calendar period staging only
+  breakpoints?: number[]; // Sample numbers that start a new stage
+}
+
+// How readings are ordered and cut into subgroups: as returned, by inspection time, part serial or ERP subgroup
+export type SubgroupBy = "position" | "time" | "serial" | "key";
+
+// Subgroups with fewer readings than the sample size, e.g. the end of the window or a missed check
+export type IncompleteSubgroups = "keep" | "drop";
+
+export interface Subgrouping {
+  by: SubgroupBy;
+  windowMinutes?: number; // Inspection time: readings within this many minutes of a subgroup's first join it
+  incomplete: IncompleteSubgroups;
+}
+
+export interface SubgroupingSummary extends Subgrouping {
+  incompleteCount: number; // Subgroups short of the sample size
+  droppedReadings: number; // Readings left out with the incomplete subgroups
+}
+
+// Consecutive samples of one stage, or of one subgroup size, drawn against their own center line and limits
+export interface ChartSegment {
+  stage?: string; // Staged charts: e.g. "Shift 2", "2024-03" or "Stage 3"
+  subgroupSize?: number; // Variable subgroup sizes: readings in each of these subgroups
+  from: number; // First and last sample number
+  to: number;
+  limits: ControlChartLimits;
+}
+
+// Capability of one stage, from its own within and overall sigma
+export interface StageSummary {
+  stage: string;
+  readings: number;
+  subgroups: number;
+  xBar: number;
+  stdDevWithin: number;
+  stdDevOverall: number;
+  cp?: number;
+  cpk: number;
+  pp?: number;
+  ppk: number;
+}
+
+// A charted point left out of the limits and indices for an assignable cause, e.g. a tool crash
+export interface PointExclusion {
+  sample: number; // Sample number as plotted, 1-based
+  // Identity of the sample's first reading, set when the readings carry an inspection date or serial
+  reading?: string;
+  reason: string;
+  excludedAt: string; // ISO timestamp
+}
+
+// An exclusion kept with its characteristic, placed again on whichever sample holds its reading
+export type SavedExclusion = Omit<PointExclusion, "sample" | "reading"> & { reading: string };
+
+export interface ExclusionSet {
+  materialCode: string;
+  operationCode: string;
+  gaugeCode: string;
+  exclusions: SavedExclusion[];
+}
+
+export interface ExclusionConfig {
+  exclusionSets: ExclusionSet[];
+}
+
+// Which specification limits the characteristic has, e.g. max runout is upper-only
+export type SpecificationType = "two-sided" | "upper-only" | "lower-only";
+
+// Indices that need a missing limit are left out for one-sided specifications; Cpk and Ppk are then the one-sided index
 export interface Metrics {
+  readings: number; // Readings analysed, after exclusions
   xBar: number;
   stdDevOverall: number;
   stdDevWithin: number;
   avgRange: number;
-  cp: number;
-  cpu: number; // Added for upper process capability
-  cpl: number; // Added for lower process capability
+  avgStdDev?: number; // S-bar, X-bar S mode only
+  specificationType: SpecificationType;
+  cp?: number;
+  cpu?: number; // Added for upper process capability
+  cpl?: number; // Added for lower process capability
   cpk: number;
-  pp: number;
-  ppu: number; // Added for upper preliminary process capability
-  ppl: number; // Added for lower preliminary process capability
+  pp?: number;
+  ppu?: number; // Added for upper preliminary process capability
+  ppl?: number; // Added for lower preliminary process capability
   ppk: number;
-  lsl: number;
-  usl: number;
-  target: number;
+  lsl?: number;
+  usl?: number;
+  target?: number; // No target for a one-sided specification unless a nominal is given
+  targetSource?: TargetSource;
+  cpm?: number; // Taguchi capability against the target, overall sigma, two-sided specifications only
+  cpkm?: number;
+  ppm: {
+    observed: PpmBreakdown;
+    expectedWithin: PpmBreakdown;
+    expectedOverall: PpmBreakdown;
+  };
+  sigmaLevel: {
+    within: SigmaLevel;
+    overall: SigmaLevel;
+  };
+  confidence: CapabilityConfidence;
+}
+
+// Where the target came from: the characteristic master, the inspection rows, or the middle of the tolerance
+export type TargetSource = "master" | "inspection-data" | "midpoint";
+
+export type CapabilityIndex = "cp" | "cpu" | "cpl" | "cpk" | "pp" | "ppu" | "ppl" | "ppk";
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface CapabilityConfidence {
+  level: number; // e.g. 0.95
+  minimumCpk: number; // Customer's minimum, lower bounds of Cpk and Ppk are checked against it
+  intervals: Partial<Record<CapabilityIndex, ConfidenceInterval>>; // Indices the specification allows
+}
+
+// Distance to each specification limit in sigmas, and the benchmark Z of the total fraction out of spec
+export interface SigmaLevel {
+  zLsl?: number;
+  zUsl?: number;
+  zBench: number;
 }
 
 export interface SSAnalysis {
   pointsOutsideLimits: string;
   rangePointsOutsideLimits: string;
-  eightConsecutivePoints: string;
-  sixConsecutiveTrend: string;
-  processShift: string; // Added to match ssAnalysis in AnalysisData
-  processSpread: string; // Added to match ssAnalysis in AnalysisData
-  specialCausePresent: string; // Added to match ssAnalysis in AnalysisData
+  consecutivePointsRun: string;
+  consecutiveTrend: string;
+  processShift: string;
+  processSpread: string;
+  specialCausePresent: string;
 }
 
 export interface ProcessInterpretation {
-  decisionRemark: string; // Added to match processInterpretation in AnalysisData
+  decisionRemark: string;
   processPotential: string;
   processPerformance: string;
   processStability: string;
   processShift: string;
+  longTermCentered: string; // Overall mean against the target
+}
+
+// Models tried for capability: fitted distributions, and normal fits after a transformation
+export type DistributionName = "normal" | "lognormal" | "weibull" | "gamma" | "box-cox" | "johnson";
+
+export interface DistributionFit {
+  distribution: DistributionName;
+  label: string; // Display name, e.g. "Johnson SU" or "Box-Cox (λ = 0.50)"
+  parameters: Record<string, number>;
+  adStatistic: number; // Anderson-Darling statistic
+  pValue: number;
+  pValueBound?: "above" | "below"; // Set when the p-value lies beyond the tabulated critical values
+}
+
+// Percentile (ISO 22514 / Clements) capability from the selected model
+export interface DistributionCapability {
+  selected: DistributionFit;
+  fits: DistributionFit[];
+  pLower: number; // 0.135th percentile
+  median: number;
+  pUpper: number; // 99.865th percentile
+  pp?: number;
+  ppu?: number;
+  ppl?: number;
+  ppk: number;
+}
+
+export type NormalityTestName = "andersonDarling" | "shapiroWilk" | "ryanJoiner";
+
+export interface NormalityTest {
+  name: NormalityTestName;
+  label: string;
+  statistic: number;
+  pValue: number;
+  pValueBound?: "above" | "below"; // Set when the p-value lies beyond the tabulated critical values
+}
+
+// Normal probability plot: ordered readings against normal scores, with the fitted line and its confidence band
+export interface ProbabilityPlotPoint {
+  x: number; // Reading
+  z: number; // Normal score of its median rank
+}
+
+export interface ProbabilityPlotBand {
+  z: number;
+  fit: number; // Fitted reading at this normal score
+  lower: number;
+  upper: number;
+}
+
+export interface NormalityAnalysis {
+  tests: NormalityTest[];
+  rejected: boolean; // True when any test rejects normality at alpha
+  alpha: number;
+  confidence: number; // Confidence level of the band
+  points: ProbabilityPlotPoint[];
+  band: ProbabilityPlotBand[];
+}
+
+export type NelsonRuleId = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export type ChartKind = "xBar" | "range" | "stdDev" | "attribute" | "ewma" | "cusum";
+
+export interface RuleConfig {
+  enabled: boolean;
+  length: number; // Run length, or window size for the "k of n" zone rules
+  count?: number; // Points beyond the zone required in the window (rules 5 and 6)
+}
+
+export interface RuleSetProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  rules: Record<NelsonRuleId, RuleConfig>;
+}
+
+// Assigns a rule set to a material, or to one operation of a material
+export interface RuleSetAssignment {
+  materialCode: string;
+  operationCode?: string;
+  ruleSetId: string;
+}
+
+export interface RuleSetConfig {
+  profiles: RuleSetProfile[];
+  assignments: RuleSetAssignment[];
+}
+
+export interface RuleViolation {
+  ruleId: NelsonRuleId;
+  chart: ChartKind;
+  description: string;
+  indices: number[]; // Positions in the chart's data array
+}
+
+// How readings taken under different specification revisions in one window are analysed
+export type SpecChangeHandling = "segments" | "normalize";
+
+export interface SpecRevision {
+  lsl?: number;
+  usl?: number;
+  count: number; // Readings taken against this revision
+  startDate?: string; // Inspection dates of its first and last reading, when the ERP sends them
+  endDate?: string;
+  latest: boolean; // Revision of the last reading in the window
+  capability?: Pick<Metrics, "xBar" | "cp" | "cpk" | "pp" | "ppk">; // Missing when the revision has too few readings
+}
+
+export interface SpecChange {
+  handling: SpecChangeHandling;
+  revisions: SpecRevision[]; // In order of their last reading, the latest last
+  notice: string;
 }
 
 export interface AnalysisData {
-  metrics: Metrics; // Updated to reference the Metrics interface
-  controlCharts: {
-    xBarData: { x: number; y: number }[];
-    rangeData: { x: number; y: number }[];
-    limits: {
-      xBarUcl: number;
-      xBarMean: number;
-      xBarLcl: number;
-      Agostinho: number;
-      rangeUcl: number;
-      rangeMean: number;
-      rangeLcl: number;
-    };
-  };
-  distribution: {
-    data: { x: number; y: number }[];
-    stats: {
-      min: number;
-      max: number;
-      mean: number;
-      target: number;
-      binEdges: number[];
-    };
-  };
-  ssAnalysis: {
-    processShift: string;
-    processSpread: string;
-    specialCausePresent: string;
-    pointsOutsideLimits: string;
-    rangePointsOutsideLimits: string;
-    eightConsecutivePoints: string;
-    sixConsecutiveTrend: string;
-  };
-  processInterpretation: {
-    decisionRemark: string;
-    processPotential: string;
-    processPerformance: string;
-    processStability: string;
-    processShift: string;
-  };
-}
\ No newline at end of file
+  metrics: Metrics;
+  capability: DistributionCapability; // Best-fitting model and its percentile indices
+  normality: NormalityAnalysis; // Normality tests and probability plot
+  controlCharts: ControlCharts;
+  distribution: DistributionData;
+  ssAnalysis: SSAnalysis;
+  processInterpretation: ProcessInterpretation;
+  ruleViolations: RuleViolation[];
+  ruleSet: RuleSetProfile; // Profile the run rules were evaluated against
+  specChange?: SpecChange; // Set when the specification limits change within the window
+  exclusions: PointExclusion[]; // In sample order
+  stages?: StageSummary[]; // Staged charts only, in order of first appearance
+  subgrouping: SubgroupingSummary;
+}
+
+// Cpk against the customer minimum: green at or above it, amber from 1.00 up to it, red below 1.00
+export type CapabilityRating = "green" | "amber" | "red";
+
+// One gauge of a batch capability summary; gauges that could not be analysed carry only the reason
+export interface GaugeCapability {
+  gaugeCode: string;
+  gaugeName: string;
+  readings?: number;
+  xBar?: number;
+  cp?: number;
+  cpk?: number;
+  pp?: number;
+  ppk?: number;
+  ppm?: number; // Expected overall PPM
+  stability?: string;
+  rating?: CapabilityRating;
+  error?: string;
+}
+
+// Variables gauges give readings, go/no-go gauges give pass/fail results
+export type ChartFamily = "variables" | "attribute";
+
+// Fraction defective (p), number defective (np), defects (c), defects per unit (u)
+export type AttributeChartType = "p" | "np" | "c" | "u";
+
+// Attribute subgroups: consecutive results of a fixed size, or all results of one inspection date
+export type AttributeGrouping = "subgroup" | "date";
+
+export interface AttributePoint extends ChartPoint {
+  label: string; // Subgroup number or inspection date
+  sampleSize: number; // Units inspected in the subgroup
+  count: number; // Defectives (p, np) or defects (c, u)
+  ucl: number;
+  lcl: number;
+}
+
+export interface AttributeMetrics {
+  subgroups: number;
+  inspected: number;
+  defectives: number;
+  defects: number;
+  averageSampleSize: number;
+  center: number; // p-bar, np-bar, c-bar or u-bar
+  percentDefective?: number; // Missing when some lots report only their defects
+  ppm: number; // Defective parts (p, np) or defects (c, u) per million units
+}
+
+export interface AttributeAnalysisData {
+  chartType: AttributeChartType;
+  grouping: AttributeGrouping;
+  points: AttributePoint[];
+  metrics: AttributeMetrics;
+  constantLimits: boolean; // False when the limits step with the subgroup size
+  processStability: string;
+  ruleViolations: RuleViolation[];
+  ruleSet: RuleSetProfile;
+}
+
+// Drawing nominal of one gauge's characteristic on a material/operation
+export interface Characteristic {
+  materialCode: string;
+  operationCode: string;
+  gaugeCode: string;
+  nominal: number;
+}
+
+export interface CharacteristicConfig {
+  characteristics: Characteristic[];
+}
+
+// Control limits frozen from a Phase I baseline of one material/operation/gauge characteristic
+export interface FrozenLimitSet {
+  materialCode: string;
+  operationCode: string;
+  gaugeCode: string;
+  chartType: ChartType;
+  subgroupSize: number; // Phase II data must be charted the same way
+  movingRangeSpan?: number; // I-MR mode only
+  limits: ControlChartLimits;
+  baselineStart: string; // yyyy-MM-dd
+  baselineEnd: string;
+  frozenAt: string; // ISO timestamp
+  exclusions?: PointExclusion[]; // Baseline points left out before the limits were frozen
+}
+
+export interface FrozenLimitConfig {
+  limitSets: FrozenLimitSet[];
+}
+
+export interface ReportParameters {
+  startDate: string;
+  endDate: string;
+  material: string;
+  operation: string;
+  gauge: string;
+  shifts?: string[];
+}
+
+// Display names of the current selection, shown in the report header
+export type SelectionLabels = Pick<ReportParameters, "material" | "operation" | "gauge" | "shifts">;
+
+export interface ReportRequest {
+  analysisData: AnalysisData;
+  parameters: ReportParameters;
+}